@@ -0,0 +1,33 @@
+/**
+ * Audit Log Catalog
+ *
+ * Actions follow a `<resource>.<verb>` format. Add an action here before
+ * recording it (see recordAuditEvent in utils/audit.ts).
+ */
+export const AUDIT_ACTIONS = [
+  'billing.customer_session_created',
+  'billing.checkout_started',
+  'billing.portal_opened',
+  'subscription.plan_changed',
+  'api_key.created',
+  'api_key.revoked',
+  'feature_override.set',
+  'feature_override.deleted',
+  'organization.exported',
+  'organization.imported',
+  'organization.deletion_scheduled',
+  'organization.deletion_canceled',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/**
+ * Who performed the action
+ * - user: Clerk session
+ * - api_key: organization API key (actor ID `apikey_<id>`)
+ * - internal: internal token (service-to-service)
+ * - system: webhooks and other background work
+ */
+export const AUDIT_ACTOR_TYPES = ['user', 'api_key', 'internal', 'system'] as const;
+
+export type AuditActorType = (typeof AUDIT_ACTOR_TYPES)[number];
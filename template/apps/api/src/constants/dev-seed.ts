@@ -0,0 +1,53 @@
+/**
+ * Local Development Seed Data (DEV_MODE=local)
+ *
+ * Users and organizations offered by the dev sign-in picker. Tokens issued
+ * for them carry the same claims as Clerk session tokens, so roles and
+ * permissions behave exactly as in production.
+ */
+
+export interface LocalUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+export interface LocalOrganization {
+  id: string;
+  name: string;
+  slug: string;
+  // userId -> Clerk role
+  members: Record<string, 'org:admin' | 'org:member'>;
+}
+
+export const LOCAL_USERS: readonly LocalUser[] = [
+  { id: 'user_local_alice', firstName: 'Alice', lastName: 'Admin', email: 'alice@example.com' },
+  { id: 'user_local_bob', firstName: 'Bob', lastName: 'Member', email: 'bob@example.com' },
+  { id: 'user_local_carol', firstName: 'Carol', lastName: 'Solo', email: 'carol@example.com' },
+];
+
+export const LOCAL_ORGANIZATIONS: readonly LocalOrganization[] = [
+  {
+    id: 'org_local_acme',
+    name: 'Acme Inc.',
+    slug: 'acme',
+    members: { user_local_alice: 'org:admin', user_local_bob: 'org:member' },
+  },
+  {
+    id: 'org_local_globex',
+    name: 'Globex',
+    slug: 'globex',
+    members: { user_local_bob: 'org:admin' },
+  },
+];
+
+/**
+ * Organizations a seeded user belongs to, with the user's role
+ */
+export function getLocalMemberships(userId: string) {
+  return LOCAL_ORGANIZATIONS.flatMap((organization) => {
+    const role = organization.members[userId];
+    return role ? [{ organization, role }] : [];
+  });
+}
@@ -0,0 +1,37 @@
+/**
+ * Transactional Email
+ *
+ * Emails are rendered from typed templates (src/emails/templates.ts) and
+ * delivered through an organization's outbox (OrganizationStorage.queueEmail).
+ */
+
+/**
+ * Email templates
+ * Add a template here, its data in EmailTemplateData and its text in every
+ * locale (src/emails/locales).
+ */
+export const EMAIL_TEMPLATES = [
+  'payment_failed',
+  'trial_ending',
+  'invitation',
+  'export_ready',
+] as const;
+
+export type EmailTemplate = (typeof EMAIL_TEMPLATES)[number];
+
+// Same languages as the SPA (apps/spa/src/locales)
+export const EMAIL_LOCALES = ['en', 'ja'] as const;
+
+export type EmailLocale = (typeof EMAIL_LOCALES)[number];
+
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = 'en';
+
+export const EMAIL_STATUSES = ['pending', 'sent', 'failed'] as const;
+
+export type EmailStatus = (typeof EMAIL_STATUSES)[number];
+
+// A failed delivery is retried for about 2 hours (see JOB_RETRY_BACKOFF)
+export const EMAIL_MAX_ATTEMPTS = 8;
+
+// Outbox entries (and so deduplication keys) are kept this long
+export const EMAIL_OUTBOX_RETENTION_SECONDS = 90 * 24 * 60 * 60;
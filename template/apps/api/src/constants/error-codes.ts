@@ -0,0 +1,45 @@
+/**
+ * API Error Codes
+ * Stable identifiers returned in `{ error: { code, message, requestId } }`.
+ * Clients branch on and localize by code; messages may change.
+ *
+ * Keep in sync with apps/spa/src/lib/api-error.ts
+ */
+export const ERROR_CODES = [
+  // 400
+  'bad_request',
+  'validation_failed',
+  'webhook_signature_invalid',
+  // 401
+  'unauthorized',
+  'token_missing',
+  'token_malformed',
+  'token_expired',
+  'token_not_yet_valid',
+  'token_invalid_issuer',
+  'token_invalid_azp',
+  'token_invalid_signature',
+  'token_invalid_claims',
+  'api_key_invalid',
+  'internal_token_invalid',
+  // 402
+  'plan_limit_exceeded',
+  'feature_not_available',
+  // 403
+  'forbidden',
+  // 404
+  'not_found',
+  'billing_account_not_found',
+  // 409
+  'conflict',
+  // 429
+  'rate_limited',
+  // 5xx
+  'internal_error',
+  'configuration_error',
+  'billing_provider_error',
+  'service_unavailable',
+  'jwks_unavailable',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
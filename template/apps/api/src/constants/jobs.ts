@@ -0,0 +1,27 @@
+/**
+ * Scheduled Jobs
+ *
+ * Two kinds of jobs:
+ * - Cron jobs (src/jobs/cron.ts): global, started by the Worker's cron
+ *   triggers and dispatched by name
+ * - Organization jobs: queued in an OrganizationStorage and run by its alarm
+ *   (see OrganizationStorage.enqueueJob)
+ */
+
+/**
+ * Organization job types
+ * Add a type here and its case in OrganizationStorage.runJobHandler.
+ */
+export const JOB_TYPES = ['purge_data', 'sync_subscription', 'send_email'] as const;
+
+export type JobType = (typeof JOB_TYPES)[number];
+
+export const JOB_STATUSES = ['pending', 'running', 'succeeded', 'failed', 'canceled'] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+// Attempts (first run included) before a job is marked failed
+export const DEFAULT_JOB_MAX_ATTEMPTS = 5;
+
+// Finished jobs and cron runs are kept this long as history
+export const JOB_HISTORY_RETENTION_SECONDS = 30 * 24 * 60 * 60;
@@ -0,0 +1,19 @@
+/**
+ * Organization Offboarding
+ *
+ * Deleting an organization or personal account schedules a purge of its
+ * storage after a grace period (see OrganizationStorage.scheduleDeletion).
+ */
+
+/**
+ * Why a deletion was scheduled
+ * - requested: an admin (or the personal account owner) in the app
+ * - organization_deleted: Clerk organization.deleted webhook
+ * - user_deleted: Clerk user.deleted webhook (personal account)
+ */
+export const DELETION_REASONS = ['requested', 'organization_deleted', 'user_deleted'] as const;
+
+export type DeletionReason = (typeof DELETION_REASONS)[number];
+
+// Grace period when OFFBOARDING_GRACE_DAYS is not set
+export const DEFAULT_OFFBOARDING_GRACE_DAYS = 30;
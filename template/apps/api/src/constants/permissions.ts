@@ -0,0 +1,82 @@
+/**
+ * Permission Catalog
+ *
+ * Permissions follow Clerk's `org:<feature>:<permission>` format. Custom
+ * permissions created in the Clerk Dashboard are read from the session token
+ * (`org_permissions` claim); the built-in roles are mapped here.
+ *
+ * Keep in sync with apps/spa/src/lib/permissions.ts
+ */
+export const PERMISSIONS = [
+  'org:billing:read',
+  'org:billing:manage',
+  'org:items:read',
+  'org:items:write',
+  'org:api_keys:manage',
+  'org:audit_log:read',
+  'org:data:export',
+  'org:organization:delete',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Permissions granted by role (in addition to those in the token)
+ */
+export const ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  'org:admin': PERMISSIONS,
+  'org:member': ['org:billing:read', 'org:items:read', 'org:items:write'],
+};
+
+/**
+ * Permissions that can be granted to API keys as scopes
+ * (keys cannot manage keys or delete the organization)
+ */
+export const API_KEY_SCOPES = PERMISSIONS.filter(
+  (permission) => permission !== 'org:api_keys:manage' && permission !== 'org:organization:delete',
+);
+
+/**
+ * Scopes of internal (service-to-service) tokens
+ * Not Clerk permissions: only granted by signInternalToken.
+ */
+export const INTERNAL_SCOPES = [
+  'internal:schema:read',
+  'internal:storage:read',
+  'internal:storage:write',
+  'internal:billing:repair',
+  'internal:features:write',
+  'internal:data:import',
+  'internal:jobs:read',
+  'internal:emails:read',
+  // Cross-organization: not bound to the token's orgId
+  'internal:registry:read',
+  'internal:cron:read',
+] as const;
+
+export type InternalScope = (typeof INTERNAL_SCOPES)[number];
+
+export interface PermissionSubject {
+  userId: string;
+  orgId: string | null;
+  orgRole: string | null;
+  orgPermissions: readonly string[];
+}
+
+/**
+ * Personal account: no active organization, or the user's own storage
+ */
+export function isPersonalAccount(subject: Pick<PermissionSubject, 'userId' | 'orgId'>): boolean {
+  return !subject.orgId || subject.orgId === subject.userId;
+}
+
+/**
+ * Check a permission
+ * Personal account owners have every permission on their own account.
+ */
+export function hasPermission(subject: PermissionSubject, permission: Permission): boolean {
+  if (isPersonalAccount(subject)) return true;
+
+  const rolePermissions = subject.orgRole ? ROLE_PERMISSIONS[subject.orgRole] ?? [] : [];
+  return rolePermissions.includes(permission) || subject.orgPermissions.includes(permission);
+}
@@ -1,3 +1,11 @@
+/**
+ * Features that can be gated by plan (requireFeature, FeatureGate)
+ * The SPA gets them from the generated API types (`Feature` schema).
+ */
+export const FEATURES = ['basic', 'advanced', 'enterprise'] as const;
+
+export type Feature = (typeof FEATURES)[number];
+
 /**
  * Plan Limits Configuration
  * Customize these values based on your SaaS pricing
@@ -18,6 +26,138 @@ export const PLAN_LIMITS = {
     maxStorage: Infinity,
     features: ['basic', 'advanced', 'enterprise'],
   },
-} as const;
+} as const satisfies Record<
+  string,
+  { maxItems: number; maxStorage: number; features: readonly Feature[] }
+>;
 
 export type PlanType = keyof typeof PLAN_LIMITS;
+
+export type PaidPlanType = Exclude<PlanType, 'FREE'>;
+
+/**
+ * Numeric limits in PLAN_LIMITS and the usage metric each one is checked against
+ */
+export const LIMIT_USAGE_METRIC = {
+  maxItems: 'items',
+  maxStorage: 'storage', // MB
+} as const;
+
+export type LimitType = keyof typeof LIMIT_USAGE_METRIC;
+
+export type UsageMetric = (typeof LIMIT_USAGE_METRIC)[LimitType];
+
+export const LIMIT_TYPES = Object.keys(LIMIT_USAGE_METRIC) as LimitType[];
+
+/**
+ * Plan ranking (higher wins when a customer has several subscriptions)
+ */
+export const PLAN_RANK: Record<PlanType, number> = {
+  FREE: 0,
+  STANDARD: 1,
+  ENTERPRISE: 2,
+};
+
+export interface PlanPrice {
+  priceId: string;
+  interval: 'month' | 'year';
+}
+
+/**
+ * Plan Catalog: Stripe price IDs for each paid plan
+ * List every price that should grant the plan (monthly/yearly, test/live mode).
+ * TODO: Replace with your actual price IDs
+ */
+export const PLAN_CATALOG: Record<PaidPlanType, readonly PlanPrice[]> = {
+  STANDARD: [
+    { priceId: 'price_standard_monthly_xxx', interval: 'month' },
+    { priceId: 'price_standard_yearly_xxx', interval: 'year' },
+  ],
+  ENTERPRISE: [
+    { priceId: 'price_enterprise_monthly_xxx', interval: 'month' },
+    { priceId: 'price_enterprise_yearly_xxx', interval: 'year' },
+  ],
+};
+
+/**
+ * Plan granted for an active subscription whose price is not in PLAN_CATALOG.
+ * Keeps paying customers on a paid plan if a new price is added in Stripe
+ * before the catalog is updated.
+ */
+export const UNKNOWN_PRICE_PLAN: PaidPlanType = 'STANDARD';
+
+/**
+ * Stripe subscription statuses
+ * https://docs.stripe.com/billing/subscriptions/overview#subscription-statuses
+ */
+export type SubscriptionStatus =
+  | 'active'
+  | 'trialing'
+  | 'past_due'
+  | 'incomplete'
+  | 'incomplete_expired'
+  | 'canceled'
+  | 'unpaid'
+  | 'paused';
+
+/**
+ * Entitlements per subscription status
+ * - paid: the subscription's plan applies
+ * - free: the organization falls back to FREE
+ */
+export const SUBSCRIPTION_STATUS_ENTITLEMENT: Record<SubscriptionStatus, 'paid' | 'free'> = {
+  active: 'paid',
+  trialing: 'paid',
+  past_due: 'paid', // Grace period while Stripe retries the payment
+  incomplete: 'free', // First payment has not succeeded yet
+  incomplete_expired: 'free',
+  canceled: 'free',
+  unpaid: 'free', // Retries exhausted
+  paused: 'free',
+};
+
+/**
+ * Find the paid plan for a Stripe price ID
+ */
+export function getPlanTypeForPrice(priceId: string): PaidPlanType | null {
+  for (const [planType, prices] of Object.entries(PLAN_CATALOG)) {
+    if (prices.some((price) => price.priceId === priceId)) {
+      return planType as PaidPlanType;
+    }
+  }
+  return null;
+}
+
+/**
+ * Rate limit buckets
+ * - default: every authenticated /api/* request
+ * - billing: routes that call Stripe synchronously (checked in addition to default)
+ */
+export type RateLimitBucket = 'default' | 'billing';
+
+export interface RateLimitPolicy {
+  // Bucket capacity (burst size)
+  requests: number;
+  // Time to refill the bucket from empty
+  windowSeconds: number;
+}
+
+/**
+ * Rate limits per plan (token bucket)
+ * Session requests share one bucket per organization; each API key gets its own.
+ * Customize these values based on your SaaS pricing
+ */
+export const RATE_LIMITS: Record<PlanType, Record<RateLimitBucket, RateLimitPolicy>> = {
+  FREE: {
+    default: { requests: 60, windowSeconds: 60 },
+    billing: { requests: 10, windowSeconds: 60 },
+  },
+  STANDARD: {
+    default: { requests: 300, windowSeconds: 60 },
+    billing: { requests: 30, windowSeconds: 60 },
+  },
+  ENTERPRISE: {
+    default: { requests: 1200, windowSeconds: 60 },
+    billing: { requests: 60, windowSeconds: 60 },
+  },
+};
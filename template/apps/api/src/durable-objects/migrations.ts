@@ -0,0 +1,286 @@
+/**
+ * OrganizationStorage Schema Migrations
+ *
+ * Migrations run in order when the Durable Object starts
+ * (inside ctx.blockConcurrencyWhile). Each one runs in its own transaction
+ * together with its _migrations record, so a failure rolls it back entirely.
+ *
+ * Rules:
+ * - Never edit or reorder a migration that has been deployed; add a new one
+ * - IDs sort lexicographically in apply order (NNNN_description)
+ * - `up` is synchronous (SQLite storage API is synchronous)
+ */
+
+export interface Migration {
+  id: string;
+  up: (sql: SqlStorage) => void;
+}
+
+/**
+ * Apply pending migrations (shared by every SQLite-backed Durable Object)
+ * Call inside ctx.blockConcurrencyWhile.
+ */
+export function applyMigrations(storage: DurableObjectStorage, migrations: Migration[]): void {
+  const sql = storage.sql;
+  sql.exec(`
+    CREATE TABLE IF NOT EXISTS _migrations (
+      id TEXT PRIMARY KEY,
+      applied_at INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  const applied = new Set(
+    sql.exec<{ id: string }>('SELECT id FROM _migrations').toArray().map((row) => row.id),
+  );
+
+  for (const migration of migrations) {
+    if (applied.has(migration.id)) continue;
+
+    try {
+      // Rolls back the migration and its record together on failure
+      storage.transactionSync(() => {
+        migration.up(sql);
+        sql.exec('INSERT INTO _migrations (id) VALUES (?)', migration.id);
+      });
+    } catch (error) {
+      console.error(`Migration ${migration.id} failed:`, error);
+      // Rethrow so the object resets and retries on the next request
+      throw error;
+    }
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    // IF NOT EXISTS: these tables predate the migration system
+    id: '0001_initial',
+    up: (sql) => {
+      // Organization settings (billing)
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS organization_settings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          stripe_customer_id TEXT,
+          creator_user_id TEXT,
+          creator_email TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+        )
+      `);
+
+      // Insert default record
+      sql.exec(`
+        INSERT OR IGNORE INTO organization_settings (id) VALUES (1)
+      `);
+    },
+  },
+  {
+    id: '0002_subscription_state',
+    up: (sql) => {
+      // Subscription cache (written by Stripe webhooks and reconcile)
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS subscription_state (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          stripe_subscription_id TEXT,
+          plan_type TEXT NOT NULL DEFAULT 'FREE',
+          status TEXT,
+          price_id TEXT,
+          current_period_end INTEGER,
+          cancel_at_period_end INTEGER NOT NULL DEFAULT 0,
+          last_event_created INTEGER,
+          synced_at INTEGER NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    id: '0003_usage_counters_and_items',
+    up: (sql) => {
+      // Usage counters (plan limits)
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS usage_counters (
+          metric TEXT PRIMARY KEY,
+          value INTEGER NOT NULL DEFAULT 0,
+          updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+        )
+      `);
+
+      // Example business data (replace with your own tables)
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS items (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          created_by TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch())
+        )
+      `);
+    },
+  },
+  {
+    id: '0004_clerk_sync',
+    up: (sql) => {
+      // Organization profile synced from Clerk webhooks
+      sql.exec(`ALTER TABLE organization_settings ADD COLUMN name TEXT`);
+      sql.exec(`ALTER TABLE organization_settings ADD COLUMN slug TEXT`);
+      sql.exec(`ALTER TABLE organization_settings ADD COLUMN clerk_updated_at INTEGER`);
+      sql.exec(`ALTER TABLE organization_settings ADD COLUMN deleted_at INTEGER`);
+
+      // Organization members (synced from Clerk webhooks)
+      sql.exec(`
+        CREATE TABLE members (
+          user_id TEXT PRIMARY KEY,
+          role TEXT NOT NULL,
+          email TEXT,
+          first_name TEXT,
+          last_name TEXT,
+          image_url TEXT,
+          clerk_updated_at INTEGER NOT NULL,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+        )
+      `);
+
+      // Processed webhook events (idempotency for provider retries)
+      sql.exec(`
+        CREATE TABLE processed_webhook_events (
+          event_id TEXT PRIMARY KEY,
+          source TEXT NOT NULL,
+          type TEXT NOT NULL,
+          processed_at INTEGER NOT NULL DEFAULT (unixepoch())
+        )
+      `);
+    },
+  },
+  {
+    id: '0005_api_keys',
+    up: (sql) => {
+      // Organization API keys (only the SHA-256 hash of the secret is stored)
+      sql.exec(`
+        CREATE TABLE api_keys (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          prefix TEXT NOT NULL,
+          key_hash TEXT NOT NULL UNIQUE,
+          scopes TEXT NOT NULL,
+          created_by TEXT NOT NULL,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          last_used_at INTEGER,
+          expires_at INTEGER,
+          revoked_at INTEGER
+        )
+      `);
+    },
+  },
+  {
+    id: '0006_feature_overrides',
+    up: (sql) => {
+      // Per-organization feature grants/revocations, applied on top of the plan
+      sql.exec(`
+        CREATE TABLE feature_overrides (
+          feature TEXT PRIMARY KEY,
+          enabled INTEGER NOT NULL,
+          reason TEXT,
+          expires_at INTEGER,
+          updated_by TEXT,
+          updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+        )
+      `);
+    },
+  },
+  {
+    id: '0007_audit_events',
+    up: (sql) => {
+      // Audit log (append-only: the triggers reject updates and deletes)
+      sql.exec(`
+        CREATE TABLE audit_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          actor_type TEXT NOT NULL,
+          actor_id TEXT,
+          action TEXT NOT NULL,
+          target_type TEXT,
+          target_id TEXT,
+          ip TEXT,
+          user_agent TEXT,
+          metadata TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch())
+        )
+      `);
+      sql.exec(`CREATE INDEX audit_events_by_action ON audit_events (action, id)`);
+      sql.exec(`CREATE INDEX audit_events_by_actor ON audit_events (actor_id, id)`);
+      sql.exec(`
+        CREATE TRIGGER audit_events_no_update BEFORE UPDATE ON audit_events
+        BEGIN SELECT RAISE(ABORT, 'audit_events is append-only'); END
+      `);
+      sql.exec(`
+        CREATE TRIGGER audit_events_no_delete BEFORE DELETE ON audit_events
+        BEGIN SELECT RAISE(ABORT, 'audit_events is append-only'); END
+      `);
+    },
+  },
+  {
+    id: '0008_jobs',
+    up: (sql) => {
+      // Job queue and history (see OrganizationStorage.enqueueJob)
+      sql.exec(`
+        CREATE TABLE jobs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,
+          payload TEXT,
+          dedupe_key TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          run_at INTEGER NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          max_attempts INTEGER NOT NULL,
+          last_error TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          started_at INTEGER,
+          finished_at INTEGER
+        )
+      `);
+      // Next due job (alarm), and history pruning
+      sql.exec('CREATE INDEX jobs_by_status ON jobs (status, run_at)');
+      // At most one pending job per key
+      sql.exec(`CREATE UNIQUE INDEX jobs_pending_key ON jobs (dedupe_key) WHERE status = 'pending'`);
+    },
+  },
+  {
+    id: '0009_email_outbox',
+    up: (sql) => {
+      // Transactional email outbox (see OrganizationStorage.queueEmail)
+      sql.exec(`
+        CREATE TABLE email_outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          template TEXT NOT NULL,
+          locale TEXT NOT NULL,
+          recipient TEXT NOT NULL,
+          data TEXT NOT NULL,
+          dedupe_key TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          message_id TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          sent_at INTEGER
+        )
+      `);
+      // At most one email per key and recipient
+      sql.exec('CREATE UNIQUE INDEX email_outbox_key ON email_outbox (dedupe_key, recipient)');
+      sql.exec('CREATE INDEX email_outbox_by_created ON email_outbox (created_at)');
+    },
+  },
+
+  // TODO: Add your migrations here
+  // Example:
+  // {
+  //   id: '0010_your_table',
+  //   up: (sql) => {
+  //     sql.exec(`
+  //       CREATE TABLE your_table (
+  //         id INTEGER PRIMARY KEY AUTOINCREMENT,
+  //         name TEXT NOT NULL,
+  //         created_at INTEGER NOT NULL DEFAULT (unixepoch())
+  //       )
+  //     `);
+  //     sql.exec(`ALTER TABLE organization_settings ADD COLUMN your_column TEXT`);
+  //   },
+  // },
+];
@@ -0,0 +1,369 @@
+/**
+ * Organization Registry Durable Object
+ *
+ * A single global instance lists every organization, for internal tooling
+ * (cross-tenant listing, search and totals). Each OrganizationStorage
+ * registers itself on first access and then reports its plan, storage size
+ * and last activity (throttled, see OrganizationStorage.recordActivity).
+ *
+ * The registry is a derived index: the organization's own storage stays the
+ * source of truth, and a lost report is corrected by the next one.
+ *
+ * It also keeps the history of cron job runs (see src/jobs/scheduled.ts).
+ *
+ * Usage:
+ *   const registry = getOrganizationRegistry(c.env);
+ *   const page = await registry.list({ search: 'acme', limit: 20 });
+ */
+import { DurableObject } from 'cloudflare:workers';
+import type { Env } from '../types/env';
+import { PLAN_LIMITS, type PlanType } from '../constants/plans';
+import { JOB_HISTORY_RETENTION_SECONDS } from '../constants/jobs';
+import { applyMigrations } from './migrations';
+import { REGISTRY_MIGRATIONS } from './registry-migrations';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// Organizations with activity in this window count as active
+const ACTIVE_WINDOW_SECONDS = 30 * 24 * 60 * 60;
+
+const MAX_CRON_RUN_PAGE_SIZE = 100;
+
+export class OrganizationRegistry extends DurableObject<Env> {
+  private sql: SqlStorage;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    this.sql = ctx.storage.sql;
+
+    ctx.blockConcurrencyWhile(async () => {
+      applyMigrations(ctx.storage, REGISTRY_MIGRATIONS);
+    });
+  }
+
+  /**
+   * Register an organization or update its entry
+   * Last activity only moves forward; a null name/slug keeps the stored one.
+   */
+  async register(input: OrganizationRegistration): Promise<void> {
+    this.sql.exec(
+      `INSERT INTO organizations (
+        org_id, name, slug, plan_type, storage_bytes, created_at, last_active_at, deleted_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(org_id) DO UPDATE SET
+        name = COALESCE(excluded.name, organizations.name),
+        slug = COALESCE(excluded.slug, organizations.slug),
+        plan_type = excluded.plan_type,
+        storage_bytes = excluded.storage_bytes,
+        last_active_at = NULLIF(MAX(
+          COALESCE(organizations.last_active_at, 0),
+          COALESCE(excluded.last_active_at, 0)
+        ), 0),
+        deleted_at = excluded.deleted_at,
+        updated_at = unixepoch()`,
+      input.orgId,
+      input.name,
+      input.slug,
+      input.planType,
+      input.storageBytes,
+      input.createdAt,
+      input.lastActiveAt,
+      input.deletedAt,
+    );
+  }
+
+  /**
+   * Record that an organization's storage was purged
+   * Also marks it deleted; a later registration (the organization is used
+   * again) clears deleted_at but keeps purged_at.
+   */
+  async markPurged(orgId: string, purgedAt: number): Promise<void> {
+    this.sql.exec(
+      `UPDATE organizations SET
+        purged_at = ?,
+        deleted_at = COALESCE(deleted_at, ?),
+        storage_bytes = 0,
+        updated_at = unixepoch()
+      WHERE org_id = ?`,
+      purgedAt,
+      purgedAt,
+      orgId,
+    );
+  }
+
+  /**
+   * Get one organization
+   */
+  async get(orgId: string): Promise<RegisteredOrganization | null> {
+    const row = this.sql
+      .exec<RegisteredOrganizationRow>(
+        `SELECT ${ORGANIZATION_COLUMNS} FROM organizations WHERE org_id = ?`,
+        orgId,
+      )
+      .toArray()[0];
+    return row ? toRegisteredOrganization(row) : null;
+  }
+
+  /**
+   * List organizations, newest first (keyset pagination)
+   * `search` matches the organization ID, name or slug (case-insensitive).
+   */
+  async list(query: OrganizationListQuery = {}): Promise<OrganizationListPage> {
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const conditions: string[] = [];
+    const params: SqlStorageValue[] = [];
+
+    if (query.after) {
+      conditions.push('(created_at < ? OR (created_at = ? AND org_id < ?))');
+      params.push(query.after.createdAt, query.after.createdAt, query.after.orgId);
+    }
+    if (query.search) {
+      const pattern = `%${query.search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+      conditions.push(
+        "(org_id LIKE ? ESCAPE '\\' OR name LIKE ? ESCAPE '\\' OR slug LIKE ? ESCAPE '\\')",
+      );
+      params.push(pattern, pattern, pattern);
+    }
+    if (query.planType) {
+      conditions.push('plan_type = ?');
+      params.push(query.planType);
+    }
+    if (!query.includeDeleted) {
+      conditions.push('deleted_at IS NULL');
+    }
+
+    const rows = this.sql
+      .exec<RegisteredOrganizationRow>(
+        `SELECT ${ORGANIZATION_COLUMNS} FROM organizations
+        ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY created_at DESC, org_id DESC
+        LIMIT ?`,
+        ...params,
+        // One extra row tells whether there is a next page
+        limit + 1,
+      )
+      .toArray();
+
+    const organizations = rows.slice(0, limit).map(toRegisteredOrganization);
+    const last = organizations[organizations.length - 1];
+    return {
+      organizations,
+      next: rows.length > limit && last ? { createdAt: last.createdAt, orgId: last.orgId } : null,
+    };
+  }
+
+  /**
+   * Aggregate counts over all organizations (deleted ones only in `deleted`)
+   */
+  async getStats(now = Math.floor(Date.now() / 1000)): Promise<RegistryStats> {
+    const totals = this.sql
+      .exec<{ total: number; active: number; deleted: number; storage_bytes: number }>(
+        `SELECT
+          COUNT(*) FILTER (WHERE deleted_at IS NULL) AS total,
+          COUNT(*) FILTER (WHERE deleted_at IS NULL AND last_active_at >= ?) AS active,
+          COUNT(*) FILTER (WHERE deleted_at IS NOT NULL) AS deleted,
+          COALESCE(SUM(storage_bytes) FILTER (WHERE deleted_at IS NULL), 0) AS storage_bytes
+        FROM organizations`,
+        now - ACTIVE_WINDOW_SECONDS,
+      )
+      .one();
+
+    const byPlan = Object.fromEntries(
+      (Object.keys(PLAN_LIMITS) as PlanType[]).map((planType) => [planType, 0]),
+    ) as Record<PlanType, number>;
+    const planRows = this.sql.exec<{ plan_type: string; count: number }>(
+      `SELECT plan_type, COUNT(*) AS count FROM organizations
+      WHERE deleted_at IS NULL GROUP BY plan_type`,
+    );
+    for (const row of planRows) {
+      byPlan[row.plan_type as PlanType] = row.count;
+    }
+
+    return {
+      total: totals.total,
+      active: totals.active,
+      activeWindowSeconds: ACTIVE_WINDOW_SECONDS,
+      deleted: totals.deleted,
+      byPlan,
+      storageBytes: totals.storage_bytes,
+    };
+  }
+
+  /**
+   * Record a finished cron job run (and drop runs past the retention period)
+   */
+  async recordCronRun(run: CronRunInput): Promise<void> {
+    this.sql.exec(
+      `INSERT INTO cron_runs (
+        job, cron, status, attempts, error, scheduled_at, started_at, finished_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      run.job,
+      run.cron,
+      run.status,
+      run.attempts,
+      run.error,
+      run.scheduledAt,
+      run.startedAt,
+      run.finishedAt,
+    );
+    this.sql.exec(
+      'DELETE FROM cron_runs WHERE finished_at < ?',
+      run.finishedAt - JOB_HISTORY_RETENTION_SECONDS,
+    );
+  }
+
+  /**
+   * List cron job runs, newest first
+   */
+  async listCronRuns(query: { job?: string; limit?: number } = {}): Promise<CronRun[]> {
+    const limit = Math.min(
+      Math.max(query.limit ?? MAX_CRON_RUN_PAGE_SIZE, 1),
+      MAX_CRON_RUN_PAGE_SIZE,
+    );
+    return this.sql
+      .exec<CronRunRow>(
+        `SELECT ${CRON_RUN_COLUMNS} FROM cron_runs
+        ${query.job ? 'WHERE job = ?' : ''}
+        ORDER BY id DESC LIMIT ?`,
+        ...(query.job ? [query.job] : []),
+        limit,
+      )
+      .toArray()
+      .map(toCronRun);
+  }
+}
+
+export interface OrganizationRegistration {
+  orgId: string;
+  name: string | null;
+  slug: string | null;
+  planType: PlanType;
+  storageBytes: number;
+  createdAt: number;
+  // null: not an activity report (e.g. a plan change from a webhook)
+  lastActiveAt: number | null;
+  deletedAt: number | null;
+}
+
+export interface RegisteredOrganization {
+  orgId: string;
+  name: string | null;
+  slug: string | null;
+  planType: PlanType;
+  storageBytes: number;
+  createdAt: number;
+  registeredAt: number;
+  lastActiveAt: number | null;
+  deletedAt: number | null;
+  purgedAt: number | null;
+}
+
+/**
+ * Position after the last organization of a page
+ */
+export interface OrganizationListPosition {
+  createdAt: number;
+  orgId: string;
+}
+
+export interface OrganizationListQuery {
+  after?: OrganizationListPosition | null;
+  limit?: number;
+  search?: string;
+  planType?: PlanType;
+  includeDeleted?: boolean;
+}
+
+export interface OrganizationListPage {
+  organizations: RegisteredOrganization[];
+  next: OrganizationListPosition | null;
+}
+
+export interface RegistryStats {
+  total: number;
+  active: number;
+  activeWindowSeconds: number;
+  deleted: number;
+  byPlan: Record<PlanType, number>;
+  storageBytes: number;
+}
+
+const ORGANIZATION_COLUMNS = `org_id, name, slug, plan_type, storage_bytes, created_at,
+  registered_at, last_active_at, deleted_at, purged_at`;
+
+interface RegisteredOrganizationRow {
+  org_id: string;
+  name: string | null;
+  slug: string | null;
+  plan_type: string;
+  storage_bytes: number;
+  created_at: number;
+  registered_at: number;
+  last_active_at: number | null;
+  deleted_at: number | null;
+  purged_at: number | null;
+  [key: string]: SqlStorageValue;
+}
+
+function toRegisteredOrganization(row: RegisteredOrganizationRow): RegisteredOrganization {
+  return {
+    orgId: row.org_id,
+    name: row.name,
+    slug: row.slug,
+    planType: row.plan_type as PlanType,
+    storageBytes: row.storage_bytes,
+    createdAt: row.created_at,
+    registeredAt: row.registered_at,
+    // 0 means no activity reported yet (see register)
+    lastActiveAt: row.last_active_at || null,
+    deletedAt: row.deleted_at,
+    purgedAt: row.purged_at,
+  };
+}
+
+export interface CronRunInput {
+  job: string;
+  // Cron expression that triggered the run
+  cron: string;
+  status: 'succeeded' | 'failed';
+  attempts: number;
+  error: string | null;
+  scheduledAt: number;
+  startedAt: number;
+  finishedAt: number;
+}
+
+export interface CronRun extends CronRunInput {
+  id: number;
+}
+
+const CRON_RUN_COLUMNS =
+  'id, job, cron, status, attempts, error, scheduled_at, started_at, finished_at';
+
+interface CronRunRow {
+  id: number;
+  job: string;
+  cron: string;
+  status: string;
+  attempts: number;
+  error: string | null;
+  scheduled_at: number;
+  started_at: number;
+  finished_at: number;
+  [key: string]: SqlStorageValue;
+}
+
+function toCronRun(row: CronRunRow): CronRun {
+  return {
+    id: row.id,
+    job: row.job,
+    cron: row.cron,
+    status: row.status as CronRun['status'],
+    attempts: row.attempts,
+    error: row.error,
+    scheduledAt: row.scheduled_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
@@ -3,68 +3,168 @@
  *
  * Each organization gets its own SQLite storage:
  * - organization_settings (Stripe customer ID, etc.)
+ * - subscription_state (Stripe subscription cache, kept fresh by webhooks)
+ * - usage_counters (plan limit usage, updated in the same transaction as data writes)
+ * - items (example business data, counted against PLAN_LIMITS.maxItems)
+ * - members (synced from Clerk webhooks)
+ * - api_keys (hashed organization API keys)
+ * - feature_overrides (per-organization feature grants/revocations)
+ * - audit_events (append-only audit log)
+ * - jobs (job queue and history, run by the alarm; see enqueueJob)
+ * - email_outbox (transactional emails, sent by send_email jobs; see queueEmail)
  * - Custom business data tables
  *
+ * Deleted organizations are purged after a grace period (see scheduleDeletion).
+ *
+ * Schema changes are versioned migrations (see ./migrations.ts).
+ * Each organization also reports itself to the global OrganizationRegistry
+ * (see recordActivity).
+ *
  * Usage:
  *   const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
  *   const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+ *   const settings = await stub.getSettings();
+ *
+ * Worker code talks to the DO only through typed RPC methods; raw SQL stays
+ * inside this class.
  */
 import { DurableObject } from 'cloudflare:workers';
-import { SignJWT } from 'jose';
 import type { Env } from '../types/env';
+import type { Feature, LimitType, PlanType, UsageMetric } from '../constants/plans';
+import type { AuditAction, AuditActorType } from '../constants/audit';
+import type { DeletionReason } from '../constants/offboarding';
+import {
+  DEFAULT_JOB_MAX_ATTEMPTS,
+  JOB_HISTORY_RETENTION_SECONDS,
+  type JobStatus,
+  type JobType,
+} from '../constants/jobs';
+import type { InternalScope } from '../constants/permissions';
+import {
+  EMAIL_MAX_ATTEMPTS,
+  EMAIL_OUTBOX_RETENTION_SECONDS,
+  type EmailLocale,
+  type EmailStatus,
+  type EmailTemplate,
+} from '../constants/email';
+import { renderEmail, type EmailContentInput } from '../emails/templates';
+import { createEmailTransport } from '../emails/transport';
+import { applyMigrations, MIGRATIONS } from './migrations';
+import { createBillingProvider } from '../utils/billing-provider';
+import { getOrganizationRegistry } from '../utils/organization-registry';
+import { getOffboardingGracePeriod } from '../utils/offboarding';
+import { getRetryDelaySeconds, toJobError } from '../utils/jobs';
+import { isSubscriptionStateStale } from '../utils/billing-plan';
+import type { LocalSubscription } from '../utils/local-billing';
+import { signInternalToken, verifyInternalToken } from '../utils/internal-token';
+
+// Key-value storage key of the fake billing provider's subscription
+const LOCAL_SUBSCRIPTION_KEY = 'local_billing:subscription';
+
+// Minimum time between activity reports to the OrganizationRegistry
+const REGISTRY_REPORT_INTERVAL_MS = 5 * 60 * 1000;
+
+// Largest page of audit events returned by listAuditEvents
+const MAX_AUDIT_PAGE_SIZE = 500;
+
+// Largest page of rows returned by exportTableRows
+const MAX_EXPORT_PAGE_SIZE = 1000;
+
+// Key-value storage key of an import in progress (see beginImport)
+const IMPORT_KEY = 'data_import';
+
+// Tables written when the organization is created in Clerk (webhooks), which
+// may already hold rows when an archive is imported into a fresh organization
+const PRESEEDED_TABLES = ['organization_settings', 'members', 'processed_webhook_events'];
+
+// Tables an import leaves to the target: its Clerk profile, members and
+// webhook history (PRESEEDED_TABLES), and its billing state, so an imported
+// organization is never linked to the source's Stripe customer
+const IMPORT_EXCLUDED_TABLES = [...PRESEEDED_TABLES, 'subscription_state'];
+
+// Processed webhook event IDs are kept this long, well past the providers'
+// retry windows (3 days for both Stripe and Svix)
+const WEBHOOK_EVENT_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+// Key-value storage key of a scheduled deletion (see scheduleDeletion)
+const DELETION_KEY = 'offboarding:deletion';
+
+// Key-value storage key of the record left by a purge (see purgeData)
+const TOMBSTONE_KEY = 'offboarding:tombstone';
+
+// Key of the purge_data job of a scheduled deletion
+const DELETION_JOB_KEY = 'offboarding:purge';
+
+// A failed purge is retried for about 20 hours (see JOB_RETRY_BACKOFF)
+const PURGE_MAX_ATTEMPTS = 12;
+
+// Largest page of jobs returned by listJobs
+const MAX_JOB_PAGE_SIZE = 100;
 
-const DEFAULT_INTERNAL_SECRET = 'development-secret-key';
+// Time an alarm spends running due jobs; the rest run on the next alarm
+const MAX_ALARM_RUN_MS = 60 * 1000;
+
+// Largest page of outbox emails returned by listEmails
+const MAX_EMAIL_PAGE_SIZE = 100;
+
+// Runtime state, not organization data: excluded from exports
+const RUNTIME_TABLES = ['jobs', 'email_outbox'];
 
 export class OrganizationStorage extends DurableObject<Env> {
   private sql: SqlStorage;
-  private initialized = false;
+  // In-flight Stripe customer creation, shared by concurrent callers
+  private customerCreation: Promise<string> | null = null;
+  // Last activity report to the registry (ms, in memory: the first call after a restart reports)
+  private lastRegistryReportAt = 0;
 
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
     this.sql = ctx.storage.sql;
+
+    // No request is delivered until the schema is up to date
+    ctx.blockConcurrencyWhile(async () => {
+      this.migrate();
+    });
   }
 
   /**
-   * Initialize database tables
+   * Apply pending schema migrations
    */
-  private async ensureInitialized() {
-    if (this.initialized) return;
+  private migrate(): void {
+    applyMigrations(this.ctx.storage, MIGRATIONS);
+  }
 
-    // Organization settings (billing)
-    await this.sql.exec(`
-      CREATE TABLE IF NOT EXISTS organization_settings (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        stripe_customer_id TEXT,
-        creator_user_id TEXT,
-        creator_email TEXT,
-        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
-        updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+  /**
+   * Get schema version (last applied migration)
+   */
+  async getSchemaVersion(): Promise<SchemaVersion> {
+    const applied = this.sql
+      .exec<{ id: string; applied_at: number }>(
+        'SELECT id, applied_at FROM _migrations ORDER BY id',
       )
-    `);
-
-    // Insert default record
-    await this.sql.exec(`
-      INSERT OR IGNORE INTO organization_settings (id) VALUES (1)
-    `);
-
-    // TODO: Add your custom tables here
-    // Example:
-    // await this.sql.exec(`
-    //   CREATE TABLE IF NOT EXISTS your_table (
-    //     id INTEGER PRIMARY KEY AUTOINCREMENT,
-    //     name TEXT NOT NULL,
-    //     created_at INTEGER NOT NULL DEFAULT (unixepoch())
-    //   )
-    // `);
+      .toArray();
+    const appliedIds = new Set(applied.map((row) => row.id));
+    const latest = applied[applied.length - 1];
 
-    this.initialized = true;
+    return {
+      version: latest?.id ?? null,
+      appliedAt: latest?.applied_at ?? null,
+      applied: applied.length,
+      pending: MIGRATIONS.filter((migration) => !appliedIds.has(migration.id)).map(
+        (migration) => migration.id,
+      ),
+    };
   }
 
+  // ============================================
+  // Internal SQL helpers
+  // Not part of the RPC surface: Worker code must use the typed methods below
+  // ============================================
+
   /**
    * Execute SQL query with parameters
    */
-  async query<T = unknown>(sql: string, ...params: unknown[]): Promise<T[]> {
-    await this.ensureInitialized();
+  private async query<T = unknown>(sql: string, ...params: unknown[]): Promise<T[]> {
     const flatParams = params.length === 1 && Array.isArray(params[0])
       ? params[0]
       : params;
@@ -79,7 +179,7 @@ export class OrganizationStorage extends DurableObject<Env> {
   /**
    * Get single record
    */
-  async queryOne<T = unknown>(sql: string, ...params: unknown[]): Promise<T | null> {
+  private async queryOne<T = unknown>(sql: string, ...params: unknown[]): Promise<T | null> {
     const results = await this.query<T>(sql, ...params);
     return results[0] ?? null;
   }
@@ -87,8 +187,7 @@ export class OrganizationStorage extends DurableObject<Env> {
   /**
    * Execute INSERT/UPDATE/DELETE
    */
-  async exec(sql: string, ...params: unknown[]): Promise<void> {
-    await this.ensureInitialized();
+  private async exec(sql: string, ...params: unknown[]): Promise<void> {
     const flatParams = params.length === 1 && Array.isArray(params[0])
       ? params[0]
       : params;
@@ -97,20 +196,49 @@ export class OrganizationStorage extends DurableObject<Env> {
 
   /**
    * HTTP request handler
+   * Requires an internal token (audience `organization-storage`) except for /health
    */
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
 
     // Health check
     if (url.pathname === '/health') {
-      await this.ensureInitialized();
       return new Response(JSON.stringify({ status: 'ok' }), {
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
+    // Everything else requires an internal token (see internalFetch)
+    let scopes: InternalScope[];
+    try {
+      const token = request.headers.get('X-Internal-Token') ?? '';
+      ({ scopes } = await verifyInternalToken(this.env, token, 'organization-storage'));
+    } catch (error) {
+      console.error('Internal token verification failed:', error);
+      return new Response(JSON.stringify({ error: 'Unauthorized: Invalid internal token' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const forbidden = (scope: InternalScope) =>
+      new Response(JSON.stringify({ error: `Forbidden: Missing scope ${scope}`, scope }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+    // Schema version
+    if (url.pathname === '/schema-version') {
+      if (!scopes.includes('internal:schema:read')) return forbidden('internal:schema:read');
+      const version = await this.getSchemaVersion();
+      return new Response(JSON.stringify(version), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // Storage stats
     if (url.pathname === '/storage-stats') {
+      if (!scopes.includes('internal:storage:read')) return forbidden('internal:storage:read');
       const stats = await this.getStorageStats();
       return new Response(JSON.stringify(stats), {
         headers: { 'Content-Type': 'application/json' },
@@ -119,6 +247,7 @@ export class OrganizationStorage extends DurableObject<Env> {
 
     // Store orgId (called from authenticated Worker API)
     if (url.pathname === '/store-org-id' && request.method === 'POST') {
+      if (!scopes.includes('internal:storage:write')) return forbidden('internal:storage:write');
       try {
         const body = await request.json() as { orgId: string };
         if (body.orgId) {
@@ -149,26 +278,81 @@ export class OrganizationStorage extends DurableObject<Env> {
   }
 
   /**
-   * Generate internal token for DO-to-DO communication
+   * Record API activity and register the organization in the OrganizationRegistry
+   * Reports at most every REGISTRY_REPORT_INTERVAL_MS, so the first access
+   * registers the organization and later ones refresh its entry.
    */
-  async generateInternalToken(orgId: string, userId: string): Promise<string> {
-    const secretKey = new TextEncoder().encode(
-      this.env.INTERNAL_SECRET || DEFAULT_INTERNAL_SECRET,
-    );
-    const token = await new SignJWT({ orgId, userId })
-      .setProtectedHeader({ alg: 'HS256' })
-      .setIssuedAt()
-      .setExpirationTime('1h')
-      .sign(secretKey);
-    return token;
+  async recordActivity(orgId: string): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastRegistryReportAt < REGISTRY_REPORT_INTERVAL_MS) {
+      return;
+    }
+    this.lastRegistryReportAt = now;
+
+    if ((await this.ctx.storage.get<string>('orgId')) !== orgId) {
+      await this.ctx.storage.put('orgId', orgId);
+    }
+
+    try {
+      await this.reportToRegistry(Math.floor(now / 1000));
+    } catch (error) {
+      // Retry on the next request
+      this.lastRegistryReportAt = 0;
+      throw error;
+    }
+  }
+
+  /**
+   * Send this organization's current entry to the OrganizationRegistry
+   * Skipped until the organization has been accessed through the API (its ID
+   * is only known from then on).
+   */
+  private async reportToRegistry(lastActiveAt: number | null): Promise<void> {
+    const orgId = await this.ctx.storage.get<string>('orgId');
+    if (!orgId) return;
+
+    const settings = await this.getSettings();
+    const subscription = await this.getSubscriptionState();
+
+    await getOrganizationRegistry(this.env).register({
+      orgId,
+      name: settings.name,
+      slug: settings.slug,
+      planType: subscription?.planType ?? 'FREE',
+      storageBytes: this.sql.databaseSize,
+      createdAt: settings.createdAt,
+      lastActiveAt,
+      deletedAt: settings.deletedAt,
+    });
+  }
+
+  /**
+   * Report a change outside of API activity (plan, deletion)
+   * The registry is a derived index: a failed report must not fail the change.
+   */
+  private async reportChangeToRegistry(): Promise<void> {
+    try {
+      await this.reportToRegistry(null);
+    } catch (error) {
+      console.error('Organization registry update failed:', error);
+    }
+  }
+
+  /**
+   * Generate internal token for calls to the internal API
+   */
+  async generateInternalToken(
+    orgId: string,
+    userId: string,
+    scopes: InternalScope[],
+  ): Promise<string> {
+    return signInternalToken(this.env, 'api', { orgId, userId, scopes });
   }
 
   /**
    * Get storage statistics
    */
   async getStorageStats(): Promise<StorageStats> {
-    await this.ensureInitialized();
-
     const storageBytesRaw = this.sql.databaseSize;
 
     return {
@@ -179,26 +363,1732 @@ export class OrganizationStorage extends DurableObject<Env> {
   }
 
   /**
-   * Set creator info (only if not already set)
+   * Get organization settings
    */
-  async setCreatorIfNotSet(userId: string, email?: string): Promise<void> {
-    await this.ensureInitialized();
-    const current = await this.queryOne<{ creator_user_id: string | null }>(
-      'SELECT creator_user_id FROM organization_settings WHERE id = 1',
+  async getSettings(): Promise<OrganizationSettings> {
+    const row = await this.queryOne<OrganizationSettingsRow>(
+      `SELECT stripe_customer_id, name, slug, creator_user_id, creator_email,
+        deleted_at, created_at, updated_at
+      FROM organization_settings WHERE id = 1`,
     );
-    if (!current?.creator_user_id) {
-      await this.exec(
-        'UPDATE organization_settings SET creator_user_id = ?, creator_email = ?, updated_at = ? WHERE id = 1',
-        userId,
-        email || null,
-        Math.floor(Date.now() / 1000),
+    if (!row) {
+      // The default record is inserted by the initial migration
+      throw new Error('organization_settings record is missing');
+    }
+
+    return {
+      stripeCustomerId: row.stripe_customer_id,
+      name: row.name,
+      slug: row.slug,
+      creatorUserId: row.creator_user_id,
+      creatorEmail: row.creator_email,
+      deletedAt: row.deleted_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * Set Stripe customer ID
+   */
+  async setStripeCustomerId(customerId: string): Promise<void> {
+    await this.exec(
+      'UPDATE organization_settings SET stripe_customer_id = ?, updated_at = ? WHERE id = 1',
+      customerId,
+      Math.floor(Date.now() / 1000),
+    );
+  }
+
+  /**
+   * Get or create the organization's Stripe customer
+   *
+   * Serialized per organization: the DO does not block other requests while
+   * awaiting Stripe, so concurrent callers share one in-flight creation. The
+   * Stripe idempotency key covers retries after an eviction mid-request.
+   */
+  async getOrCreateStripeCustomer(orgId: string, userId: string): Promise<string> {
+    const { stripeCustomerId } = await this.getSettings();
+    if (stripeCustomerId) {
+      return stripeCustomerId;
+    }
+
+    if (!this.customerCreation) {
+      this.customerCreation = this.createStripeCustomer(orgId, userId).finally(() => {
+        this.customerCreation = null;
+      });
+    }
+    return this.customerCreation;
+  }
+
+  private async createStripeCustomer(orgId: string, userId: string): Promise<string> {
+    const customerId = await createBillingProvider(this.env).getOrCreateCustomer(orgId, userId);
+
+    // Save customer ID to DO
+    await this.setStripeCustomerId(customerId);
+    return customerId;
+  }
+
+  /**
+   * Simulated subscription of the fake billing provider (DEV_MODE=local)
+   */
+  async getLocalSubscription(): Promise<LocalSubscription | null> {
+    return (await this.ctx.storage.get<LocalSubscription>(LOCAL_SUBSCRIPTION_KEY)) ?? null;
+  }
+
+  async setLocalSubscription(subscription: LocalSubscription | null): Promise<void> {
+    if (subscription) {
+      await this.ctx.storage.put(LOCAL_SUBSCRIPTION_KEY, subscription);
+    } else {
+      await this.ctx.storage.delete(LOCAL_SUBSCRIPTION_KEY);
+    }
+  }
+
+  /**
+   * Get cached subscription state (null if never synced)
+   */
+  async getSubscriptionState(): Promise<SubscriptionState | null> {
+    const row = await this.queryOne<SubscriptionStateRow>(
+      'SELECT * FROM subscription_state WHERE id = 1',
+    );
+    if (!row) return null;
+
+    return {
+      subscriptionId: row.stripe_subscription_id,
+      planType: row.plan_type as PlanType,
+      status: row.status,
+      priceId: row.price_id,
+      currentPeriodEnd: row.current_period_end,
+      cancelAtPeriodEnd: row.cancel_at_period_end === 1,
+      syncedAt: row.synced_at,
+    };
+  }
+
+  /**
+   * Save subscription state
+   * Events older than the last applied one are ignored (Stripe does not
+   * guarantee delivery order). Returns false when the update was skipped.
+   */
+  async saveSubscriptionState(
+    state: Omit<SubscriptionState, 'syncedAt'>,
+    eventCreated?: number,
+  ): Promise<boolean> {
+    const previousPlanType = (await this.getSubscriptionState())?.planType ?? 'FREE';
+
+    if (eventCreated !== undefined) {
+      const current = await this.queryOne<{ last_event_created: number | null }>(
+        'SELECT last_event_created FROM subscription_state WHERE id = 1',
       );
+      if (current?.last_event_created && current.last_event_created > eventCreated) {
+        return false;
+      }
+    }
+
+    await this.exec(
+      `INSERT INTO subscription_state (
+        id, stripe_subscription_id, plan_type, status, price_id,
+        current_period_end, cancel_at_period_end, last_event_created, synced_at
+      ) VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        stripe_subscription_id = excluded.stripe_subscription_id,
+        plan_type = excluded.plan_type,
+        status = excluded.status,
+        price_id = excluded.price_id,
+        current_period_end = excluded.current_period_end,
+        cancel_at_period_end = excluded.cancel_at_period_end,
+        last_event_created = COALESCE(excluded.last_event_created, subscription_state.last_event_created),
+        synced_at = excluded.synced_at`,
+      state.subscriptionId,
+      state.planType,
+      state.status,
+      state.priceId,
+      state.currentPeriodEnd,
+      state.cancelAtPeriodEnd ? 1 : 0,
+      eventCreated ?? null,
+      Math.floor(Date.now() / 1000),
+    );
+
+    if (state.planType !== previousPlanType) {
+      await this.appendAuditEvent({
+        actorType: 'system',
+        actorId: null,
+        action: 'subscription.plan_changed',
+        targetType: 'subscription',
+        targetId: state.subscriptionId,
+        metadata: { from: previousPlanType, to: state.planType, status: state.status },
+      });
+      await this.reportChangeToRegistry();
     }
+    return true;
   }
-}
 
-export interface StorageStats {
-  storageBytesRaw: number;
-  storageMB: number;
-  storagePercent: number;
+  /**
+   * Adjust a usage counter
+   * Must be called inside ctx.storage.transactionSync together with the data
+   * write it accounts for, so counters never drift from the data.
+   */
+  private adjustUsage(metric: CountedUsageMetric, delta: number): void {
+    this.sql.exec(
+      `INSERT INTO usage_counters (metric, value, updated_at) VALUES (?, ?, unixepoch())
+      ON CONFLICT(metric) DO UPDATE SET
+        value = MAX(0, usage_counters.value + excluded.value),
+        updated_at = excluded.updated_at`,
+      metric,
+      delta,
+    );
+  }
+
+  /**
+   * Read a usage counter (sync, for use inside transactions)
+   */
+  private readUsage(metric: CountedUsageMetric): number {
+    const row = this.sql
+      .exec<{ value: number }>('SELECT value FROM usage_counters WHERE metric = ?', metric)
+      .toArray()[0];
+    return row?.value ?? 0;
+  }
+
+  /**
+   * Get current usage for plan limits
+   * - items: counter maintained by item writes
+   * - storage: SQLite database size (MB)
+   */
+  async getUsage(): Promise<OrganizationUsage> {
+    return {
+      items: this.readUsage('items'),
+      storage: Math.round(this.sql.databaseSize / 1024 / 1024 * 100) / 100,
+    };
+  }
+
+  /**
+   * List items
+   */
+  async listItems(): Promise<Item[]> {
+    const rows = await this.query<ItemRow>(
+      'SELECT id, name, created_by, created_at FROM items ORDER BY created_at DESC',
+    );
+    return rows.map(toItem);
+  }
+
+  /**
+   * Check whether a write of `bytes` more data fits in maxStorage (MB)
+   * Sync, for use inside the transaction that performs the write.
+   */
+  private fitsStorage(bytes: number, maxStorage: number): boolean {
+    return (this.sql.databaseSize + Math.max(0, bytes)) / 1024 / 1024 <= maxStorage;
+  }
+
+  /**
+   * Create item
+   * The limits are re-checked inside the transaction; `exceeded` names the
+   * limit that rejected the write.
+   */
+  async createItem(
+    input: { name: string; createdBy: string },
+    limits: Record<LimitType, number>,
+  ): Promise<ItemWriteResult> {
+    return this.ctx.storage.transactionSync(() => {
+      if (this.readUsage('items') + 1 > limits.maxItems) {
+        return { item: null, exceeded: 'maxItems' as const };
+      }
+      const bytes = ITEM_ROW_OVERHEAD_BYTES + byteLength(input.name) + byteLength(input.createdBy);
+      if (!this.fitsStorage(bytes, limits.maxStorage)) {
+        return { item: null, exceeded: 'maxStorage' as const };
+      }
+
+      const row = this.sql
+        .exec<ItemRow>(
+          `INSERT INTO items (id, name, created_by) VALUES (?, ?, ?)
+          RETURNING id, name, created_by, created_at`,
+          crypto.randomUUID(),
+          input.name,
+          input.createdBy,
+        )
+        .one();
+      this.adjustUsage('items', 1);
+      return { item: toItem(row), exceeded: null };
+    });
+  }
+
+  /**
+   * Update item
+   * Only the growth of the row counts against maxStorage. Returns a null item
+   * (and no exceeded limit) when the item does not exist.
+   */
+  async updateItem(
+    id: string,
+    input: { name: string },
+    limits: Record<LimitType, number>,
+  ): Promise<ItemWriteResult> {
+    return this.ctx.storage.transactionSync(() => {
+      const current = this.sql
+        .exec<{ name: string }>('SELECT name FROM items WHERE id = ?', id)
+        .toArray()[0];
+      if (!current) {
+        return { item: null, exceeded: null };
+      }
+      const growth = byteLength(input.name) - byteLength(current.name);
+      if (!this.fitsStorage(growth, limits.maxStorage)) {
+        return { item: null, exceeded: 'maxStorage' as const };
+      }
+
+      const row = this.sql
+        .exec<ItemRow>(
+          `UPDATE items SET name = ? WHERE id = ?
+          RETURNING id, name, created_by, created_at`,
+          input.name,
+          id,
+        )
+        .one();
+      return { item: toItem(row), exceeded: null };
+    });
+  }
+
+  /**
+   * Delete item
+   */
+  async deleteItem(id: string): Promise<boolean> {
+    return this.ctx.storage.transactionSync(() => {
+      const cursor = this.sql.exec('DELETE FROM items WHERE id = ?', id);
+      if (cursor.rowsWritten === 0) {
+        return false;
+      }
+      this.adjustUsage('items', -1);
+      return true;
+    });
+  }
+
+  /**
+   * Create API key (the caller generates the secret and passes its hash)
+   */
+  async createApiKey(input: {
+    name: string;
+    prefix: string;
+    keyHash: string;
+    scopes: string[];
+    createdBy: string;
+    expiresAt: number | null;
+  }): Promise<ApiKey> {
+    const row = this.sql
+      .exec<ApiKeyRow>(
+        `INSERT INTO api_keys (id, name, prefix, key_hash, scopes, created_by, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        RETURNING ${API_KEY_COLUMNS}`,
+        crypto.randomUUID(),
+        input.name,
+        input.prefix,
+        input.keyHash,
+        JSON.stringify(input.scopes),
+        input.createdBy,
+        input.expiresAt,
+      )
+      .one();
+    return toApiKey(row);
+  }
+
+  /**
+   * List API keys (revoked keys included, newest first)
+   */
+  async listApiKeys(): Promise<ApiKey[]> {
+    const rows = await this.query<ApiKeyRow>(
+      `SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY created_at DESC`,
+    );
+    return rows.map(toApiKey);
+  }
+
+  /**
+   * Revoke API key
+   */
+  async revokeApiKey(id: string): Promise<boolean> {
+    const cursor = this.sql.exec(
+      'UPDATE api_keys SET revoked_at = unixepoch() WHERE id = ? AND revoked_at IS NULL',
+      id,
+    );
+    return cursor.rowsWritten > 0;
+  }
+
+  /**
+   * Verify an API key by the hash of its secret
+   * Returns null for unknown, revoked or expired keys. last_used_at is
+   * updated at most once a minute to limit writes.
+   */
+  async verifyApiKey(keyHash: string): Promise<ApiKey | null> {
+    const now = Math.floor(Date.now() / 1000);
+    const row = await this.queryOne<ApiKeyRow>(
+      `SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE key_hash = ?`,
+      keyHash,
+    );
+    if (!row || row.revoked_at !== null) return null;
+    if (row.expires_at !== null && row.expires_at <= now) return null;
+
+    if (row.last_used_at === null || now - row.last_used_at >= 60) {
+      this.sql.exec('UPDATE api_keys SET last_used_at = ? WHERE id = ?', now, row.id);
+      row.last_used_at = now;
+    }
+    return toApiKey(row);
+  }
+
+  /**
+   * List feature overrides (expired overrides excluded)
+   */
+  async listFeatureOverrides(): Promise<FeatureOverride[]> {
+    const rows = await this.query<FeatureOverrideRow>(
+      `SELECT feature, enabled, reason, expires_at, updated_by, updated_at
+      FROM feature_overrides
+      WHERE expires_at IS NULL OR expires_at > unixepoch()
+      ORDER BY feature`,
+    );
+    return rows.map(toFeatureOverride);
+  }
+
+  /**
+   * Grant (enabled) or revoke (!enabled) a feature regardless of plan
+   */
+  async setFeatureOverride(input: {
+    feature: Feature;
+    enabled: boolean;
+    reason: string | null;
+    expiresAt: number | null;
+    updatedBy: string;
+  }): Promise<FeatureOverride> {
+    const row = this.sql
+      .exec<FeatureOverrideRow>(
+        `INSERT INTO feature_overrides (feature, enabled, reason, expires_at, updated_by, updated_at)
+        VALUES (?, ?, ?, ?, ?, unixepoch())
+        ON CONFLICT(feature) DO UPDATE SET
+          enabled = excluded.enabled,
+          reason = excluded.reason,
+          expires_at = excluded.expires_at,
+          updated_by = excluded.updated_by,
+          updated_at = excluded.updated_at
+        RETURNING feature, enabled, reason, expires_at, updated_by, updated_at`,
+        input.feature,
+        input.enabled ? 1 : 0,
+        input.reason,
+        input.expiresAt,
+        input.updatedBy,
+      )
+      .one();
+    return toFeatureOverride(row);
+  }
+
+  /**
+   * Remove a feature override (the plan applies again)
+   */
+  async deleteFeatureOverride(feature: Feature): Promise<boolean> {
+    const cursor = this.sql.exec('DELETE FROM feature_overrides WHERE feature = ?', feature);
+    return cursor.rowsWritten > 0;
+  }
+
+  /**
+   * Data tables with their columns and row counts (in export order)
+   * Tables prefixed with `_` (migrations, Cloudflare internals) and
+   * RUNTIME_TABLES are excluded.
+   */
+  async getDataManifest(): Promise<DataManifest> {
+    const tables = this.listDataTables().map((name) => ({
+      name,
+      columns: this.listTableColumns(name),
+      rows: this.sql.exec<{ count: number }>(`SELECT COUNT(*) AS count FROM "${name}"`).one()
+        .count,
+    }));
+    return { schemaVersion: (await this.getSchemaVersion()).version, tables };
+  }
+
+  /**
+   * Page of rows of a data table, in rowid order
+   * Pass the returned `lastRowid` as `afterRowid` for the next page.
+   */
+  async exportTableRows(
+    table: string,
+    afterRowid: number,
+    limit: number,
+  ): Promise<DataTablePage> {
+    if (!this.listDataTables().includes(table)) {
+      throw new Error(`Unknown table: ${table}`);
+    }
+
+    const rows = this.sql
+      .exec<DataRow & { _rowid: number }>(
+        `SELECT rowid AS _rowid, * FROM "${table}" WHERE rowid > ? ORDER BY rowid LIMIT ?`,
+        afterRowid,
+        Math.min(Math.max(limit, 1), MAX_EXPORT_PAGE_SIZE),
+      )
+      .toArray();
+
+    return {
+      rows: rows.map(({ _rowid, ...row }) => row),
+      lastRowid: rows.length ? rows[rows.length - 1]._rowid : null,
+    };
+  }
+
+  /**
+   * Start importing an archive (see utils/org-archive.ts)
+   * Returns false unless the organization is fresh (only PRESEEDED_TABLES hold
+   * rows) or a previous import of the same archive did not finish, in which
+   * case the import is simply run again (rows are upserted).
+   */
+  async beginImport(source: ImportSource): Promise<boolean> {
+    const pending = await this.ctx.storage.get<ImportSource>(IMPORT_KEY);
+    if (pending) {
+      return pending.orgId === source.orgId && pending.exportedAt === source.exportedAt;
+    }
+
+    const hasData = this.listDataTables()
+      .filter((table) => !PRESEEDED_TABLES.includes(table))
+      .some((table) => this.sql.exec(`SELECT 1 FROM "${table}" LIMIT 1`).toArray().length > 0);
+    if (hasData) {
+      return false;
+    }
+
+    await this.ctx.storage.put(IMPORT_KEY, source);
+    return true;
+  }
+
+  /**
+   * Upsert rows of one table (one transaction per call)
+   * The table must be a data table and every column one of its columns, as
+   * both are interpolated into the statement. IMPORT_EXCLUDED_TABLES are
+   * refused.
+   */
+  async importRows(table: string, rows: DataRow[]): Promise<void> {
+    if (!(await this.ctx.storage.get(IMPORT_KEY))) {
+      throw new Error('No import in progress');
+    }
+    if (!this.listDataTables().includes(table)) {
+      throw new Error(`Unknown table: ${table}`);
+    }
+    if (IMPORT_EXCLUDED_TABLES.includes(table)) {
+      throw new Error(`Table is not importable: ${table}`);
+    }
+
+    const known = this.listTableColumns(table);
+    this.ctx.storage.transactionSync(() => {
+      for (const row of rows) {
+        const columns = Object.keys(row);
+        const unknown = columns.find((column) => !known.includes(column));
+        if (unknown !== undefined) {
+          throw new Error(`Unknown column: ${table}.${unknown}`);
+        }
+        this.sql.exec(
+          `INSERT OR REPLACE INTO "${table}" (${columns.map((column) => `"${column}"`).join(', ')})
+          VALUES (${columns.map(() => '?').join(', ')})`,
+          ...columns.map((column) => row[column]),
+        );
+      }
+    });
+  }
+
+  /**
+   * Finish an import started with beginImport
+   */
+  async finishImport(): Promise<void> {
+    await this.ctx.storage.delete(IMPORT_KEY);
+    await this.reportChangeToRegistry();
+  }
+
+  /**
+   * Column names of a table (the caller checks the table name)
+   */
+  private listTableColumns(table: string): string[] {
+    return this.sql
+      .exec<{ name: string }>(`PRAGMA table_info("${table}")`)
+      .toArray()
+      .map((column) => column.name);
+  }
+
+  /**
+   * Names of the data tables (see getDataManifest)
+   */
+  private listDataTables(): string[] {
+    return this.sql
+      .exec<{ name: string }>(
+        `SELECT name FROM sqlite_master
+        WHERE type = 'table'
+          AND name NOT LIKE '\\_%' ESCAPE '\\'
+          AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\'
+        ORDER BY name`,
+      )
+      .toArray()
+      .map((row) => row.name)
+      .filter((name) => !RUNTIME_TABLES.includes(name));
+  }
+
+  /**
+   * Append an audit event
+   * Worker code should use recordAuditEvent (utils/audit.ts), which fills in
+   * the actor, IP and user agent from the request.
+   */
+  async appendAuditEvent(input: AuditEventInput): Promise<AuditEvent> {
+    const row = this.sql
+      .exec<AuditEventRow>(
+        `INSERT INTO audit_events (
+          actor_type, actor_id, action, target_type, target_id, ip, user_agent, metadata
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING ${AUDIT_EVENT_COLUMNS}`,
+        input.actorType,
+        input.actorId,
+        input.action,
+        input.targetType ?? null,
+        input.targetId ?? null,
+        input.ip ?? null,
+        input.userAgent ?? null,
+        input.metadata ? JSON.stringify(input.metadata) : null,
+      )
+      .one();
+    return toAuditEvent(row);
+  }
+
+  /**
+   * List audit events, newest first
+   * Pass the last event's ID as `before` for the next page.
+   */
+  async listAuditEvents(query: AuditEventQuery = {}): Promise<AuditEventPage> {
+    const limit = Math.min(Math.max(query.limit ?? 50, 1), MAX_AUDIT_PAGE_SIZE);
+    const conditions: string[] = [];
+    const params: SqlStorageValue[] = [];
+
+    if (query.before !== undefined) {
+      conditions.push('id < ?');
+      params.push(query.before);
+    }
+    if (query.action) {
+      conditions.push('action = ?');
+      params.push(query.action);
+    }
+    if (query.actorId) {
+      conditions.push('actor_id = ?');
+      params.push(query.actorId);
+    }
+    if (query.targetType) {
+      conditions.push('target_type = ?');
+      params.push(query.targetType);
+    }
+    if (query.targetId) {
+      conditions.push('target_id = ?');
+      params.push(query.targetId);
+    }
+    if (query.since !== undefined) {
+      conditions.push('created_at >= ?');
+      params.push(query.since);
+    }
+    if (query.until !== undefined) {
+      conditions.push('created_at < ?');
+      params.push(query.until);
+    }
+
+    const rows = await this.query<AuditEventRow>(
+      `SELECT ${AUDIT_EVENT_COLUMNS} FROM audit_events
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY id DESC
+      LIMIT ?`,
+      ...params,
+      // One extra row tells whether there is a next page
+      limit + 1,
+    );
+
+    const events = rows.slice(0, limit).map(toAuditEvent);
+    return {
+      events,
+      nextBefore: rows.length > limit ? events[events.length - 1].id : null,
+    };
+  }
+
+  /**
+   * Set creator info (only if not already set)
+   */
+  async setCreatorIfNotSet(userId: string, email?: string): Promise<void> {
+    const current = await this.queryOne<{ creator_user_id: string | null }>(
+      'SELECT creator_user_id FROM organization_settings WHERE id = 1',
+    );
+    if (!current?.creator_user_id) {
+      await this.exec(
+        'UPDATE organization_settings SET creator_user_id = ?, creator_email = ?, updated_at = ? WHERE id = 1',
+        userId,
+        email || null,
+        Math.floor(Date.now() / 1000),
+      );
+    } else if (current.creator_user_id === userId && email) {
+      // Creator known but email arrived later (e.g. from a membership event)
+      await this.exec(
+        'UPDATE organization_settings SET creator_email = ?, updated_at = ? WHERE id = 1 AND creator_email IS NULL',
+        email,
+        Math.floor(Date.now() / 1000),
+      );
+    }
+  }
+
+  // ============================================
+  // Jobs
+  // Queued per organization and run by the alarm, which is always set to the
+  // earliest pending job. Failed runs are retried with backoff; finished jobs
+  // stay in `jobs` as history for JOB_HISTORY_RETENTION_SECONDS.
+  // ============================================
+
+  /**
+   * Queue a job
+   * With a `key`, a pending job with the same key is returned instead
+   * (`created: false`), so a job can be requested repeatedly without piling up.
+   */
+  async enqueueJob(input: JobInput): Promise<JobEnqueueResult> {
+    if (input.key) {
+      const pending = this.sql
+        .exec<JobRow>(
+          `SELECT ${JOB_COLUMNS} FROM jobs WHERE dedupe_key = ? AND status = 'pending'`,
+          input.key,
+        )
+        .toArray()[0];
+      if (pending) {
+        return { job: toJob(pending), created: false };
+      }
+    }
+
+    const row = this.sql
+      .exec<JobRow>(
+        `INSERT INTO jobs (type, payload, dedupe_key, run_at, max_attempts)
+        VALUES (?, ?, ?, ?, ?)
+        RETURNING ${JOB_COLUMNS}`,
+        input.type,
+        input.payload ? JSON.stringify(input.payload) : null,
+        input.key ?? null,
+        input.runAt ?? Math.floor(Date.now() / 1000),
+        input.maxAttempts ?? DEFAULT_JOB_MAX_ATTEMPTS,
+      )
+      .one();
+
+    await this.scheduleNextAlarm();
+    return { job: toJob(row), created: true };
+  }
+
+  /**
+   * Cancel the pending job with a key
+   * Returns false when there was none (a running job is not interrupted).
+   */
+  async cancelJob(key: string): Promise<boolean> {
+    const cursor = this.sql.exec(
+      `UPDATE jobs SET status = 'canceled', finished_at = unixepoch()
+      WHERE dedupe_key = ? AND status = 'pending'`,
+      key,
+    );
+    await this.scheduleNextAlarm();
+    return cursor.rowsWritten > 0;
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  async listJobs(query: JobQuery = {}): Promise<Job[]> {
+    const limit = Math.min(Math.max(query.limit ?? MAX_JOB_PAGE_SIZE, 1), MAX_JOB_PAGE_SIZE);
+    const conditions: string[] = [];
+    const params: SqlStorageValue[] = [];
+    if (query.status) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+    if (query.type) {
+      conditions.push('type = ?');
+      params.push(query.type);
+    }
+
+    return this.sql
+      .exec<JobRow>(
+        `SELECT ${JOB_COLUMNS} FROM jobs
+        ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY id DESC LIMIT ?`,
+        ...params,
+        limit,
+      )
+      .toArray()
+      .map(toJob);
+  }
+
+  /**
+   * Alarm handler: run every due job, then set the alarm for the next one
+   * Jobs handle their own retries, so the alarm itself does not fail.
+   */
+  async alarm(): Promise<void> {
+    // Jobs only run here and alarms do not overlap: a running job was interrupted
+    this.sql.exec(
+      `UPDATE jobs SET
+        status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+        last_error = 'Interrupted',
+        finished_at = CASE WHEN attempts >= max_attempts THEN unixepoch() END
+      WHERE status = 'running'`,
+    );
+
+    const deadline = Date.now() + MAX_ALARM_RUN_MS;
+    while (Date.now() < deadline) {
+      const row = this.sql
+        .exec<JobRow>(
+          `SELECT ${JOB_COLUMNS} FROM jobs
+          WHERE status = 'pending' AND run_at <= ?
+          ORDER BY run_at, id LIMIT 1`,
+          Math.floor(Date.now() / 1000),
+        )
+        .toArray()[0];
+      if (!row) break;
+      await this.runJob(toJob(row));
+    }
+
+    this.sql.exec(
+      `DELETE FROM jobs WHERE status IN ('succeeded', 'failed', 'canceled') AND finished_at < ?`,
+      Math.floor(Date.now() / 1000) - JOB_HISTORY_RETENTION_SECONDS,
+    );
+    await this.scheduleNextAlarm();
+  }
+
+  /**
+   * Run one job and record the outcome (retry with backoff, or fail after
+   * max_attempts)
+   */
+  private async runJob(job: Job): Promise<void> {
+    const attempt = job.attempts + 1;
+    this.sql.exec(
+      `UPDATE jobs SET status = 'running', attempts = ?, started_at = unixepoch() WHERE id = ?`,
+      attempt,
+      job.id,
+    );
+
+    try {
+      await this.runJobHandler(job);
+      this.sql.exec(
+        `UPDATE jobs SET status = 'succeeded', last_error = NULL, finished_at = unixepoch()
+        WHERE id = ?`,
+        job.id,
+      );
+    } catch (error) {
+      console.error(`Job ${job.id} (${job.type}) attempt ${attempt} failed:`, error);
+      if (attempt >= job.maxAttempts) {
+        this.sql.exec(
+          `UPDATE jobs SET status = 'failed', last_error = ?, finished_at = unixepoch()
+          WHERE id = ?`,
+          toJobError(error),
+          job.id,
+        );
+      } else {
+        this.sql.exec(
+          `UPDATE jobs SET status = 'pending', last_error = ?, run_at = ? WHERE id = ?`,
+          toJobError(error),
+          Math.floor(Date.now() / 1000) + getRetryDelaySeconds(attempt),
+          job.id,
+        );
+      }
+    }
+  }
+
+  /**
+   * Job handlers by type (see JOB_TYPES)
+   */
+  private async runJobHandler(job: Job): Promise<void> {
+    switch (job.type) {
+      case 'purge_data':
+        return this.purgeData();
+      case 'sync_subscription':
+        return this.syncSubscription();
+      case 'send_email':
+        return this.sendEmail(job);
+    }
+  }
+
+  /**
+   * Point the alarm at the earliest pending job (or clear it)
+   */
+  private async scheduleNextAlarm(): Promise<void> {
+    const next = this.sql
+      .exec<{ run_at: number | null }>(
+        `SELECT MIN(run_at) AS run_at FROM jobs WHERE status = 'pending'`,
+      )
+      .one().run_at;
+
+    if (next === null) {
+      await this.ctx.storage.deleteAlarm();
+    } else if ((await this.ctx.storage.getAlarm()) !== next * 1000) {
+      await this.ctx.storage.setAlarm(next * 1000);
+    }
+  }
+
+  /**
+   * Job: reconcile a stale subscription cache with the billing provider
+   * Catches missed webhooks of organizations that are not otherwise active.
+   */
+  private async syncSubscription(): Promise<void> {
+    const { stripeCustomerId } = await this.getSettings();
+    if (!stripeCustomerId || !isSubscriptionStateStale(await this.getSubscriptionState())) {
+      return;
+    }
+    const state = await createBillingProvider(this.env).getEntitlements(stripeCustomerId);
+    await this.saveSubscriptionState(state);
+  }
+
+  // ============================================
+  // Email outbox
+  // Emails are queued here and sent by send_email jobs, so a provider outage
+  // delays them instead of failing the caller (usually a webhook).
+  // ============================================
+
+  /**
+   * Queue an email to each recipient
+   * Recipients that already have an email with the same key are skipped (the
+   * key is kept for EMAIL_OUTBOX_RETENTION_SECONDS), so webhook retries and
+   * repeated events do not send twice. Without a key, nothing is skipped.
+   */
+  async queueEmail(input: EmailInput): Promise<EmailQueueResult> {
+    const now = Math.floor(Date.now() / 1000);
+    const key = input.key ?? crypto.randomUUID();
+    const result: EmailQueueResult = { queued: [], skipped: [] };
+
+    this.sql.exec(
+      `DELETE FROM email_outbox WHERE status != 'pending' AND created_at < ?`,
+      now - EMAIL_OUTBOX_RETENTION_SECONDS,
+    );
+
+    const recipients = new Set(input.recipients.map((email) => email.trim().toLowerCase()));
+    for (const recipient of recipients) {
+      const row = this.sql
+        .exec<EmailRow>(
+          `INSERT INTO email_outbox (template, locale, recipient, data, dedupe_key)
+          VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT (dedupe_key, recipient) DO NOTHING
+          RETURNING ${EMAIL_COLUMNS}`,
+          input.template,
+          input.locale,
+          recipient,
+          JSON.stringify(input.data),
+          key,
+        )
+        .toArray()[0];
+      if (!row) {
+        result.skipped.push(recipient);
+        continue;
+      }
+
+      await this.enqueueJob({
+        type: 'send_email',
+        payload: { emailId: row.id },
+        maxAttempts: EMAIL_MAX_ATTEMPTS,
+      });
+      result.queued.push(toOutboxEmail(row));
+    }
+    return result;
+  }
+
+  /**
+   * List outbox emails, newest first
+   */
+  async listEmails(query: { status?: EmailStatus; limit?: number } = {}): Promise<OutboxEmail[]> {
+    const limit = Math.min(Math.max(query.limit ?? MAX_EMAIL_PAGE_SIZE, 1), MAX_EMAIL_PAGE_SIZE);
+    return this.sql
+      .exec<EmailRow>(
+        `SELECT ${EMAIL_COLUMNS} FROM email_outbox
+        ${query.status ? 'WHERE status = ?' : ''}
+        ORDER BY id DESC LIMIT ?`,
+        ...(query.status ? [query.status] : []),
+        limit,
+      )
+      .toArray()
+      .map(toOutboxEmail);
+  }
+
+  /**
+   * Job: send an outbox email
+   * Every attempt uses the same idempotency key. The entry is marked failed
+   * with the job's last attempt, whether rendering or sending failed.
+   */
+  private async sendEmail(job: Job): Promise<void> {
+    const row = this.sql
+      .exec<EmailRow & { data: string }>(
+        `SELECT ${EMAIL_COLUMNS}, data FROM email_outbox WHERE id = ?`,
+        job.payload?.emailId ?? null,
+      )
+      .toArray()[0];
+    if (!row || row.status !== 'pending') return;
+
+    try {
+      const email = renderEmail(
+        { template: row.template, data: JSON.parse(row.data) } as EmailContentInput,
+        row.locale as EmailLocale,
+        { appUrl: this.env.APP_URL },
+      );
+      const { messageId } = await createEmailTransport(this.env).send(
+        { to: row.recipient, ...email },
+        { idempotencyKey: `${this.ctx.id.toString()}:email:${row.id}` },
+      );
+      this.sql.exec(
+        `UPDATE email_outbox SET
+          status = 'sent', attempts = attempts + 1, last_error = NULL, message_id = ?,
+          sent_at = unixepoch()
+        WHERE id = ?`,
+        messageId,
+        row.id,
+      );
+    } catch (error) {
+      this.sql.exec(
+        `UPDATE email_outbox SET status = ?, attempts = attempts + 1, last_error = ? WHERE id = ?`,
+        job.attempts + 1 >= job.maxAttempts ? 'failed' : 'pending',
+        toJobError(error),
+        row.id,
+      );
+      throw error;
+    }
+  }
+
+  // ============================================
+  // Offboarding
+  // A deletion waits out the grace period (OFFBOARDING_GRACE_DAYS) as a
+  // purge_data job and can be canceled until then.
+  // ============================================
+
+  /**
+   * Schedule the purge of this organization's data
+   * Subscriptions are canceled at the end of their period right away; the
+   * deletion records which ones, so canceling it resumes only those. An
+   * existing schedule is kept and returned with `created: false`, so Clerk
+   * retries and repeated requests do not push the purge back.
+   */
+  async scheduleDeletion(input: {
+    orgId: string;
+    reason: DeletionReason;
+    requestedBy: string | null;
+  }): Promise<DeletionScheduleResult> {
+    const existing = await this.ctx.storage.get<ScheduledDeletion>(DELETION_KEY);
+    if (existing) {
+      return { deletion: existing, created: false };
+    }
+
+    const { stripeCustomerId } = await this.getSettings();
+    const canceledSubscriptionIds = stripeCustomerId
+      ? await createBillingProvider(this.env).cancelSubscriptions(stripeCustomerId)
+      : [];
+
+    const now = Math.floor(Date.now() / 1000);
+    const deletion: ScheduledDeletion = {
+      ...input,
+      requestedAt: now,
+      purgeAt: now + getOffboardingGracePeriod(this.env),
+      canceledSubscriptionIds,
+    };
+    await this.ctx.storage.put(DELETION_KEY, deletion);
+    await this.enqueueJob({
+      type: 'purge_data',
+      runAt: deletion.purgeAt,
+      key: DELETION_JOB_KEY,
+      maxAttempts: PURGE_MAX_ATTEMPTS,
+    });
+    return { deletion, created: true };
+  }
+
+  /**
+   * Cancel a scheduled deletion and resume the subscriptions it canceled
+   * (not those the customer had canceled before). Returns false when no
+   * deletion was scheduled.
+   */
+  async cancelDeletion(): Promise<boolean> {
+    const deletion = await this.ctx.storage.get<ScheduledDeletion>(DELETION_KEY);
+    if (!deletion) {
+      return false;
+    }
+
+    // Resume first: if the provider fails, the schedule stays and can be canceled again
+    const { stripeCustomerId } = await this.getSettings();
+    if (stripeCustomerId && deletion.canceledSubscriptionIds.length) {
+      await createBillingProvider(this.env).resumeSubscriptions(
+        stripeCustomerId,
+        deletion.canceledSubscriptionIds,
+      );
+    }
+
+    await this.cancelJob(DELETION_JOB_KEY);
+    await this.ctx.storage.delete(DELETION_KEY);
+    return true;
+  }
+
+  /**
+   * Whether there is anything to purge: a billing customer, a Clerk profile
+   * or rows in a data table (the settings row and processed webhook events
+   * exist in every organization and do not count)
+   */
+  async hasStoredData(): Promise<boolean> {
+    const settings = await this.getSettings();
+    if (settings.stripeCustomerId || settings.name || settings.slug || settings.creatorUserId) {
+      return true;
+    }
+
+    return this.listDataTables()
+      .filter((table) => table !== 'organization_settings' && table !== 'processed_webhook_events')
+      .some((table) => this.sql.exec(`SELECT 1 FROM "${table}" LIMIT 1`).toArray().length > 0);
+  }
+
+  /**
+   * Scheduled deletion and the last purge, if any
+   */
+  async getDeletionStatus(): Promise<DeletionStatus> {
+    const tombstone = await this.ctx.storage.get<DeletionTombstone>(TOMBSTONE_KEY);
+    return {
+      deletion: (await this.ctx.storage.get<ScheduledDeletion>(DELETION_KEY)) ?? null,
+      purgedAt: tombstone?.purgedAt ?? null,
+    };
+  }
+
+  /**
+   * Job: delete the billing customer and every stored row and key
+   * The object stays addressable (an organization deleted from the app still
+   * exists in Clerk), so it restarts from an empty schema holding only the
+   * tombstone. The job history goes with the rest of the data.
+   */
+  private async purgeData(): Promise<void> {
+    const deletion = await this.ctx.storage.get<ScheduledDeletion>(DELETION_KEY);
+    if (!deletion) return;
+
+    const { stripeCustomerId } = await this.getSettings();
+    if (stripeCustomerId) {
+      await createBillingProvider(this.env).deleteCustomer(stripeCustomerId);
+    }
+
+    const tombstone: DeletionTombstone = { ...deletion, purgedAt: Math.floor(Date.now() / 1000) };
+    await this.ctx.storage.deleteAll();
+    this.migrate();
+    await this.ctx.storage.put(TOMBSTONE_KEY, tombstone);
+    console.log(`Organization ${deletion.orgId} purged (${deletion.reason})`);
+
+    try {
+      await getOrganizationRegistry(this.env).markPurged(deletion.orgId, tombstone.purgedAt);
+    } catch (error) {
+      console.error('Organization registry update failed:', error);
+    }
+  }
+
+  // ============================================
+  // Clerk sync (called from the Clerk webhook)
+  // Each method applies an event at most once, keyed by its webhook event ID.
+  // Returns false when the event was already processed.
+  // ============================================
+
+  /**
+   * Record a webhook event and apply it in one transaction, unless it was
+   * already processed (within WEBHOOK_EVENT_RETENTION_SECONDS)
+   */
+  private applyWebhookEventOnce(event: WebhookEventRef, apply: () => void): boolean {
+    return this.ctx.storage.transactionSync(() => {
+      this.sql.exec(
+        'DELETE FROM processed_webhook_events WHERE processed_at < ?',
+        Math.floor(Date.now() / 1000) - WEBHOOK_EVENT_RETENTION_SECONDS,
+      );
+
+      const processed = this.sql
+        .exec('SELECT 1 FROM processed_webhook_events WHERE event_id = ?', event.id)
+        .toArray();
+      if (processed.length > 0) {
+        return false;
+      }
+
+      apply();
+      this.sql.exec(
+        'INSERT INTO processed_webhook_events (event_id, source, type) VALUES (?, ?, ?)',
+        event.id,
+        event.source,
+        event.type,
+      );
+      return true;
+    });
+  }
+
+  /**
+   * Sync organization name/slug
+   * Out-of-order deliveries older than the stored Clerk updated_at are ignored.
+   */
+  async syncOrganizationProfile(
+    event: WebhookEventRef,
+    profile: { name: string; slug: string | null; clerkUpdatedAt: number },
+  ): Promise<boolean> {
+    return this.applyWebhookEventOnce(event, () => {
+      this.sql.exec(
+        `UPDATE organization_settings
+        SET name = ?, slug = ?, clerk_updated_at = ?, updated_at = unixepoch()
+        WHERE id = 1 AND (clerk_updated_at IS NULL OR clerk_updated_at <= ?)`,
+        profile.name,
+        profile.slug,
+        profile.clerkUpdatedAt,
+        profile.clerkUpdatedAt,
+      );
+    });
+  }
+
+  /**
+   * Mark organization as deleted in Clerk and drop its members
+   */
+  async markOrganizationDeleted(event: WebhookEventRef): Promise<boolean> {
+    const applied = this.applyWebhookEventOnce(event, () => {
+      this.sql.exec(
+        'UPDATE organization_settings SET deleted_at = unixepoch(), updated_at = unixepoch() WHERE id = 1',
+      );
+      this.sql.exec('DELETE FROM members');
+    });
+
+    if (applied) {
+      await this.reportChangeToRegistry();
+    }
+    return applied;
+  }
+
+  /**
+   * Insert or update a member (membership created/updated)
+   */
+  async upsertMember(event: WebhookEventRef, member: MemberInput): Promise<boolean> {
+    return this.applyWebhookEventOnce(event, () => {
+      this.sql.exec(
+        `INSERT INTO members (
+          user_id, role, email, first_name, last_name, image_url, clerk_updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(user_id) DO UPDATE SET
+          role = excluded.role,
+          email = excluded.email,
+          first_name = excluded.first_name,
+          last_name = excluded.last_name,
+          image_url = excluded.image_url,
+          clerk_updated_at = excluded.clerk_updated_at,
+          updated_at = unixepoch()
+        WHERE members.clerk_updated_at <= excluded.clerk_updated_at`,
+        member.userId,
+        member.role,
+        member.email,
+        member.firstName,
+        member.lastName,
+        member.imageUrl,
+        member.clerkUpdatedAt,
+      );
+      this.sql.exec(
+        `UPDATE organization_settings SET creator_email = ?, updated_at = unixepoch()
+        WHERE id = 1 AND creator_user_id = ? AND creator_email IS NULL`,
+        member.email,
+        member.userId,
+      );
+    });
+  }
+
+  /**
+   * Remove a member (membership deleted)
+   */
+  async removeMember(event: WebhookEventRef, userId: string): Promise<boolean> {
+    return this.applyWebhookEventOnce(event, () => {
+      this.sql.exec('DELETE FROM members WHERE user_id = ?', userId);
+    });
+  }
+
+  /**
+   * Update a user's profile fields (user updated)
+   * Also refreshes the creator email when the user is the creator.
+   */
+  async updateMemberProfile(
+    event: WebhookEventRef,
+    profile: Omit<MemberInput, 'role'>,
+  ): Promise<boolean> {
+    return this.applyWebhookEventOnce(event, () => {
+      this.sql.exec(
+        `UPDATE members SET
+          email = ?, first_name = ?, last_name = ?, image_url = ?,
+          clerk_updated_at = ?, updated_at = unixepoch()
+        WHERE user_id = ? AND clerk_updated_at <= ?`,
+        profile.email,
+        profile.firstName,
+        profile.lastName,
+        profile.imageUrl,
+        profile.clerkUpdatedAt,
+        profile.userId,
+        profile.clerkUpdatedAt,
+      );
+      if (profile.email) {
+        this.sql.exec(
+          `UPDATE organization_settings SET creator_email = ?, updated_at = unixepoch()
+          WHERE id = 1 AND creator_user_id = ?`,
+          profile.email,
+          profile.userId,
+        );
+      }
+    });
+  }
+
+  /**
+   * List members
+   */
+  async listMembers(): Promise<Member[]> {
+    const rows = await this.query<MemberRow>(
+      `SELECT user_id, role, email, first_name, last_name, image_url
+      FROM members ORDER BY created_at`,
+    );
+    return rows.map((row) => ({
+      userId: row.user_id,
+      role: row.role,
+      email: row.email,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      imageUrl: row.image_url,
+    }));
+  }
+}
+
+export interface WebhookEventRef {
+  id: string;
+  source: 'clerk' | 'stripe';
+  type: string;
+}
+
+export interface Member {
+  userId: string;
+  role: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  imageUrl: string | null;
+}
+
+export interface MemberInput extends Member {
+  clerkUpdatedAt: number; // ms
+}
+
+interface MemberRow {
+  user_id: string;
+  role: string;
+  email: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  image_url: string | null;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  createdBy: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+  expiresAt: number | null;
+  revokedAt: number | null;
+}
+
+const API_KEY_COLUMNS =
+  'id, name, prefix, scopes, created_by, created_at, last_used_at, expires_at, revoked_at';
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string;
+  created_by: string;
+  created_at: number;
+  last_used_at: number | null;
+  expires_at: number | null;
+  revoked_at: number | null;
+  [key: string]: SqlStorageValue;
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: JSON.parse(row.scopes) as string[],
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+export interface FeatureOverride {
+  feature: Feature;
+  enabled: boolean;
+  reason: string | null;
+  expiresAt: number | null;
+  updatedBy: string | null;
+  updatedAt: number;
+}
+
+interface FeatureOverrideRow {
+  feature: string;
+  enabled: number;
+  reason: string | null;
+  expires_at: number | null;
+  updated_by: string | null;
+  updated_at: number;
+  [key: string]: SqlStorageValue;
+}
+
+function toFeatureOverride(row: FeatureOverrideRow): FeatureOverride {
+  return {
+    feature: row.feature as Feature,
+    enabled: row.enabled === 1,
+    reason: row.reason,
+    expiresAt: row.expires_at,
+    updatedBy: row.updated_by,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Row of a data table (no table stores BLOBs, so rows are plain JSON)
+ */
+export type DataRow = Record<string, string | number | null>;
+
+export interface DataManifest {
+  // Last applied migration
+  schemaVersion: string | null;
+  tables: { name: string; columns: string[]; rows: number }[];
+}
+
+export interface DataTablePage {
+  rows: DataRow[];
+  // `afterRowid` of the next page, null when the table has no more rows
+  lastRowid: number | null;
+}
+
+export interface ImportSource {
+  orgId: string;
+  exportedAt: string;
+}
+
+/**
+ * Audit event details (JSON, kept flat so exports stay readable)
+ */
+export type AuditMetadata = Record<string, string | number | boolean | null | string[]>;
+
+export interface AuditEventInput {
+  actorType: AuditActorType;
+  actorId: string | null;
+  action: AuditAction;
+  targetType?: string | null;
+  targetId?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  metadata?: AuditMetadata | null;
+}
+
+export interface AuditEvent {
+  id: number;
+  actorType: AuditActorType;
+  actorId: string | null;
+  action: AuditAction;
+  targetType: string | null;
+  targetId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  metadata: AuditMetadata | null;
+  createdAt: number;
+}
+
+export interface AuditEventQuery {
+  // Only events with a smaller ID (pagination)
+  before?: number;
+  limit?: number;
+  action?: AuditAction;
+  actorId?: string;
+  targetType?: string;
+  targetId?: string;
+  // created_at range in seconds: since <= created_at < until
+  since?: number;
+  until?: number;
+}
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  // `before` of the next page, null on the last page
+  nextBefore: number | null;
+}
+
+const AUDIT_EVENT_COLUMNS =
+  'id, actor_type, actor_id, action, target_type, target_id, ip, user_agent, metadata, created_at';
+
+interface AuditEventRow {
+  id: number;
+  actor_type: string;
+  actor_id: string | null;
+  action: string;
+  target_type: string | null;
+  target_id: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  metadata: string | null;
+  created_at: number;
+  [key: string]: SqlStorageValue;
+}
+
+function toAuditEvent(row: AuditEventRow): AuditEvent {
+  return {
+    id: row.id,
+    actorType: row.actor_type as AuditActorType,
+    actorId: row.actor_id,
+    action: row.action as AuditAction,
+    targetType: row.target_type,
+    targetId: row.target_id,
+    ip: row.ip,
+    userAgent: row.user_agent,
+    metadata: row.metadata ? (JSON.parse(row.metadata) as AuditMetadata) : null,
+    createdAt: row.created_at,
+  };
+}
+
+export type JobPayload = Record<string, string | number | boolean | null>;
+
+export interface JobInput {
+  type: JobType;
+  payload?: JobPayload | null;
+  // Unix seconds (default: now)
+  runAt?: number;
+  maxAttempts?: number;
+  // Deduplicates pending jobs (see enqueueJob)
+  key?: string;
+}
+
+export interface Job {
+  id: number;
+  type: JobType;
+  payload: JobPayload | null;
+  key: string | null;
+  status: JobStatus;
+  runAt: number;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+export interface JobEnqueueResult {
+  job: Job;
+  // false when a pending job with the same key already existed
+  created: boolean;
+}
+
+export interface JobQuery {
+  status?: JobStatus;
+  type?: JobType;
+  limit?: number;
+}
+
+const JOB_COLUMNS = `id, type, payload, dedupe_key, status, run_at, attempts, max_attempts,
+  last_error, created_at, started_at, finished_at`;
+
+interface JobRow {
+  id: number;
+  type: string;
+  payload: string | null;
+  dedupe_key: string | null;
+  status: string;
+  run_at: number;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  created_at: number;
+  started_at: number | null;
+  finished_at: number | null;
+  [key: string]: SqlStorageValue;
+}
+
+function toJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    type: row.type as JobType,
+    payload: row.payload ? (JSON.parse(row.payload) as JobPayload) : null,
+    key: row.dedupe_key,
+    status: row.status as JobStatus,
+    runAt: row.run_at,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+export type EmailInput = EmailContentInput & {
+  locale: EmailLocale;
+  // Email addresses (duplicates are sent once)
+  recipients: string[];
+  // Deduplicates per recipient (see queueEmail)
+  key?: string;
+};
+
+export interface OutboxEmail {
+  id: number;
+  template: EmailTemplate;
+  locale: EmailLocale;
+  recipient: string;
+  key: string;
+  status: EmailStatus;
+  attempts: number;
+  lastError: string | null;
+  // Provider message ID
+  messageId: string | null;
+  createdAt: number;
+  sentAt: number | null;
+}
+
+export interface EmailQueueResult {
+  queued: OutboxEmail[];
+  // Recipients that already had an email with the key
+  skipped: string[];
+}
+
+const EMAIL_COLUMNS = `id, template, locale, recipient, dedupe_key, status, attempts, last_error,
+  message_id, created_at, sent_at`;
+
+interface EmailRow {
+  id: number;
+  template: string;
+  locale: string;
+  recipient: string;
+  dedupe_key: string;
+  status: string;
+  attempts: number;
+  last_error: string | null;
+  message_id: string | null;
+  created_at: number;
+  sent_at: number | null;
+  [key: string]: SqlStorageValue;
+}
+
+function toOutboxEmail(row: EmailRow): OutboxEmail {
+  return {
+    id: row.id,
+    template: row.template as EmailTemplate,
+    locale: row.locale as EmailLocale,
+    recipient: row.recipient,
+    key: row.dedupe_key,
+    status: row.status as EmailStatus,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    messageId: row.message_id,
+    createdAt: row.created_at,
+    sentAt: row.sent_at,
+  };
+}
+
+export interface ScheduledDeletion {
+  orgId: string;
+  reason: DeletionReason;
+  // User who requested it (null for Clerk webhooks)
+  requestedBy: string | null;
+  requestedAt: number;
+  purgeAt: number;
+  // Subscriptions the deletion set to cancel at period end (see cancelDeletion)
+  canceledSubscriptionIds: string[];
+}
+
+export interface DeletionScheduleResult {
+  deletion: ScheduledDeletion;
+  // false when a deletion was already scheduled
+  created: boolean;
+}
+
+export interface DeletionTombstone extends ScheduledDeletion {
+  purgedAt: number;
+}
+
+export interface DeletionStatus {
+  deletion: ScheduledDeletion | null;
+  // Last purge of this organization's data
+  purgedAt: number | null;
+}
+
+export interface SchemaVersion {
+  version: string | null;
+  appliedAt: number | null;
+  applied: number;
+  pending: string[];
+}
+
+export interface StorageStats {
+  storageBytesRaw: number;
+  storageMB: number;
+  storagePercent: number;
+}
+
+export interface OrganizationSettings {
+  stripeCustomerId: string | null;
+  name: string | null;
+  slug: string | null;
+  creatorUserId: string | null;
+  creatorEmail: string | null;
+  deletedAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface OrganizationSettingsRow {
+  stripe_customer_id: string | null;
+  name: string | null;
+  slug: string | null;
+  creator_user_id: string | null;
+  creator_email: string | null;
+  deleted_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface SubscriptionState {
+  subscriptionId: string | null;
+  planType: PlanType;
+  status: string | null;
+  priceId: string | null;
+  currentPeriodEnd: number | null;
+  cancelAtPeriodEnd: boolean;
+  syncedAt: number;
+}
+
+interface SubscriptionStateRow {
+  stripe_subscription_id: string | null;
+  plan_type: string;
+  status: string | null;
+  price_id: string | null;
+  current_period_end: number | null;
+  cancel_at_period_end: number;
+  synced_at: number;
+}
+
+/**
+ * Usage per metric (storage is measured, the rest are counters)
+ */
+export type OrganizationUsage = Record<UsageMetric, number>;
+
+type CountedUsageMetric = Exclude<UsageMetric, 'storage'>;
+
+export interface Item {
+  id: string;
+  name: string;
+  createdBy: string | null;
+  createdAt: number;
+}
+
+interface ItemRow {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: number;
+  [key: string]: SqlStorageValue;
+}
+
+/**
+ * Outcome of an item write checked against the plan limits
+ */
+export interface ItemWriteResult {
+  item: Item | null;
+  exceeded: LimitType | null;
+}
+
+// Estimated per-row cost of an item beyond its text (id, timestamps, index entries)
+const ITEM_ROW_OVERHEAD_BYTES = 128;
+
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).byteLength;
+}
+
+function toItem(row: ItemRow): Item {
+  return {
+    id: row.id,
+    name: row.name,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
 }
@@ -0,0 +1,64 @@
+/**
+ * Rate Limiter Durable Object
+ *
+ * One instance per organization holds token buckets for the organization's
+ * session traffic and for each of its API keys. Buckets live in memory: an
+ * evicted instance starts with full buckets, which only errs on the side of
+ * letting requests through.
+ *
+ * Usage:
+ *   const doId = c.env.RATE_LIMITER.idFromName(orgId);
+ *   const stub = c.env.RATE_LIMITER.get(doId);
+ *   const result = await stub.consume('default:session', RATE_LIMITS.FREE.default);
+ */
+import { DurableObject } from 'cloudflare:workers';
+import type { Env } from '../types/env';
+import type { RateLimitPolicy } from '../constants/plans';
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number; // ms
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the bucket is full again
+  resetSeconds: number;
+  // Seconds until the next request is allowed (0 when allowed)
+  retryAfterSeconds: number;
+}
+
+export class RateLimiter extends DurableObject<Env> {
+  private buckets = new Map<string, TokenBucket>();
+
+  /**
+   * Take one token from a bucket
+   * The policy is passed by the caller so plan changes apply immediately.
+   */
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now();
+    const capacity = policy.requests;
+    const refillPerSecond = policy.requests / policy.windowSeconds;
+
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+    // Clamp to capacity: the plan may have been downgraded since the last request
+    let tokens = Math.min(capacity, bucket.tokens + elapsedSeconds * refillPerSecond);
+
+    const allowed = tokens >= 1;
+    if (allowed) {
+      tokens -= 1;
+    }
+    this.buckets.set(key, { tokens, updatedAt: now });
+
+    return {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((capacity - tokens) / refillPerSecond),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerSecond),
+    };
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * OrganizationRegistry Schema Migrations
+ * Same rules as ./migrations.ts
+ */
+import type { Migration } from './migrations';
+
+export const REGISTRY_MIGRATIONS: Migration[] = [
+  {
+    id: '0001_organizations',
+    up: (sql) => {
+      // One row per organization, reported by its OrganizationStorage
+      sql.exec(`
+        CREATE TABLE organizations (
+          org_id TEXT PRIMARY KEY,
+          name TEXT,
+          slug TEXT,
+          plan_type TEXT NOT NULL DEFAULT 'FREE',
+          storage_bytes INTEGER NOT NULL DEFAULT 0,
+          created_at INTEGER NOT NULL,
+          registered_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          last_active_at INTEGER,
+          deleted_at INTEGER,
+          updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+        )
+      `);
+      // Listing order (newest first) and the active-organization count
+      sql.exec('CREATE INDEX organizations_by_created ON organizations (created_at DESC, org_id DESC)');
+      sql.exec('CREATE INDEX organizations_by_activity ON organizations (last_active_at)');
+    },
+  },
+  {
+    id: '0002_purged_at',
+    up: (sql) => {
+      // Set when the organization's storage was purged (offboarding)
+      sql.exec('ALTER TABLE organizations ADD COLUMN purged_at INTEGER');
+    },
+  },
+  {
+    id: '0003_cron_runs',
+    up: (sql) => {
+      // History of cron job runs (see src/jobs/scheduled.ts)
+      sql.exec(`
+        CREATE TABLE cron_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job TEXT NOT NULL,
+          cron TEXT NOT NULL,
+          status TEXT NOT NULL,
+          attempts INTEGER NOT NULL,
+          error TEXT,
+          scheduled_at INTEGER NOT NULL,
+          started_at INTEGER NOT NULL,
+          finished_at INTEGER NOT NULL
+        )
+      `);
+      sql.exec('CREATE INDEX cron_runs_by_job ON cron_runs (job, id)');
+      sql.exec('CREATE INDEX cron_runs_by_finished ON cron_runs (finished_at)');
+    },
+  },
+];
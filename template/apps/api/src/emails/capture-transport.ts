@@ -0,0 +1,35 @@
+/**
+ * Capture Email Transport (development and tests)
+ *
+ * Keeps every message in `messages` instead of sending it, and logs it to the
+ * console (the `pnpm dev` output) unless `log` is false:
+ *
+ *   const transport = new CaptureEmailTransport({ log: false });
+ *   await transport.send({ to: 'alice@example.com', ...renderEmail(input, 'en', {}) });
+ *   transport.messages[0].subject;
+ *
+ * Set `failWith` to make sends throw (e.g. to test outbox retries).
+ */
+import type { EmailMessage, EmailSendOptions, EmailTransport } from './transport';
+
+export interface CapturedEmail extends EmailMessage, EmailSendOptions {
+  messageId: string;
+}
+
+export class CaptureEmailTransport implements EmailTransport {
+  readonly messages: CapturedEmail[] = [];
+  failWith: Error | null = null;
+
+  constructor(private readonly options: { log?: boolean } = {}) {}
+
+  async send(message: EmailMessage, options: EmailSendOptions = {}) {
+    if (this.failWith) throw this.failWith;
+
+    const messageId = `captured_${crypto.randomUUID()}`;
+    this.messages.push({ ...message, ...options, messageId });
+    if (this.options.log !== false) {
+      console.log(`Email to ${message.to}: ${message.subject}\n\n${message.text}`);
+    }
+    return { messageId };
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * HTTP Email Transport
+ *
+ * Sends through an email provider's JSON API. The request follows Resend's
+ * API, which several providers and relays accept:
+ *
+ *   POST {EMAIL_API_URL}
+ *   Authorization: Bearer {EMAIL_API_KEY}
+ *   Idempotency-Key: {key}
+ *   { "from": "...", "to": ["..."], "subject": "...", "html": "...", "text": "..." }
+ *   → { "id": "..." }
+ *
+ * For a provider with a different API, add a transport next to this one.
+ */
+import { ConfigurationError, ServiceUnavailableError } from '../utils/errors';
+import type { EmailMessage, EmailSendOptions, EmailTransport } from './transport';
+
+const DEFAULT_EMAIL_API_URL = 'https://api.resend.com/emails';
+
+// A hung request must not hold the Durable Object alarm
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export interface HttpEmailTransportConfig {
+  apiKey?: string;
+  // Sender, e.g. "Acme <noreply@acme.com>"
+  from?: string;
+  apiUrl?: string;
+}
+
+export class HttpEmailTransport implements EmailTransport {
+  constructor(private readonly config: HttpEmailTransportConfig) {}
+
+  async send(message: EmailMessage, { idempotencyKey }: EmailSendOptions = {}) {
+    const { apiKey, from } = this.config;
+    if (!apiKey || !from) {
+      throw new ConfigurationError('EMAIL_API_KEY or EMAIL_FROM is not configured');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.apiUrl || DEFAULT_EMAIL_API_URL, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+          ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+        },
+        body: JSON.stringify({
+          from,
+          to: [message.to],
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new ServiceUnavailableError('service_unavailable', 'Email provider is unreachable', {
+        cause: error,
+      });
+    }
+
+    if (!response.ok) {
+      throw new ServiceUnavailableError(
+        'service_unavailable',
+        `Email provider returned ${response.status}`,
+        { cause: await response.text() },
+      );
+    }
+
+    const body = (await response.json().catch(() => ({}))) as { id?: unknown };
+    return { messageId: typeof body.id === 'string' ? body.id : null };
+  }
+}
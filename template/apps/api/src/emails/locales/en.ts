@@ -0,0 +1,53 @@
+/**
+ * English email text
+ */
+import spa from '../../../../spa/src/locales/en.json';
+import type { EmailMessages } from '../templates';
+
+const en: EmailMessages = {
+  footer: ({ appUrl }) => `You are receiving this email because of your account at ${appUrl}.`,
+  templates: {
+    payment_failed: (data, { appUrl, formatAmount }) => ({
+      subject: `Payment failed for ${data.organizationName}`,
+      heading: 'Your payment failed',
+      paragraphs: [
+        `We could not collect ${formatAmount(data.amountDue, data.currency)} for ${data.organizationName}.`,
+        'Please update your payment method to keep your subscription active. We will retry the payment automatically.',
+      ],
+      action: data.invoiceUrl
+        ? { label: 'Pay invoice', url: data.invoiceUrl }
+        : { label: spa.billing.manageSubscription, url: `${appUrl}/dashboard/settings/billing` },
+    }),
+    trial_ending: (data, { appUrl, formatDate }) => ({
+      subject: `Your trial for ${data.organizationName} ends on ${formatDate(data.trialEndsAt)}`,
+      heading: 'Your trial is ending soon',
+      paragraphs: [
+        `The trial for ${data.organizationName} ends on ${formatDate(data.trialEndsAt)}.`,
+        'Add a payment method before then to keep your plan without interruption.',
+      ],
+      action: { label: spa.billing.manageSubscription, url: `${appUrl}/dashboard/settings/billing` },
+    }),
+    invitation: (data) => ({
+      subject: `You are invited to join ${data.organizationName}`,
+      heading: `Join ${data.organizationName}`,
+      paragraphs: [
+        data.inviterName
+          ? `${data.inviterName} has invited you to join ${data.organizationName}.`
+          : `You have been invited to join ${data.organizationName}.`,
+        'If you were not expecting this invitation, you can ignore this email.',
+      ],
+      action: { label: 'Accept invitation', url: data.acceptUrl },
+    }),
+    export_ready: (data, { formatDate }) => ({
+      subject: `Your data export for ${data.organizationName} is ready`,
+      heading: 'Your data export is ready',
+      paragraphs: [
+        `The export of ${data.organizationName} has finished.`,
+        `The download link expires on ${formatDate(data.expiresAt)}.`,
+      ],
+      action: { label: 'Download', url: data.downloadUrl },
+    }),
+  },
+};
+
+export default en;
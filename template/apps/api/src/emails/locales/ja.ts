@@ -0,0 +1,53 @@
+/**
+ * Japanese email text
+ */
+import spa from '../../../../spa/src/locales/ja.json';
+import type { EmailMessages } from '../templates';
+
+const ja: EmailMessages = {
+  footer: ({ appUrl }) => `このメールは ${appUrl} のアカウントに関するお知らせです。`,
+  templates: {
+    payment_failed: (data, { appUrl, formatAmount }) => ({
+      subject: `「${data.organizationName}」のお支払いに失敗しました`,
+      heading: 'お支払いに失敗しました',
+      paragraphs: [
+        `「${data.organizationName}」の${formatAmount(data.amountDue, data.currency)}のお支払いを完了できませんでした。`,
+        'サブスクリプションを継続するには、お支払い方法を更新してください。お支払いは自動的に再試行されます。',
+      ],
+      action: data.invoiceUrl
+        ? { label: '請求書を支払う', url: data.invoiceUrl }
+        : { label: spa.billing.manageSubscription, url: `${appUrl}/dashboard/settings/billing` },
+    }),
+    trial_ending: (data, { appUrl, formatDate }) => ({
+      subject: `「${data.organizationName}」の無料トライアルは${formatDate(data.trialEndsAt)}に終了します`,
+      heading: '無料トライアルがまもなく終了します',
+      paragraphs: [
+        `「${data.organizationName}」の無料トライアルは${formatDate(data.trialEndsAt)}に終了します。`,
+        '引き続きプランをご利用いただくには、それまでにお支払い方法を登録してください。',
+      ],
+      action: { label: spa.billing.manageSubscription, url: `${appUrl}/dashboard/settings/billing` },
+    }),
+    invitation: (data) => ({
+      subject: `「${data.organizationName}」への招待`,
+      heading: `「${data.organizationName}」に参加しましょう`,
+      paragraphs: [
+        data.inviterName
+          ? `${data.inviterName}さんから「${data.organizationName}」への招待が届いています。`
+          : `「${data.organizationName}」への招待が届いています。`,
+        'お心当たりのない場合は、このメールを無視してください。',
+      ],
+      action: { label: '招待を承認', url: data.acceptUrl },
+    }),
+    export_ready: (data, { formatDate }) => ({
+      subject: `「${data.organizationName}」のデータエクスポートが完了しました`,
+      heading: 'データエクスポートが完了しました',
+      paragraphs: [
+        `「${data.organizationName}」のエクスポートが完了しました。`,
+        `ダウンロードリンクの有効期限は${formatDate(data.expiresAt)}です。`,
+      ],
+      action: { label: 'ダウンロード', url: data.downloadUrl },
+    }),
+  },
+};
+
+export default ja;
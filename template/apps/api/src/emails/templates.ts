@@ -0,0 +1,210 @@
+/**
+ * Email Templates
+ *
+ * A template turns typed data into localized content (./locales/*.ts); the
+ * layout renders that content as HTML and plain text. Buttons that lead to a
+ * page of the SPA use the SPA's own label for it (apps/spa/src/locales), so an
+ * email and the page it links to use the same words.
+ *
+ *   const email = renderEmail(
+ *     { template: 'trial_ending', data: { organizationName: 'Acme', trialEndsAt } },
+ *     'ja',
+ *     { appUrl: env.APP_URL },
+ *   );
+ *   // { subject, html, text }
+ */
+import {
+  DEFAULT_EMAIL_LOCALE,
+  EMAIL_LOCALES,
+  type EmailLocale,
+  type EmailTemplate,
+} from '../constants/email';
+import en from './locales/en';
+import ja from './locales/ja';
+
+/**
+ * Data of each template
+ * Stored as JSON in the outbox until the email is sent: plain values only.
+ */
+export interface EmailTemplateData {
+  payment_failed: {
+    organizationName: string;
+    // Smallest currency unit (e.g. cents), as reported by the billing provider
+    amountDue: number;
+    currency: string;
+    invoiceUrl: string | null;
+  };
+  trial_ending: {
+    organizationName: string;
+    trialEndsAt: number;
+  };
+  invitation: {
+    organizationName: string;
+    inviterName: string | null;
+    acceptUrl: string;
+  };
+  export_ready: {
+    organizationName: string;
+    downloadUrl: string;
+    expiresAt: number;
+  };
+}
+
+/**
+ * A template and its data
+ */
+export type EmailContentInput<T extends EmailTemplate = EmailTemplate> = {
+  [K in T]: { template: K; data: EmailTemplateData[K] };
+}[T];
+
+export interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  // Call to action, rendered as a button
+  action?: { label: string; url: string };
+}
+
+export interface EmailFormatContext {
+  // SPA origin, without a trailing slash
+  appUrl: string;
+  formatDate: (seconds: number) => string;
+  formatAmount: (amount: number, currency: string) => string;
+}
+
+/**
+ * The text of every template in one locale
+ */
+export interface EmailMessages {
+  footer: (context: EmailFormatContext) => string;
+  templates: {
+    [T in EmailTemplate]: (data: EmailTemplateData[T], context: EmailFormatContext) => EmailContent;
+  };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const MESSAGES: Record<EmailLocale, EmailMessages> = { en, ja };
+
+// Inline styles: most email clients ignore <style> blocks
+const STYLES = {
+  body: [
+    'margin:0',
+    'padding:24px',
+    'background:#f4f4f5',
+    'color:#18181b',
+    "font-family:-apple-system,BlinkMacSystemFont,'Segoe UI','Hiragino Sans',Meiryo,sans-serif",
+    'font-size:15px',
+  ].join(';'),
+  card: 'max-width:560px;margin:0 auto;padding:32px;border-radius:8px;background:#ffffff',
+  heading: 'margin:0 0 16px;font-size:20px',
+  paragraph: 'margin:0 0 16px;line-height:1.6',
+  button: [
+    'display:inline-block',
+    'padding:10px 18px',
+    'border-radius:6px',
+    'background:#18181b',
+    'color:#ffffff',
+    'text-decoration:none',
+    'font-weight:600',
+  ].join(';'),
+  footer: 'max-width:560px;margin:16px auto 0;color:#71717a;font-size:12px',
+};
+
+/**
+ * First supported locale among language tags (e.g. Stripe's
+ * `preferred_locales`, an Accept-Language list), or the default
+ */
+export function resolveEmailLocale(tags: readonly (string | null | undefined)[]): EmailLocale {
+  for (const tag of tags) {
+    const language = tag?.split(/[-_]/)[0]?.toLowerCase();
+    const locale = EMAIL_LOCALES.find((candidate) => candidate === language);
+    if (locale) return locale;
+  }
+  return DEFAULT_EMAIL_LOCALE;
+}
+
+/**
+ * Render a template in a locale
+ */
+export function renderEmail(
+  input: EmailContentInput,
+  locale: EmailLocale,
+  options: { appUrl?: string },
+): RenderedEmail {
+  const messages = MESSAGES[locale];
+  const context: EmailFormatContext = {
+    appUrl: (options.appUrl || 'http://localhost:5173').replace(/\/+$/, ''),
+    formatDate: (seconds) =>
+      new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeZone: 'UTC' }).format(
+        new Date(seconds * 1000),
+      ),
+    formatAmount: (amount, currency) => {
+      const format = new Intl.NumberFormat(locale, { style: 'currency', currency });
+      const digits = format.resolvedOptions().maximumFractionDigits ?? 2;
+      return format.format(amount / 10 ** digits);
+    },
+  };
+
+  // The union of inputs does not narrow the template lookup
+  const template = messages.templates[input.template] as (
+    data: EmailContentInput['data'],
+    context: EmailFormatContext,
+  ) => EmailContent;
+  const content = template(input.data, context);
+  const footer = messages.footer(context);
+
+  return {
+    subject: content.subject,
+    html: renderHtml(locale, content, footer),
+    text: renderText(content, footer),
+  };
+}
+
+function renderHtml(locale: EmailLocale, content: EmailContent, footer: string): string {
+  const paragraphs = content.paragraphs
+    .map((paragraph) => `<p style="${STYLES.paragraph}">${escapeHtml(paragraph)}</p>`)
+    .join('\n');
+  const action = content.action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" style="${STYLES.button}">${escapeHtml(content.action.label)}</a></p>`
+    : '';
+
+  return `<!doctype html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(content.subject)}</title>
+</head>
+<body style="${STYLES.body}">
+<div style="${STYLES.card}">
+<h1 style="${STYLES.heading}">${escapeHtml(content.heading)}</h1>
+${paragraphs}
+${action}
+</div>
+<p style="${STYLES.footer}">${escapeHtml(footer)}</p>
+</body>
+</html>`;
+}
+
+function renderText(content: EmailContent, footer: string): string {
+  return [
+    content.heading,
+    ...content.paragraphs,
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    `--\n${footer}`,
+  ].join('\n\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
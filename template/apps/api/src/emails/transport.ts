@@ -0,0 +1,52 @@
+/**
+ * Email Transport
+ *
+ * Delivers rendered emails. Worker code does not call it directly: emails go
+ * through an organization's outbox (OrganizationStorage.queueEmail), which
+ * retries failed deliveries with a stable idempotency key.
+ *
+ * Implementations:
+ * - HttpEmailTransport (./http-transport.ts): an email provider's HTTP API
+ * - CaptureEmailTransport (./capture-transport.ts): keeps and logs messages
+ *   instead of sending them (development and tests)
+ */
+import type { Env } from '../types/env';
+import { isLocalDevMode } from '../utils/local-auth';
+import { CaptureEmailTransport } from './capture-transport';
+import { HttpEmailTransport } from './http-transport';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailSendOptions {
+  // Same key for every attempt of one outbox entry
+  idempotencyKey?: string;
+}
+
+export interface EmailTransport {
+  /**
+   * Send one message
+   * Returns the provider's message ID, if it reports one. Throws when the
+   * message was not accepted (the outbox retries).
+   */
+  send(message: EmailMessage, options?: EmailSendOptions): Promise<{ messageId: string | null }>;
+}
+
+/**
+ * Email transport for the environment
+ * Outside production, emails are captured (logged) until EMAIL_API_KEY is set.
+ */
+export function createEmailTransport(env: Env): EmailTransport {
+  if (isLocalDevMode(env) || (env.ENVIRONMENT !== 'production' && !env.EMAIL_API_KEY)) {
+    return new CaptureEmailTransport();
+  }
+  return new HttpEmailTransport({
+    apiKey: env.EMAIL_API_KEY,
+    from: env.EMAIL_FROM,
+    apiUrl: env.EMAIL_API_URL,
+  });
+}
@@ -2,36 +2,58 @@
  * {{ project_slug }} API
  * Hono + Cloudflare Workers
  */
-import { Hono } from 'hono';
-import { cors } from 'hono/cors';
+import { requestId } from 'hono/request-id';
+import { apiAuth } from './middleware/auth';
+import { rateLimit } from './middleware/rate-limit';
+import { recordActivity } from './middleware/activity';
+import { corsPolicy } from './middleware/cors';
+import { billingProvider } from './middleware/billing';
+import { requireServerConfig } from './middleware/config';
+import { errorHandler, notFoundHandler } from './middleware/error-handler';
+import { NotFoundError } from './utils/errors';
+import { createRouter } from './utils/openapi';
+import { handleScheduled } from './jobs/scheduled';
 import type { Env } from './types/env';
-import { clerkAuth, type Variables } from './middleware/auth';
 
 // Routes
 import billingRoute from './routes/billing/billing';
+import stripeWebhookRoute from './routes/billing/webhook';
+import clerkWebhookRoute from './routes/webhooks/clerk';
+import itemsRoute from './routes/items/items';
+import entitlementsRoute from './routes/entitlements/entitlements';
+import apiKeysRoute from './routes/api-keys/api-keys';
+import auditLogRoute from './routes/audit-log/audit-log';
+import orgRoute from './routes/org/org';
+import internalRoute from './routes/internal/internal';
+import devRoute from './routes/dev/dev';
 
 // Durable Objects
 export { OrganizationStorage } from './durable-objects/organization-storage';
+export { RateLimiter } from './durable-objects/rate-limiter';
+export { OrganizationRegistry } from './durable-objects/organization-registry';
 
-// Hono Application
-const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+// Hono Application (OpenAPIHono: zod-validated routes are collected into /api/openapi.json)
+const app = createRouter();
 
-// CORS Middleware
+// Request ID (X-Request-Id; reuses a valid incoming header, else Cloudflare's Ray ID)
 app.use(
   '/*',
-  cors({
-    origin: (origin) => {
-      // Development: allow localhost
-      if (origin.includes('localhost')) return origin;
-      // Production: allow your domains
-      if (origin.endsWith('.workers.dev')) return origin;
-      if (origin.endsWith('.pages.dev')) return origin;
-      return origin;
-    },
-    credentials: true,
-  }),
+  requestId({ generator: (c) => c.req.header('cf-ray') ?? crypto.randomUUID() }),
 );
 
+// Error envelope: { error: { code, message, requestId } }
+app.onError(errorHandler);
+app.notFound(notFoundHandler);
+
+// Refuse to serve without required secrets (INTERNAL_SECRETS)
+app.use('/*', requireServerConfig);
+
+// CORS Middleware (ALLOWED_ORIGINS)
+app.use('/*', corsPolicy);
+
+// Billing provider of the request (Stripe, or the fake provider with DEV_MODE=local)
+app.use('/api/*', billingProvider);
+
 // Health Check
 app.get('/health', (c) => {
   return c.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -45,11 +67,47 @@ app.get('/', (c) => {
   });
 });
 
-// Apply auth middleware to API routes
-app.use('/api/*', clerkAuth);
+// OpenAPI document (public, registered before auth middleware)
+app.openAPIRegistry.registerComponent('securitySchemes', 'bearerAuth', {
+  type: 'http',
+  scheme: 'bearer',
+  description: 'Clerk session token or organization API key',
+});
+app.doc31('/api/openapi.json', {
+  openapi: '3.1.0',
+  info: {
+    title: '{{ project_name }} API',
+    version: '0.1.0',
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// Webhooks (verified by signature, registered before auth middleware)
+app.route('/api/billing/webhook', stripeWebhookRoute);
+app.route('/api/webhooks/clerk', clerkWebhookRoute);
+
+// Internal API (internal token auth, registered before auth middleware)
+app.route('/api/internal', internalRoute);
+
+// Local development (DEV_MODE=local only: token issuer, billing simulation)
+app.route('/api/dev', devRoute);
+
+// Apply auth middleware to API routes (Clerk session or API key)
+app.use('/api/*', apiAuth);
+
+// Per-organization rate limiting (limits per plan, see RATE_LIMITS)
+app.use('/api/*', rateLimit());
+
+// Organization registry: register on first access, track last activity
+app.use('/api/*', recordActivity);
 
 // API Routes
 app.route('/api/billing', billingRoute);
+app.route('/api/items', itemsRoute);
+app.route('/api/entitlements', entitlementsRoute);
+app.route('/api/api-keys', apiKeysRoute);
+app.route('/api/audit-log', auditLogRoute);
+app.route('/api/org', orgRoute);
 
 // TODO: Add your custom API routes here
 // app.route('/api/your-feature', yourFeatureRoute);
@@ -57,7 +115,7 @@ app.route('/api/billing', billingRoute);
 // Static Assets Fallback (SPA support)
 app.get('*', async (c) => {
   if (!c.env.ASSETS) {
-    return c.json({ error: 'Not found' }, 404);
+    throw new NotFoundError();
   }
 
   const response = await c.env.ASSETS.fetch(c.req.raw);
@@ -73,4 +131,8 @@ app.get('*', async (c) => {
   return response;
 });
 
-export default app;
+// Worker entry points: HTTP requests and cron triggers (see jobs/cron.ts)
+export default {
+  fetch: app.fetch,
+  scheduled: handleScheduled,
+} satisfies ExportedHandler<Env>;
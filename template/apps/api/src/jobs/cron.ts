@@ -0,0 +1,67 @@
+/**
+ * Cron Jobs
+ *
+ * Global jobs started by the Worker's cron triggers. Each job names the cron
+ * expression it runs on, which must also be listed under `[triggers] crons`
+ * in wrangler.toml: the scheduled handler only receives the expression and
+ * runs every job registered for it (see ./scheduled.ts).
+ *
+ * Work for each organization belongs in organization jobs: a cron job fans
+ * out by queuing one per organization (OrganizationStorage.enqueueJob).
+ */
+import type { Env } from '../types/env';
+import { PLAN_LIMITS, type PlanType } from '../constants/plans';
+import type { OrganizationListPosition } from '../durable-objects/organization-registry';
+import { getOrganizationRegistry } from '../utils/organization-registry';
+
+export interface CronJob {
+  // Cron expression (UTC), also listed in wrangler.toml
+  schedule: string;
+  description: string;
+  // Attempts within one run, first included (default: DEFAULT_CRON_MAX_ATTEMPTS)
+  maxAttempts?: number;
+  run: (env: Env) => Promise<void>;
+}
+
+export const CRON_JOBS = {
+  'sync-subscriptions': {
+    schedule: '0 3 * * *',
+    description: 'Queue a subscription reconcile for every organization on a paid plan',
+    run: syncSubscriptions,
+  },
+} satisfies Record<string, CronJob>;
+
+export type CronJobName = keyof typeof CRON_JOBS;
+
+/**
+ * Names of the jobs registered for a cron expression
+ */
+export function getCronJobNames(cron: string): CronJobName[] {
+  return (Object.keys(CRON_JOBS) as CronJobName[]).filter(
+    (name) => CRON_JOBS[name].schedule === cron,
+  );
+}
+
+/**
+ * Queue a sync_subscription job in every organization on a paid plan
+ * Catches missed cancellation webhooks of organizations that are not
+ * otherwise active. Safe to rerun: pending jobs are deduplicated by key.
+ */
+async function syncSubscriptions(env: Env): Promise<void> {
+  const registry = getOrganizationRegistry(env);
+  const paidPlans = (Object.keys(PLAN_LIMITS) as PlanType[]).filter((plan) => plan !== 'FREE');
+
+  for (const planType of paidPlans) {
+    let after: OrganizationListPosition | null = null;
+    do {
+      const page = await registry.list({ planType, after, limit: 100 });
+      await Promise.all(
+        page.organizations.map(({ orgId }) => {
+          const stub = env.ORGANIZATION_STORAGE.get(env.ORGANIZATION_STORAGE.idFromName(orgId));
+          return stub.enqueueJob({ type: 'sync_subscription', key: 'sync_subscription' });
+        }),
+      );
+      after = page.next;
+    } while (after);
+  }
+}
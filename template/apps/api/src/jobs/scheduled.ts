@@ -0,0 +1,87 @@
+/**
+ * Scheduled Handler
+ * Runs the cron jobs registered for a cron trigger (./cron.ts), retries
+ * failed ones with backoff, and records every run in the OrganizationRegistry.
+ *
+ * Locally, `pnpm dev` starts wrangler with --test-scheduled:
+ *   curl "http://localhost:8787/__scheduled?cron=0+3+*+*+*"
+ */
+import type { Env } from '../types/env';
+import type { CronRunInput } from '../durable-objects/organization-registry';
+import { getOrganizationRegistry } from '../utils/organization-registry';
+import { getRetryDelaySeconds, toJobError, type RetryBackoff } from '../utils/jobs';
+import { CRON_JOBS, getCronJobNames, type CronJob, type CronJobName } from './cron';
+
+const DEFAULT_CRON_MAX_ATTEMPTS = 3;
+
+// Retries stay within the invocation: 2 s, 4 s, ... up to 30 s
+const CRON_RETRY_BACKOFF: RetryBackoff = { baseSeconds: 2, maxSeconds: 30 };
+
+/**
+ * Run one cron job with retries and record the run
+ */
+export async function runCronJob(
+  env: Env,
+  name: CronJobName,
+  trigger: { cron: string; scheduledTime: number },
+): Promise<CronRunInput> {
+  const job: CronJob = CRON_JOBS[name];
+  const maxAttempts = job.maxAttempts ?? DEFAULT_CRON_MAX_ATTEMPTS;
+  const startedAt = Math.floor(Date.now() / 1000);
+
+  let attempts = 0;
+  let error: string | null = null;
+  while (attempts < maxAttempts) {
+    attempts += 1;
+    try {
+      await job.run(env);
+      error = null;
+      break;
+    } catch (cause) {
+      console.error(`Cron job ${name} attempt ${attempts} failed:`, cause);
+      error = toJobError(cause);
+      if (attempts < maxAttempts) {
+        const delay = getRetryDelaySeconds(attempts, CRON_RETRY_BACKOFF);
+        await new Promise((resolve) => setTimeout(resolve, delay * 1000));
+      }
+    }
+  }
+
+  const run: CronRunInput = {
+    job: name,
+    cron: trigger.cron,
+    status: error === null ? 'succeeded' : 'failed',
+    attempts,
+    error,
+    scheduledAt: Math.floor(trigger.scheduledTime / 1000),
+    startedAt,
+    finishedAt: Math.floor(Date.now() / 1000),
+  };
+
+  // History is best effort: a failed write must not fail the job
+  try {
+    await getOrganizationRegistry(env).recordCronRun(run);
+  } catch (cause) {
+    console.error(`Recording cron run of ${name} failed:`, cause);
+  }
+  return run;
+}
+
+/**
+ * Worker `scheduled` handler
+ * Throws when a job failed after its retries, so the invocation shows as
+ * failed in the Cloudflare dashboard.
+ */
+export async function handleScheduled(controller: ScheduledController, env: Env): Promise<void> {
+  const names = getCronJobNames(controller.cron);
+  if (!names.length) {
+    console.warn(`No cron job is registered for "${controller.cron}"`);
+    return;
+  }
+
+  const runs = await Promise.all(names.map((name) => runCronJob(env, name, controller)));
+  const failed = runs.filter((run) => run.status === 'failed').map((run) => run.job);
+  if (failed.length) {
+    throw new Error(`Cron jobs failed: ${failed.join(', ')}`);
+  }
+}
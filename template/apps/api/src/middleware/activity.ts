@@ -0,0 +1,43 @@
+/**
+ * Organization Activity Middleware
+ * Registers the organization in the OrganizationRegistry on first access and
+ * keeps its last activity current
+ */
+import { createMiddleware } from 'hono/factory';
+import type { Env } from '../types/env';
+import type { Variables } from './auth';
+
+// Per-isolate throttle in front of the Durable Object's own (longer) one
+const ACTIVITY_RECORD_INTERVAL_MS = 60 * 1000;
+const MAX_TRACKED_ORGANIZATIONS = 10_000;
+
+const lastRecordedAt = new Map<string, number>();
+
+/**
+ * アクティビティ記録ミドルウェア
+ * Must run after apiAuth. Never fails the request.
+ */
+export const recordActivity = createMiddleware<{
+  Bindings: Env;
+  Variables: Variables;
+}>(async (c, next) => {
+  const orgId = c.get('orgId') || c.get('userId');
+  const now = Date.now();
+
+  if (orgId && now - (lastRecordedAt.get(orgId) ?? 0) >= ACTIVITY_RECORD_INTERVAL_MS) {
+    if (lastRecordedAt.size >= MAX_TRACKED_ORGANIZATIONS) {
+      lastRecordedAt.clear();
+    }
+    lastRecordedAt.set(orgId, now);
+
+    try {
+      const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+      await c.env.ORGANIZATION_STORAGE.get(doId).recordActivity(orgId);
+    } catch (error) {
+      lastRecordedAt.delete(orgId);
+      console.error('Recording organization activity failed:', error);
+    }
+  }
+
+  await next();
+});
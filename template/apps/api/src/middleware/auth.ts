@@ -1,22 +1,37 @@
 /**
- * Clerk Authentication Middleware
- * Verifies JWT tokens from Clerk and extracts user/org information
+ * Authentication Middleware
+ * Verifies Clerk JWT tokens or organization API keys and extracts user/org information
  */
 import { createMiddleware } from 'hono/factory';
-import { jwtVerify, createRemoteJWKSet } from 'jose';
 import type { Env } from '../types/env';
+import type { PlanType } from '../constants/plans';
+import type { InternalScope } from '../constants/permissions';
+import type { BillingProvider } from '../utils/billing-provider';
+import { API_KEY_PREFIX, hashApiKey, parseApiKey } from '../utils/api-keys';
+import { InternalKeyConfigError, verifyInternalToken } from '../utils/internal-token';
+import { ConfigurationError, ServiceUnavailableError, UnauthorizedError } from '../utils/errors';
+import {
+  ClerkTokenError,
+  parseAuthorizedParties,
+  parseClockSkew,
+  verifyClerkToken,
+  type ClerkJWTPayload,
+} from '../utils/clerk-token';
+import { getLocalVerificationKeys, isLocalDevMode, LOCAL_ISSUER } from '../utils/local-auth';
 
 export interface Variables {
+  // Clerk user ID, or `apikey_<id>` for API key requests
   userId: string;
   orgId: string | null;
   orgRole: string | null;
-}
-
-interface ClerkJWTPayload {
-  sub: string;
-  org_id?: string;
-  org_role?: string;
-  org_slug?: string;
+  orgPermissions: string[];
+  authType: 'session' | 'api_key' | 'internal';
+  // Scopes of the internal token (internalAuth only)
+  internalScopes?: InternalScope[];
+  // Set by enforceLimit / rateLimit
+  planType?: PlanType;
+  // Set by billingProvider
+  billing: BillingProvider;
 }
 
 /**
@@ -29,41 +44,98 @@ export const clerkAuth = createMiddleware<{
   const authHeader = c.req.header('Authorization');
 
   if (!authHeader?.startsWith('Bearer ')) {
-    return c.json({ error: 'Unauthorized: Missing or invalid Authorization header' }, 401);
+    throw new UnauthorizedError('token_missing', 'Missing or invalid Authorization header');
   }
 
   const token = authHeader.slice(7);
 
+  // DEV_MODE=local: tokens come from the local issuer (utils/local-auth.ts)
+  const isLocal = isLocalDevMode(c.env);
+  const issuerUrl = isLocal ? LOCAL_ISSUER : c.env.CLERK_ISSUER_URL;
+  if (!issuerUrl) {
+    throw new ConfigurationError('CLERK_ISSUER_URL is not configured');
+  }
+
+  let clerkPayload: ClerkJWTPayload;
   try {
-    // Clerk の JWKS エンドポイントから公開鍵を取得
-    const issuerUrl = c.env.CLERK_ISSUER_URL;
-    if (!issuerUrl) {
-      console.error('CLERK_ISSUER_URL is not configured');
-      return c.json({ error: 'Server configuration error' }, 500);
+    clerkPayload = await verifyClerkToken(token, {
+      issuer: issuerUrl,
+      authorizedParties: parseAuthorizedParties(c.env.CLERK_AUTHORIZED_PARTIES),
+      clockSkewSeconds: parseClockSkew(c.env.CLERK_CLOCK_SKEW_SECONDS),
+      keys: isLocal ? await getLocalVerificationKeys() : undefined,
+    });
+  } catch (error) {
+    if (error instanceof ClerkTokenError) {
+      if (error.code === 'jwks_unavailable') {
+        throw new ServiceUnavailableError(error.code, 'Authentication service unavailable', {
+          cause: error.cause,
+        });
+      }
+      throw new UnauthorizedError(error.code, error.message, { cause: error.cause });
     }
+    throw error;
+  }
 
-    const JWKS = createRemoteJWKSet(new URL(`${issuerUrl}/.well-known/jwks.json`));
+  // ユーザー情報をコンテキストに設定
+  c.set('userId', clerkPayload.sub);
+  c.set('orgId', clerkPayload.org_id || null);
+  c.set('orgRole', clerkPayload.org_role || null);
+  c.set('orgPermissions', clerkPayload.org_permissions ?? []);
+  c.set('authType', 'session');
 
-    const { payload } = await jwtVerify(token, JWKS, {
-      issuer: issuerUrl,
-    });
+  await next();
+});
 
-    const clerkPayload = payload as ClerkJWTPayload;
+/**
+ * APIキー認証ミドルウェア（M2M用）
+ * Scopes of the key become its permissions
+ */
+export const apiKeyAuth = createMiddleware<{
+  Bindings: Env;
+  Variables: Variables;
+}>(async (c, next) => {
+  const authHeader = c.req.header('Authorization');
+  const key = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : '';
 
-    // ユーザー情報をコンテキストに設定
-    c.set('userId', clerkPayload.sub);
-    c.set('orgId', clerkPayload.org_id || null);
-    c.set('orgRole', clerkPayload.org_role || null);
+  const parsed = parseApiKey(key);
+  if (!parsed) {
+    throw new UnauthorizedError('api_key_invalid', 'Invalid API key');
+  }
 
-    await next();
-  } catch (error) {
-    console.error('JWT verification failed:', error);
-    return c.json({ error: 'Unauthorized: Invalid token' }, 401);
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(parsed.orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const apiKey = await stub.verifyApiKey(await hashApiKey(key));
+  if (!apiKey) {
+    throw new UnauthorizedError('api_key_invalid', 'Invalid API key');
+  }
+
+  c.set('userId', `apikey_${apiKey.id}`);
+  c.set('orgId', parsed.orgId);
+  c.set('orgRole', null);
+  c.set('orgPermissions', apiKey.scopes);
+  c.set('authType', 'api_key');
+
+  await next();
+});
+
+/**
+ * API認証ミドルウェア
+ * Routes `Bearer sk_live_...` to API key auth, everything else to Clerk
+ */
+export const apiAuth = createMiddleware<{
+  Bindings: Env;
+  Variables: Variables;
+}>(async (c, next) => {
+  if (c.req.header('Authorization')?.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return apiKeyAuth(c, next);
   }
+  return clerkAuth(c, next);
 });
 
 /**
- * 内部API認証ミドルウェア（DO間通信用）
+ * 内部API認証ミドルウェア（Worker/DO間通信用）
+ * Accepts internal tokens addressed to the API (see utils/internal-token.ts)
  */
 export const internalAuth = createMiddleware<{
   Bindings: Env;
@@ -72,23 +144,27 @@ export const internalAuth = createMiddleware<{
   const internalToken = c.req.header('X-Internal-Token');
 
   if (!internalToken) {
-    return c.json({ error: 'Unauthorized: Missing internal token' }, 401);
+    throw new UnauthorizedError('internal_token_invalid', 'Missing internal token');
   }
 
+  let claims;
   try {
-    const secretKey = new TextEncoder().encode(
-      c.env.INTERNAL_SECRET || 'development-secret-key'
-    );
-
-    const { payload } = await jwtVerify(internalToken, secretKey);
-
-    c.set('userId', payload.userId as string);
-    c.set('orgId', payload.orgId as string);
-    c.set('orgRole', null);
-
-    await next();
+    claims = await verifyInternalToken(c.env, internalToken, 'api');
   } catch (error) {
-    console.error('Internal token verification failed:', error);
-    return c.json({ error: 'Unauthorized: Invalid internal token' }, 401);
+    if (error instanceof InternalKeyConfigError) {
+      throw new ConfigurationError(error.message);
+    }
+    throw new UnauthorizedError('internal_token_invalid', 'Invalid internal token', {
+      cause: error,
+    });
   }
+
+  c.set('userId', claims.userId ?? 'service');
+  c.set('orgId', claims.orgId);
+  c.set('orgRole', null);
+  c.set('orgPermissions', []);
+  c.set('internalScopes', claims.scopes);
+  c.set('authType', 'internal');
+
+  await next();
 });
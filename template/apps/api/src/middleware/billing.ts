@@ -0,0 +1,20 @@
+/**
+ * Billing Provider Middleware
+ * Creates the request's BillingProvider once; routes and middleware read it
+ * with `c.get('billing')` instead of talking to Stripe.
+ */
+import { createMiddleware } from 'hono/factory';
+import type { Env } from '../types/env';
+import type { Variables } from './auth';
+import { createBillingProvider } from '../utils/billing-provider';
+
+/**
+ * 課金プロバイダーミドルウェア
+ */
+export const billingProvider = createMiddleware<{
+  Bindings: Env;
+  Variables: Variables;
+}>(async (c, next) => {
+  c.set('billing', createBillingProvider(c.env));
+  await next();
+});
@@ -0,0 +1,34 @@
+/**
+ * Server Configuration Middleware
+ * Refuses every request while required secrets are missing (or local
+ * development mode is enabled in production), so a misconfigured deploy
+ * fails loudly instead of running with insecure defaults.
+ */
+import { createMiddleware } from 'hono/factory';
+import type { Env } from '../types/env';
+import type { Variables } from './auth';
+import { getInternalKeys, InternalKeyConfigError } from '../utils/internal-token';
+import { ConfigurationError } from '../utils/errors';
+
+/**
+ * 設定チェックミドルウェア
+ */
+export const requireServerConfig = createMiddleware<{
+  Bindings: Env;
+  Variables: Variables;
+}>(async (c, next) => {
+  if (c.env.DEV_MODE === 'local' && c.env.ENVIRONMENT === 'production') {
+    throw new ConfigurationError('DEV_MODE=local is not allowed in production');
+  }
+
+  try {
+    getInternalKeys(c.env);
+  } catch (error) {
+    if (error instanceof InternalKeyConfigError) {
+      throw new ConfigurationError(error.message);
+    }
+    throw error;
+  }
+
+  await next();
+});
@@ -0,0 +1,42 @@
+/**
+ * CORS Middleware
+ * Allows only origins listed in ALLOWED_ORIGINS (plus localhost outside production)
+ *
+ * Requests without an Origin header (curl, server-to-server, same-origin GET)
+ * are not CORS requests: they pass through without CORS headers and are
+ * authenticated like any other request.
+ */
+import { cors } from 'hono/cors';
+import type { Env } from '../types/env';
+import { isLocalhostOrigin, isOriginAllowed, parseAllowedOrigins } from '../utils/cors';
+
+/**
+ * CORSミドルウェア
+ */
+export const corsPolicy = cors({
+  origin: (origin, c) => {
+    if (!origin) return null;
+
+    const env = c.env as Env;
+    const allowed =
+      isOriginAllowed(origin, parseAllowedOrigins(env.ALLOWED_ORIGINS)) ||
+      (env.ENVIRONMENT !== 'production' && isLocalhostOrigin(origin));
+
+    if (allowed) return origin;
+
+    // The browser blocks the actual request when the preflight has no Allow-Origin
+    if (c.req.method === 'OPTIONS' && c.req.header('Access-Control-Request-Method')) {
+      console.warn(`CORS preflight rejected: origin=${origin} path=${c.req.path}`);
+    }
+    return null;
+  },
+  credentials: true,
+  exposeHeaders: [
+    'RateLimit-Limit',
+    'RateLimit-Remaining',
+    'RateLimit-Reset',
+    'RateLimit-Policy',
+    'Retry-After',
+  ],
+});
+
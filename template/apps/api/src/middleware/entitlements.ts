@@ -0,0 +1,53 @@
+/**
+ * Feature Gate Middleware
+ * Rejects requests for features the organization is not entitled to
+ * (plan features plus per-organization overrides)
+ */
+import { createMiddleware } from 'hono/factory';
+import type { Env } from '../types/env';
+import type { Variables } from './auth';
+import type { Feature } from '../constants/plans';
+import { getOrganizationEntitlements, type Entitlements } from '../utils/entitlements';
+import {
+  FeatureNotAvailableError,
+  ServiceUnavailableError,
+  UnauthorizedError,
+} from '../utils/errors';
+
+/**
+ * Feature middleware
+ * Usage: app.get('/reports', requireFeature('advanced'), handler)
+ */
+export function requireFeature(feature: Feature) {
+  return createMiddleware<{
+    Bindings: Env;
+    Variables: Variables;
+  }>(async (c, next) => {
+    const orgId = c.get('orgId') || c.get('userId');
+
+    if (!orgId) {
+      throw new UnauthorizedError();
+    }
+
+    const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+    const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+    let entitlements: Entitlements;
+    try {
+      entitlements = await getOrganizationEntitlements(c.get('billing'), stub, c.get('planType'));
+    } catch (error) {
+      throw new ServiceUnavailableError('service_unavailable', 'Failed to determine plan', {
+        cause: error,
+      });
+    }
+
+    if (!entitlements.features.includes(feature)) {
+      throw new FeatureNotAvailableError(`Feature not available: ${feature}`, {
+        details: { feature, planType: entitlements.planType },
+      });
+    }
+
+    c.set('planType', entitlements.planType);
+    await next();
+  });
+}
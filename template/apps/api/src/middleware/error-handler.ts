@@ -0,0 +1,86 @@
+/**
+ * Error Handling
+ * Global onError / notFound handlers producing the API error envelope:
+ *
+ *   { "error": { "code": "not_found", "message": "Not found", "requestId": "..." } }
+ *
+ * The request ID is also returned in the `X-Request-Id` header and prefixed
+ * to every log line written here.
+ */
+import type { Context, ErrorHandler, NotFoundHandler } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import Stripe from 'stripe';
+import type { ErrorCode } from '../constants/error-codes';
+import { AppError, RateLimitError } from '../utils/errors';
+
+export interface ErrorEnvelope {
+  error: {
+    code: ErrorCode;
+    message: string;
+    requestId: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Map framework and SDK errors to AppError
+ */
+function toAppError(error: Error): AppError {
+  if (error instanceof AppError) return error;
+
+  if (error instanceof HTTPException) {
+    // e.g. malformed JSON body, body-limit
+    if (error.status < 500) {
+      return new AppError(error.status, 'bad_request', error.message || 'Bad request', {
+        cause: error,
+      });
+    }
+  }
+
+  if (error instanceof Stripe.errors.StripeError) {
+    return new AppError(502, 'billing_provider_error', 'Billing provider request failed', {
+      cause: error,
+    });
+  }
+
+  return new AppError(500, 'internal_error', 'Internal server error', { cause: error });
+}
+
+function getRequestId(c: Context): string {
+  return (c.get('requestId') as string | undefined) ?? 'unknown';
+}
+
+export const errorHandler: ErrorHandler = (err, c) => {
+  const error = toAppError(err);
+  const requestId = getRequestId(c);
+
+  const log = `[${requestId}] ${c.req.method} ${c.req.path} -> ${error.status} ${error.code}`;
+  if (error.status >= 500) {
+    console.error(log, error.cause ?? error);
+  } else if (error.cause) {
+    console.warn(log, error.cause);
+  }
+
+  if (error instanceof RateLimitError) {
+    c.header('Retry-After', String(error.retryAfterSeconds));
+  }
+
+  return c.json<ErrorEnvelope>(
+    {
+      error: {
+        code: error.code,
+        message: error.message,
+        requestId,
+        ...(error.details && { details: error.details }),
+      },
+    },
+    error.status,
+  );
+};
+
+export const notFoundHandler: NotFoundHandler = (c) => {
+  return c.json<ErrorEnvelope>(
+    { error: { code: 'not_found', message: 'Not found', requestId: getRequestId(c) } },
+    404,
+  );
+};
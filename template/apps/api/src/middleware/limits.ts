@@ -0,0 +1,88 @@
+/**
+ * Plan Limit Middleware
+ * Rejects writes that would exceed the organization's PLAN_LIMITS
+ */
+import type { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import type { Env } from '../types/env';
+import type { Variables } from './auth';
+import {
+  LIMIT_USAGE_METRIC,
+  PLAN_LIMITS,
+  type LimitType,
+  type PlanType,
+} from '../constants/plans';
+import { getOrganizationPlanType } from '../utils/billing-plan';
+import { PlanLimitError, ServiceUnavailableError, UnauthorizedError } from '../utils/errors';
+
+/**
+ * 402 error for an exceeded plan limit
+ */
+export function planLimitError(limit: LimitType, planType: PlanType, current: number) {
+  const max = PLAN_LIMITS[planType][limit];
+  return new PlanLimitError(`Plan limit reached: ${limit}`, {
+    details: {
+      limit,
+      planType,
+      current,
+      // Infinity is not valid JSON
+      max: Number.isFinite(max) ? max : null,
+    },
+  });
+}
+
+/**
+ * Size of the request body in MB (the unit of maxStorage)
+ */
+function getRequestSizeMB(c: Context): number {
+  const length = Number(c.req.header('content-length') ?? 0);
+  return Number.isFinite(length) ? length / 1024 / 1024 : 0;
+}
+
+/**
+ * Plan limit middleware
+ * Usage: app.post('/', enforceLimit('maxItems'), enforceLimit('maxStorage'), handler)
+ *
+ * `increment` is in the limit's unit: items count 1 by default, storage the
+ * request body size in MB. Sets `planType` for the handler, which should
+ * re-check the limit inside its storage transaction (this check alone is not
+ * race-free).
+ */
+export function enforceLimit(limit: LimitType, increment?: number) {
+  return createMiddleware<{
+    Bindings: Env;
+    Variables: Variables;
+  }>(async (c, next) => {
+    const orgId = c.get('orgId') || c.get('userId');
+
+    if (!orgId) {
+      throw new UnauthorizedError();
+    }
+
+    const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+    const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+    // Resolved once per request (rate limiting or an earlier limit check)
+    let planType = c.get('planType');
+    if (!planType) {
+      try {
+        planType = await getOrganizationPlanType(c.get('billing'), stub);
+      } catch (error) {
+        throw new ServiceUnavailableError('service_unavailable', 'Failed to determine plan', {
+          cause: error,
+        });
+      }
+    }
+
+    const usage = await stub.getUsage();
+    const current = usage[LIMIT_USAGE_METRIC[limit]];
+    const delta = increment ?? (limit === 'maxStorage' ? getRequestSizeMB(c) : 1);
+
+    if (current + delta > PLAN_LIMITS[planType][limit]) {
+      throw planLimitError(limit, planType, current);
+    }
+
+    c.set('planType', planType);
+    await next();
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * Permission Middleware
+ * Declarative authorization based on the permission catalog
+ */
+import { createMiddleware } from 'hono/factory';
+import type { Env } from '../types/env';
+import type { Variables } from './auth';
+import { hasPermission, type InternalScope, type Permission } from '../constants/permissions';
+import { ForbiddenError } from '../utils/errors';
+
+/**
+ * Permission middleware
+ * Usage: app.post('/portal', requirePermission('org:billing:manage'), handler)
+ */
+export function requirePermission(permission: Permission) {
+  return createMiddleware<{
+    Bindings: Env;
+    Variables: Variables;
+  }>(async (c, next) => {
+    const allowed = hasPermission(
+      {
+        userId: c.get('userId'),
+        orgId: c.get('orgId'),
+        orgRole: c.get('orgRole'),
+        orgPermissions: c.get('orgPermissions') ?? [],
+      },
+      permission,
+    );
+
+    if (!allowed) {
+      throw new ForbiddenError(`Missing permission ${permission}`, { details: { permission } });
+    }
+
+    await next();
+  });
+}
+
+/**
+ * Internal token scope middleware
+ * Usage: app.get('/schema-version', requireScope('internal:schema:read'), handler)
+ */
+export function requireScope(scope: InternalScope) {
+  return createMiddleware<{
+    Bindings: Env;
+    Variables: Variables;
+  }>(async (c, next) => {
+    if (c.get('authType') !== 'internal' || !c.get('internalScopes')?.includes(scope)) {
+      throw new ForbiddenError(`Missing scope ${scope}`, { details: { scope } });
+    }
+
+    await next();
+  });
+}
+
+/**
+ * Internal token organization middleware
+ * Internal tokens are issued per organization: the `orgId` path parameter
+ * must be the token's organization.
+ * Usage: middleware: [requireScope('internal:jobs:read'), requireOrgToken] as const
+ */
+export const requireOrgToken = createMiddleware<{
+  Bindings: Env;
+  Variables: Variables;
+}>(async (c, next) => {
+  if (c.get('orgId') !== c.req.param('orgId')) {
+    throw new ForbiddenError('Token is not valid for this organization');
+  }
+
+  await next();
+});
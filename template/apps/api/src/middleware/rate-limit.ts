@@ -0,0 +1,100 @@
+/**
+ * Rate Limit Middleware
+ * Token bucket per organization (and per API key), sized by the plan's RATE_LIMITS
+ *
+ * Headers follow the IETF RateLimit header fields draft:
+ *   RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy
+ * and Retry-After on 429.
+ */
+import type { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import type { Env } from '../types/env';
+import type { Variables } from './auth';
+import {
+  RATE_LIMITS,
+  type PlanType,
+  type RateLimitBucket,
+  type RateLimitPolicy,
+} from '../constants/plans';
+import type { RateLimitResult } from '../durable-objects/rate-limiter';
+import { getOrganizationPlanType } from '../utils/billing-plan';
+import { RateLimitError, UnauthorizedError } from '../utils/errors';
+
+type AppContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+/**
+ * Resolve the plan for rate limiting
+ * Falls back to FREE limits when the plan cannot be determined.
+ */
+async function resolvePlanType(c: AppContext, orgId: string): Promise<PlanType> {
+  const cached = c.get('planType');
+  if (cached) return cached;
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  try {
+    const planType = await getOrganizationPlanType(c.get('billing'), stub);
+    c.set('planType', planType);
+    return planType;
+  } catch (error) {
+    console.error('Plan lookup failed, using FREE rate limits:', error);
+    return 'FREE';
+  }
+}
+
+function setRateLimitHeaders(c: AppContext, policy: RateLimitPolicy, result: RateLimitResult) {
+  c.header('RateLimit-Limit', String(result.limit));
+  c.header('RateLimit-Remaining', String(result.remaining));
+  c.header('RateLimit-Reset', String(result.resetSeconds));
+  c.header('RateLimit-Policy', `${policy.requests};w=${policy.windowSeconds}`);
+}
+
+/**
+ * Rate limit middleware
+ * Usage:
+ *   app.use('/api/*', rateLimit());                           // every API request
+ *   app.post('/portal', rateLimit('billing'), handler);       // expensive routes
+ *
+ * Must run after apiAuth. Fails open if the limiter is unavailable.
+ */
+export function rateLimit(bucket: RateLimitBucket = 'default') {
+  return createMiddleware<{
+    Bindings: Env;
+    Variables: Variables;
+  }>(async (c, next) => {
+    const orgId = c.get('orgId') || c.get('userId');
+
+    if (!orgId) {
+      throw new UnauthorizedError();
+    }
+
+    const planType = await resolvePlanType(c, orgId);
+    const policy = RATE_LIMITS[planType][bucket];
+
+    // Session traffic shares the organization bucket; API keys are limited individually
+    const subject = c.get('authType') === 'api_key' ? c.get('userId') : 'session';
+
+    let result: RateLimitResult;
+    try {
+      const doId = c.env.RATE_LIMITER.idFromName(orgId);
+      const stub = c.env.RATE_LIMITER.get(doId);
+      result = await stub.consume(`${bucket}:${subject}`, policy);
+    } catch (error) {
+      console.error('Rate limiter unavailable:', error);
+      await next();
+      return;
+    }
+
+    setRateLimitHeaders(c, policy, result);
+
+    if (!result.allowed) {
+      // Retry-After is set by the error handler
+      throw new RateLimitError(result.retryAfterSeconds, {
+        details: { bucket, planType, retryAfter: result.retryAfterSeconds },
+      });
+    }
+
+    await next();
+  });
+}
@@ -0,0 +1,129 @@
+/**
+ * API Keys Routes
+ * Organization-scoped API keys for machine-to-machine access
+ */
+import { createRoute } from '@hono/zod-openapi';
+import { requirePermission } from '../../middleware/permissions';
+import { API_KEY_SCOPES } from '../../constants/permissions';
+import { generateApiKey, hashApiKey } from '../../utils/api-keys';
+import { recordAuditEvent } from '../../utils/audit';
+import { NotFoundError } from '../../utils/errors';
+import { createRouter, errorResponses, jsonBody, jsonResponse } from '../../utils/openapi';
+import {
+  ApiKeyIdParamSchema,
+  ApiKeyListResponseSchema,
+  CreateApiKeyRequestSchema,
+  CreateApiKeyResponseSchema,
+  RevokedResponseSchema,
+} from './schemas';
+
+const app = createRouter();
+
+app.use('*', requirePermission('org:api_keys:manage'));
+
+/**
+ * GET /api/api-keys
+ * List API keys
+ */
+const listApiKeysRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['API Keys'],
+  responses: {
+    200: jsonResponse(ApiKeyListResponseSchema, 'API keys of the organization'),
+    ...errorResponses(401, 403, 429),
+  },
+});
+
+app.openapi(listApiKeysRoute, async (c) => {
+  const orgId = c.get('orgId') || c.get('userId');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const apiKeys = await stub.listApiKeys();
+  return c.json({ apiKeys, availableScopes: API_KEY_SCOPES }, 200);
+});
+
+/**
+ * POST /api/api-keys
+ * Create API key
+ * The secret is returned only in this response.
+ */
+const createApiKeyRoute = createRoute({
+  method: 'post',
+  path: '/',
+  tags: ['API Keys'],
+  request: {
+    body: jsonBody(CreateApiKeyRequestSchema),
+  },
+  responses: {
+    201: jsonResponse(CreateApiKeyResponseSchema, 'Created API key and its secret'),
+    ...errorResponses(400, 401, 403, 429),
+  },
+});
+
+app.openapi(createApiKeyRoute, async (c) => {
+  const userId = c.get('userId');
+  const orgId = c.get('orgId') || userId;
+  const { name, scopes = API_KEY_SCOPES, expiresInDays } = c.req.valid('json');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const { key, prefix } = generateApiKey(orgId);
+  const apiKey = await stub.createApiKey({
+    name,
+    prefix,
+    keyHash: await hashApiKey(key),
+    scopes: [...new Set(scopes)],
+    createdBy: userId,
+    expiresAt: expiresInDays
+      ? Math.floor(Date.now() / 1000) + expiresInDays * 24 * 60 * 60
+      : null,
+  });
+
+  await recordAuditEvent(c, {
+    action: 'api_key.created',
+    target: { type: 'api_key', id: apiKey.id },
+    metadata: { name: apiKey.name, scopes: apiKey.scopes, expiresAt: apiKey.expiresAt },
+  });
+
+  return c.json({ apiKey, secret: key }, 201);
+});
+
+/**
+ * DELETE /api/api-keys/:id
+ * Revoke API key
+ */
+const revokeApiKeyRoute = createRoute({
+  method: 'delete',
+  path: '/{id}',
+  tags: ['API Keys'],
+  request: {
+    params: ApiKeyIdParamSchema,
+  },
+  responses: {
+    200: jsonResponse(RevokedResponseSchema, 'API key revoked'),
+    ...errorResponses(401, 403, 404, 429),
+  },
+});
+
+app.openapi(revokeApiKeyRoute, async (c) => {
+  const orgId = c.get('orgId') || c.get('userId');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const { id } = c.req.valid('param');
+  const revoked = await stub.revokeApiKey(id);
+  if (!revoked) {
+    throw new NotFoundError('API key not found');
+  }
+
+  await recordAuditEvent(c, { action: 'api_key.revoked', target: { type: 'api_key', id } });
+
+  return c.json({ revoked: true as const }, 200);
+});
+
+export default app;
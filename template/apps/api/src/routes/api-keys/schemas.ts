@@ -0,0 +1,58 @@
+/**
+ * API Keys Schemas
+ */
+import { z } from '@hono/zod-openapi';
+import { API_KEY_SCOPES, type Permission } from '../../constants/permissions';
+
+export const MAX_EXPIRES_IN_DAYS = 365 * 2;
+
+const ApiKeyScopeSchema = z
+  .enum(API_KEY_SCOPES as [Permission, ...Permission[]])
+  .openapi('ApiKeyScope');
+
+export const ApiKeySchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    prefix: z.string().openapi({ example: 'sk_live_1a2b3c4d' }),
+    scopes: z.array(z.string()),
+    createdBy: z.string(),
+    createdAt: z.number().int(),
+    lastUsedAt: z.number().int().nullable(),
+    expiresAt: z.number().int().nullable(),
+    revokedAt: z.number().int().nullable(),
+  })
+  .openapi('ApiKey');
+
+export const ApiKeyListResponseSchema = z
+  .object({
+    apiKeys: z.array(ApiKeySchema),
+    availableScopes: z.array(ApiKeyScopeSchema),
+  })
+  .openapi('ApiKeyListResponse');
+
+export const CreateApiKeyRequestSchema = z
+  .object({
+    name: z.string().trim().min(1, 'name is required').max(100),
+    // Defaults to every available scope
+    scopes: z.array(ApiKeyScopeSchema).min(1).optional(),
+    expiresInDays: z.number().int().min(1).max(MAX_EXPIRES_IN_DAYS).nullable().optional(),
+  })
+  .openapi('CreateApiKeyRequest');
+
+export const CreateApiKeyResponseSchema = z
+  .object({
+    apiKey: ApiKeySchema,
+    secret: z.string().openapi({ description: 'Shown only once' }),
+  })
+  .openapi('CreateApiKeyResponse');
+
+export const ApiKeyIdParamSchema = z.object({
+  id: z.string().openapi({ param: { name: 'id', in: 'path' } }),
+});
+
+export const RevokedResponseSchema = z
+  .object({
+    revoked: z.literal(true),
+  })
+  .openapi('RevokedResponse');
@@ -0,0 +1,132 @@
+/**
+ * Audit Log API Routes
+ * Read and export the organization's audit events (written by recordAuditEvent)
+ */
+import { createRoute, z } from '@hono/zod-openapi';
+import { requirePermission } from '../../middleware/permissions';
+import {
+  auditCsvHeader,
+  decodeAuditCursor,
+  encodeAuditCursor,
+  toAuditCsvRow,
+} from '../../utils/audit';
+import { ValidationError } from '../../utils/errors';
+import { createRouter, errorResponses, jsonResponse } from '../../utils/openapi';
+import { AuditLogExportQuerySchema, AuditLogQuerySchema, AuditLogResponseSchema } from './schemas';
+
+// Events fetched from the Durable Object per export chunk
+const EXPORT_PAGE_SIZE = 500;
+
+const app = createRouter();
+
+app.use('*', requirePermission('org:audit_log:read'));
+
+/**
+ * GET /api/audit-log
+ * List audit events, newest first
+ * Pass `nextCursor` as `?cursor=` for the next page.
+ */
+const listAuditEventsRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['Audit Log'],
+  request: {
+    query: AuditLogQuerySchema,
+  },
+  responses: {
+    200: jsonResponse(AuditLogResponseSchema, 'Page of audit events'),
+    ...errorResponses(400, 401, 403, 429),
+  },
+});
+
+app.openapi(listAuditEventsRoute, async (c) => {
+  const orgId = c.get('orgId') || c.get('userId');
+  const { cursor, ...query } = c.req.valid('query');
+
+  const before = cursor ? decodeAuditCursor(cursor) : undefined;
+  if (before === null) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const page = await stub.listAuditEvents({ ...query, before });
+  return c.json(
+    {
+      events: page.events,
+      nextCursor: page.nextBefore !== null ? encodeAuditCursor(page.nextBefore) : null,
+    },
+    200,
+  );
+});
+
+/**
+ * GET /api/audit-log/export
+ * Export every matching audit event as CSV or NDJSON, newest first
+ * Streamed in chunks, so large logs are never held in memory.
+ */
+const exportAuditEventsRoute = createRoute({
+  method: 'get',
+  path: '/export',
+  tags: ['Audit Log'],
+  request: {
+    query: AuditLogExportQuerySchema,
+  },
+  responses: {
+    200: {
+      description: 'Audit events as a file download',
+      content: {
+        'text/csv': { schema: z.string() },
+        'application/x-ndjson': { schema: z.string() },
+      },
+    },
+    ...errorResponses(400, 401, 403, 429),
+  },
+});
+
+app.openapi(exportAuditEventsRoute, async (c) => {
+  const orgId = c.get('orgId') || c.get('userId');
+  const { format, ...query } = c.req.valid('query');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const encoder = new TextEncoder();
+  let before: number | null | undefined;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === 'csv') {
+        controller.enqueue(encoder.encode(auditCsvHeader()));
+      }
+    },
+    // One Durable Object page per chunk, pulled as the client reads
+    async pull(controller) {
+      const page = await stub.listAuditEvents({
+        ...query,
+        before: before ?? undefined,
+        limit: EXPORT_PAGE_SIZE,
+      });
+      const lines = page.events.map((event) =>
+        format === 'csv' ? toAuditCsvRow(event) : `${JSON.stringify(event)}\n`,
+      );
+      if (lines.length) {
+        controller.enqueue(encoder.encode(lines.join('')));
+      }
+
+      before = page.nextBefore;
+      if (before === null) {
+        controller.close();
+      }
+    },
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  return c.body(body, 200, {
+    'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+    'Content-Disposition': `attachment; filename="audit-log-${date}.${format}"`,
+  });
+});
+
+export default app;
@@ -0,0 +1,58 @@
+/**
+ * Audit Log Schemas
+ */
+import { z } from '@hono/zod-openapi';
+import { AUDIT_ACTIONS, AUDIT_ACTOR_TYPES } from '../../constants/audit';
+
+export const AuditActionSchema = z.enum(AUDIT_ACTIONS).openapi('AuditAction');
+
+export const AuditEventSchema = z
+  .object({
+    id: z.number().int(),
+    actorType: z.enum(AUDIT_ACTOR_TYPES),
+    actorId: z.string().nullable(),
+    action: AuditActionSchema,
+    targetType: z.string().nullable(),
+    targetId: z.string().nullable(),
+    ip: z.string().nullable(),
+    userAgent: z.string().nullable(),
+    metadata: z.record(z.string(), z.unknown()).nullable(),
+    createdAt: z.number().int(),
+  })
+  .openapi('AuditEvent');
+
+// Filters shared by the list and the export
+const AuditEventFilterSchema = z.object({
+  action: AuditActionSchema.optional(),
+  actorId: z.string().min(1).optional(),
+  targetType: z.string().min(1).optional(),
+  targetId: z.string().min(1).optional(),
+  since: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .openapi({ description: 'Unix seconds (inclusive)' }),
+  until: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .openapi({ description: 'Unix seconds (exclusive)' }),
+});
+
+export const AuditLogQuerySchema = AuditEventFilterSchema.extend({
+  cursor: z.string().optional().openapi({ description: '`nextCursor` of the previous page' }),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export const AuditLogResponseSchema = z
+  .object({
+    events: z.array(AuditEventSchema),
+    nextCursor: z.string().nullable(),
+  })
+  .openapi('AuditLogResponse');
+
+export const AuditLogExportQuerySchema = AuditEventFilterSchema.extend({
+  format: z.enum(['csv', 'ndjson']).default('csv'),
+});
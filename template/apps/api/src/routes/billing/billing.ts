@@ -1,375 +1,378 @@
 /**
  * Billing API Routes
- * Stripe Checkout, Customer Portal, Subscription Management
+ * Checkout, Customer Portal, Subscription Management
+ * Provider-independent: billing operations go through `c.get('billing')`.
  */
-import { Hono } from 'hono';
-import Stripe from 'stripe';
-import type { Env } from '../../types/env';
-import type { Variables } from '../../middleware/auth';
-import { PLAN_LIMITS, type PlanType } from '../../constants/plans';
-import { getSubscriptionPlanType } from '../../utils/stripe-plan';
-
-const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+import { createRoute } from '@hono/zod-openapi';
+import { requirePermission } from '../../middleware/permissions';
+import { rateLimit } from '../../middleware/rate-limit';
+import { NotFoundError, UnauthorizedError, ValidationError } from '../../utils/errors';
+import {
+  LIMIT_TYPES,
+  LIMIT_USAGE_METRIC,
+  getPlanTypeForPrice,
+  type LimitType,
+} from '../../constants/plans';
+import { getSubscriptionState, reconcileSubscriptionState } from '../../utils/billing-plan';
+import { recordAuditEvent } from '../../utils/audit';
+import { getOrganizationEntitlements } from '../../utils/entitlements';
+import { createRouter, errorResponses, jsonBody, jsonResponse } from '../../utils/openapi';
+import {
+  CheckoutRequestSchema,
+  CheckoutResponseSchema,
+  CustomerSessionResponseSchema,
+  InvoiceListResponseSchema,
+  PortalResponseSchema,
+  SubscriptionResponseSchema,
+  SyncResponseSchema,
+  UsageResponseSchema,
+} from './schemas';
+
+const app = createRouter();
 
 /**
- * Get Clerk organization info
+ * GET /api/billing/subscription
+ * Get current subscription info
  */
-async function getClerkOrganization(
-  orgId: string,
-  clerkSecretKey: string,
-): Promise<{ name: string } | null> {
-  try {
-    const response = await fetch(`https://api.clerk.com/v1/organizations/${orgId}`, {
-      headers: {
-        Authorization: `Bearer ${clerkSecretKey}`,
-      },
-    });
-    if (response.ok) {
-      return await response.json() as { name: string };
-    }
-  } catch (error) {
-    console.error('Failed to fetch Clerk organization:', error);
+const getSubscriptionRoute = createRoute({
+  method: 'get',
+  path: '/subscription',
+  tags: ['Billing'],
+  middleware: [requirePermission('org:billing:read')] as const,
+  responses: {
+    200: jsonResponse(SubscriptionResponseSchema, 'Current subscription'),
+    ...errorResponses(401, 403, 429, 502),
+  },
+});
+
+app.openapi(getSubscriptionRoute, async (c) => {
+  const userId = c.get('userId');
+  const orgId = c.get('orgId') || userId;
+
+  if (!orgId) {
+    throw new UnauthorizedError();
   }
-  return null;
-}
 
-/**
- * Get Clerk user info
- */
-async function getClerkUser(
-  userId: string,
-  clerkSecretKey: string,
-): Promise<{ email_addresses: Array<{ email_address: string }>; first_name?: string; last_name?: string } | null> {
-  try {
-    const response = await fetch(`https://api.clerk.com/v1/users/${userId}`, {
-      headers: {
-        Authorization: `Bearer ${clerkSecretKey}`,
+  const billing = c.get('billing');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const { stripeCustomerId: customerId } = await stub.getSettings();
+
+  if (!customerId) {
+    return c.json(
+      {
+        planType: 'FREE' as const,
+        hasCustomer: false,
+        subscription: null,
       },
-    });
-    if (response.ok) {
-      return await response.json() as { email_addresses: Array<{ email_address: string }>; first_name?: string; last_name?: string };
-    }
-  } catch (error) {
-    console.error('Failed to fetch Clerk user:', error);
+      200,
+    );
   }
-  return null;
-}
+
+  const state = await getSubscriptionState(billing, stub, customerId);
+
+  return c.json(
+    {
+      planType: state.planType,
+      hasCustomer: true,
+      customerId,
+      subscription: state.subscriptionId ? {
+        id: state.subscriptionId,
+        status: state.status,
+        currentPeriodEnd: state.currentPeriodEnd,
+        cancelAtPeriodEnd: state.cancelAtPeriodEnd,
+      } : null,
+    },
+    200,
+  );
+});
 
 /**
- * Get or create Stripe customer for organization
+ * POST /api/billing/customer-session
+ * Create Customer Session for the Pricing Table
  */
-async function getOrCreateStripeCustomer(
-  stripe: Stripe,
-  stub: any,
-  orgId: string,
-  userId: string,
-  clerkSecretKey?: string,
-): Promise<string> {
-  // Check existing customer ID
-  const existingOrg = (await stub.query(
-    `SELECT stripe_customer_id FROM organization_settings WHERE id = 1`,
-  )) as Array<{ stripe_customer_id: string | null }>;
-
-  if (existingOrg.length > 0 && existingOrg[0].stripe_customer_id) {
-    return existingOrg[0].stripe_customer_id;
-  }
+const createCustomerSessionRoute = createRoute({
+  method: 'post',
+  path: '/customer-session',
+  tags: ['Billing'],
+  middleware: [requirePermission('org:billing:manage'), rateLimit('billing')] as const,
+  responses: {
+    200: jsonResponse(CustomerSessionResponseSchema, 'Customer session for the pricing table'),
+    ...errorResponses(401, 403, 429, 502),
+  },
+});
+
+app.openapi(createCustomerSessionRoute, async (c) => {
+  const userId = c.get('userId');
+  const orgId = c.get('orgId') || userId;
 
-  // Get customer name and email
-  let customerName = orgId;
-  let customerEmail: string | undefined;
-
-  if (clerkSecretKey) {
-    if (orgId === userId) {
-      // Personal account
-      const user = await getClerkUser(userId, clerkSecretKey);
-      if (user) {
-        customerEmail = user.email_addresses[0]?.email_address;
-        const fullName = [user.first_name, user.last_name].filter(Boolean).join(' ');
-        customerName = fullName || customerEmail || orgId;
-      }
-    } else {
-      // Organization account
-      const org = await getClerkOrganization(orgId, clerkSecretKey);
-      if (org?.name) {
-        customerName = org.name;
-      }
-    }
+  if (!orgId) {
+    throw new UnauthorizedError();
   }
 
-  // Create new Stripe customer
-  const customer = await stripe.customers.create({
-    name: customerName,
-    email: customerEmail,
-    metadata: {
-      organization_id: orgId,
-      user_id: userId,
-    },
+  const billing = c.get('billing');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const customerId = await stub.getOrCreateStripeCustomer(orgId, userId);
+
+  const { clientSecret } = await billing.createCustomerSession(customerId);
+
+  await recordAuditEvent(c, {
+    action: 'billing.customer_session_created',
+    target: { type: 'customer', id: customerId },
   });
 
-  // Save customer ID to DO
-  await stub.query(
-    `UPDATE organization_settings SET stripe_customer_id = ? WHERE id = 1`,
-    [customer.id],
+  return c.json(
+    {
+      clientSecret,
+      customerId,
+    },
+    200,
   );
-
-  return customer.id;
-}
+});
 
 /**
- * GET /api/billing/subscription
- * Get current subscription info
+ * POST /api/billing/checkout
+ * Create a hosted checkout session for a catalog price
+ * (alternative to the pricing table)
  */
-app.get('/subscription', async (c) => {
+const createCheckoutSessionRoute = createRoute({
+  method: 'post',
+  path: '/checkout',
+  tags: ['Billing'],
+  middleware: [requirePermission('org:billing:manage'), rateLimit('billing')] as const,
+  request: {
+    body: jsonBody(CheckoutRequestSchema),
+  },
+  responses: {
+    200: jsonResponse(CheckoutResponseSchema, 'Checkout URL'),
+    ...errorResponses(400, 401, 403, 429, 502),
+  },
+});
+
+app.openapi(createCheckoutSessionRoute, async (c) => {
   const userId = c.get('userId');
   const orgId = c.get('orgId') || userId;
 
   if (!orgId) {
-    return c.json({ error: 'Authentication required' }, 401);
+    throw new UnauthorizedError();
   }
 
-  const stripeSecretKey = c.env.STRIPE_SECRET_KEY;
-  if (!stripeSecretKey) {
-    return c.json({ error: 'Stripe not configured' }, 500);
+  const { priceId } = c.req.valid('json');
+  if (!getPlanTypeForPrice(priceId)) {
+    throw new ValidationError('Unknown price', { details: { priceId } });
   }
 
-  try {
-    const stripe = new Stripe(stripeSecretKey, {
-      apiVersion: '2024-06-20',
-    });
+  const appUrl = c.env.APP_URL || 'http://localhost:5173';
 
-    const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
-    const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+  const billing = c.get('billing');
 
-    const existingOrg = (await stub.query(
-      `SELECT stripe_customer_id FROM organization_settings WHERE id = 1`,
-    )) as Array<{ stripe_customer_id: string | null }>;
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
 
-    if (!existingOrg.length || !existingOrg[0].stripe_customer_id) {
-      return c.json({
-        planType: 'FREE',
-        hasCustomer: false,
-        subscription: null,
-      });
-    }
-
-    const customerId = existingOrg[0].stripe_customer_id;
-    const planType = await getSubscriptionPlanType(stripe, customerId);
-
-    let subscription = null;
-    if (planType !== 'FREE') {
-      const subscriptions = await stripe.subscriptions.list({
-        customer: customerId,
-        status: 'active',
-        limit: 1,
-        expand: ['data.items.data.price.product'],
-      });
-      subscription = subscriptions.data[0] || null;
-    }
-
-    return c.json({
-      planType,
-      hasCustomer: true,
-      customerId,
-      subscription: subscription ? {
-        id: subscription.id,
-        status: subscription.status,
-        currentPeriodEnd: subscription.current_period_end,
-        cancelAtPeriodEnd: subscription.cancel_at_period_end,
-      } : null,
-    });
-  } catch (error) {
-    console.error('Subscription fetch error:', error);
-    return c.json(
-      {
-        error: 'Failed to fetch subscription',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      500,
-    );
-  }
+  const customerId = await stub.getOrCreateStripeCustomer(orgId, userId);
+
+  const { url } = await billing.createCheckoutSession(customerId, {
+    priceId,
+    successUrl: `${appUrl}/dashboard/settings/billing?checkout=success`,
+    cancelUrl: `${appUrl}/dashboard/settings/billing`,
+  });
+
+  await recordAuditEvent(c, {
+    action: 'billing.checkout_started',
+    target: { type: 'customer', id: customerId },
+    metadata: { priceId },
+  });
+
+  return c.json({ url }, 200);
 });
 
 /**
- * POST /api/billing/customer-session
- * Create Stripe Customer Session for Pricing Table
+ * POST /api/billing/sync
+ * Force reconcile the subscription cache with the billing provider
+ * (e.g. right after checkout, before the webhook has arrived)
  */
-app.post('/customer-session', async (c) => {
+const syncSubscriptionRoute = createRoute({
+  method: 'post',
+  path: '/sync',
+  tags: ['Billing'],
+  middleware: [requirePermission('org:billing:read'), rateLimit('billing')] as const,
+  responses: {
+    200: jsonResponse(SyncResponseSchema, 'Reconciled plan'),
+    ...errorResponses(401, 403, 429, 502),
+  },
+});
+
+app.openapi(syncSubscriptionRoute, async (c) => {
   const userId = c.get('userId');
   const orgId = c.get('orgId') || userId;
 
   if (!orgId) {
-    return c.json({ error: 'Authentication required' }, 401);
+    throw new UnauthorizedError();
   }
 
-  const stripeSecretKey = c.env.STRIPE_SECRET_KEY;
-  if (!stripeSecretKey) {
-    return c.json({ error: 'Stripe not configured' }, 500);
-  }
+  const billing = c.get('billing');
 
-  try {
-    const stripe = new Stripe(stripeSecretKey, {
-      apiVersion: '2024-06-20',
-    });
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
 
-    const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
-    const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+  const { stripeCustomerId: customerId } = await stub.getSettings();
 
-    const customerId = await getOrCreateStripeCustomer(
-      stripe,
-      stub,
-      orgId,
-      userId,
-      c.env.CLERK_SECRET_KEY,
-    );
+  if (!customerId) {
+    return c.json({ planType: 'FREE' as const, synced: false }, 200);
+  }
 
-    const customerSession = await stripe.customerSessions.create({
-      customer: customerId,
-      components: {
-        pricing_table: {
-          enabled: true,
-        },
-      },
-    });
+  const state = await reconcileSubscriptionState(billing, stub, customerId);
 
-    return c.json({
-      clientSecret: customerSession.client_secret,
-      customerId,
-    });
-  } catch (error) {
-    console.error('Customer session error:', error);
-    return c.json(
-      {
-        error: 'Failed to create customer session',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      500,
-    );
-  }
+  return c.json({ planType: state.planType, synced: true }, 200);
 });
 
 /**
  * POST /api/billing/portal
- * Create Stripe Customer Portal session
- * Admin only for organizations
+ * Create Customer Portal session
  */
-app.post('/portal', async (c) => {
+const createPortalSessionRoute = createRoute({
+  method: 'post',
+  path: '/portal',
+  tags: ['Billing'],
+  middleware: [requirePermission('org:billing:manage'), rateLimit('billing')] as const,
+  responses: {
+    200: jsonResponse(PortalResponseSchema, 'Customer portal URL'),
+    ...errorResponses(401, 403, 404, 429, 502),
+  },
+});
+
+app.openapi(createPortalSessionRoute, async (c) => {
   const userId = c.get('userId');
   const orgId = c.get('orgId') || userId;
-  const orgRole = c.get('orgRole');
 
   if (!orgId) {
-    return c.json({ error: 'Authentication required' }, 401);
-  }
-
-  // Admin only for organizations
-  if (orgId !== userId && orgRole !== 'org:admin') {
-    return c.json({ error: 'Forbidden: Admin permission required' }, 403);
-  }
-
-  const stripeSecretKey = c.env.STRIPE_SECRET_KEY;
-  if (!stripeSecretKey) {
-    return c.json({ error: 'Stripe not configured' }, 500);
+    throw new UnauthorizedError();
   }
 
   const appUrl = c.env.APP_URL || 'http://localhost:5173';
 
-  try {
-    const stripe = new Stripe(stripeSecretKey, {
-      apiVersion: '2024-06-20',
-    });
+  const billing = c.get('billing');
 
-    const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
-    const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
 
-    const existingOrg = (await stub.query(
-      `SELECT stripe_customer_id FROM organization_settings WHERE id = 1`,
-    )) as Array<{ stripe_customer_id: string | null }>;
+  const { stripeCustomerId: customerId } = await stub.getSettings();
 
-    if (!existingOrg.length || !existingOrg[0].stripe_customer_id) {
-      return c.json({ error: 'No billing account found. Please subscribe first.' }, 404);
-    }
+  if (!customerId) {
+    throw new NotFoundError(
+      'No billing account found. Please subscribe first.',
+      'billing_account_not_found',
+    );
+  }
 
-    const customerId = existingOrg[0].stripe_customer_id;
+  const { url } = await billing.createPortalSession(
+    customerId,
+    `${appUrl}/dashboard/settings/billing`,
+  );
 
-    const portalSession = await stripe.billingPortal.sessions.create({
-      customer: customerId,
-      return_url: `${appUrl}/dashboard/settings/billing`,
-    });
+  await recordAuditEvent(c, {
+    action: 'billing.portal_opened',
+    target: { type: 'customer', id: customerId },
+  });
 
-    return c.json({
-      url: portalSession.url,
-    });
-  } catch (error) {
-    console.error('Portal session error:', error);
-    return c.json(
-      {
-        error: 'Failed to create portal session',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      500,
-    );
-  }
+  return c.json(
+    {
+      url,
+    },
+    200,
+  );
 });
 
 /**
- * GET /api/billing/usage
- * Get usage info for current plan
+ * GET /api/billing/invoices
+ * List recent invoices
  */
-app.get('/usage', async (c) => {
+const listInvoicesRoute = createRoute({
+  method: 'get',
+  path: '/invoices',
+  tags: ['Billing'],
+  middleware: [requirePermission('org:billing:read')] as const,
+  responses: {
+    200: jsonResponse(InvoiceListResponseSchema, 'Most recent invoices first'),
+    ...errorResponses(401, 403, 429, 502),
+  },
+});
+
+app.openapi(listInvoicesRoute, async (c) => {
   const orgId = c.get('orgId') || c.get('userId');
 
   if (!orgId) {
-    return c.json({ error: 'Authentication required' }, 401);
+    throw new UnauthorizedError();
   }
 
-  const stripeSecretKey = c.env.STRIPE_SECRET_KEY;
-  if (!stripeSecretKey) {
-    return c.json({ error: 'Stripe not configured' }, 500);
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const { stripeCustomerId: customerId } = await stub.getSettings();
+
+  if (!customerId) {
+    return c.json({ invoices: [] }, 200);
   }
 
-  try {
-    const stripe = new Stripe(stripeSecretKey, {
-      apiVersion: '2024-06-20',
-    });
+  const invoices = await c.get('billing').listInvoices(customerId);
+  return c.json({ invoices }, 200);
+});
 
-    const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
-    const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+/**
+ * GET /api/billing/usage
+ * Get usage info for current plan
+ */
+const getUsageRoute = createRoute({
+  method: 'get',
+  path: '/usage',
+  tags: ['Billing'],
+  middleware: [requirePermission('org:billing:read')] as const,
+  responses: {
+    200: jsonResponse(UsageResponseSchema, 'Usage against the current plan'),
+    ...errorResponses(401, 403, 429, 502),
+  },
+});
 
-    // Get customer ID
-    const existingOrg = (await stub.query(
-      `SELECT stripe_customer_id FROM organization_settings WHERE id = 1`,
-    )) as Array<{ stripe_customer_id: string | null }>;
+app.openapi(getUsageRoute, async (c) => {
+  const orgId = c.get('orgId') || c.get('userId');
+
+  if (!orgId) {
+    throw new UnauthorizedError();
+  }
 
-    // Get plan type
-    let planType: PlanType = 'FREE';
-    if (existingOrg.length > 0 && existingOrg[0].stripe_customer_id) {
-      planType = await getSubscriptionPlanType(stripe, existingOrg[0].stripe_customer_id);
-    }
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
 
-    const limits = PLAN_LIMITS[planType];
+  const { planType, features, limits } = await getOrganizationEntitlements(
+    c.get('billing'),
+    stub,
+    c.get('planType'),
+  );
+  const usage = await stub.getUsage();
 
-    // TODO: Replace with your actual usage tracking
-    const currentUsage = {
-      items: 0,
-      storage: 0,
-    };
+  const canAddMore = Object.fromEntries(
+    LIMIT_TYPES.map((limit) => [limit, usage[LIMIT_USAGE_METRIC[limit]] < limits[limit]]),
+  ) as Record<LimitType, boolean>;
 
-    return c.json({
+  return c.json(
+    {
       planType,
-      limits,
-      usage: currentUsage,
-      canAddMore: currentUsage.items < limits.maxItems,
-    });
-  } catch (error) {
-    console.error('Usage fetch error:', error);
-    return c.json(
-      {
-        error: 'Failed to fetch usage',
-        details: error instanceof Error ? error.message : 'Unknown error',
+      limits: {
+        // Infinity is not valid JSON
+        maxItems: Number.isFinite(limits.maxItems) ? limits.maxItems : null,
+        maxStorage: Number.isFinite(limits.maxStorage) ? limits.maxStorage : null,
+        features,
       },
-      500,
-    );
-  }
+      usage,
+      canAddMore,
+    },
+    200,
+  );
 });
 
 export default app;
@@ -0,0 +1,96 @@
+/**
+ * Billing API Schemas
+ */
+import { z } from '@hono/zod-openapi';
+import { PLAN_LIMITS, type PlanType } from '../../constants/plans';
+
+export const PlanTypeSchema = z
+  .enum(Object.keys(PLAN_LIMITS) as [PlanType, ...PlanType[]])
+  .openapi('PlanType');
+
+export const SubscriptionResponseSchema = z
+  .object({
+    planType: PlanTypeSchema,
+    hasCustomer: z.boolean(),
+    customerId: z.string().optional(),
+    subscription: z
+      .object({
+        id: z.string(),
+        status: z.string().nullable(),
+        currentPeriodEnd: z.number().int().nullable().openapi({ description: 'Unix seconds' }),
+        cancelAtPeriodEnd: z.boolean(),
+      })
+      .nullable(),
+  })
+  .openapi('SubscriptionResponse');
+
+export const CustomerSessionResponseSchema = z
+  .object({
+    clientSecret: z.string(),
+    customerId: z.string(),
+  })
+  .openapi('CustomerSessionResponse');
+
+export const CheckoutRequestSchema = z
+  .object({
+    priceId: z.string().min(1).openapi({ description: 'A price from PLAN_CATALOG' }),
+  })
+  .openapi('CheckoutRequest');
+
+export const CheckoutResponseSchema = z
+  .object({
+    url: z.string().url(),
+  })
+  .openapi('CheckoutResponse');
+
+export const SyncResponseSchema = z
+  .object({
+    planType: PlanTypeSchema,
+    synced: z.boolean(),
+  })
+  .openapi('SyncResponse');
+
+export const PortalResponseSchema = z
+  .object({
+    url: z.string().url(),
+  })
+  .openapi('PortalResponse');
+
+export const InvoiceSchema = z
+  .object({
+    id: z.string(),
+    number: z.string().nullable(),
+    status: z.string().nullable(),
+    amountDue: z.number().int().openapi({ description: 'Smallest currency unit' }),
+    amountPaid: z.number().int().openapi({ description: 'Smallest currency unit' }),
+    currency: z.string(),
+    created: z.number().int().openapi({ description: 'Unix seconds' }),
+    hostedInvoiceUrl: z.string().nullable(),
+    pdfUrl: z.string().nullable(),
+  })
+  .openapi('Invoice');
+
+export const InvoiceListResponseSchema = z
+  .object({
+    invoices: z.array(InvoiceSchema),
+  })
+  .openapi('InvoiceListResponse');
+
+export const UsageResponseSchema = z
+  .object({
+    planType: PlanTypeSchema,
+    limits: z.object({
+      maxItems: z.number().nullable().openapi({ description: 'null = unlimited' }),
+      maxStorage: z.number().nullable().openapi({ description: 'MB; null = unlimited' }),
+      features: z.array(z.string()),
+    }),
+    usage: z.object({
+      items: z.number(),
+      storage: z.number().openapi({ description: 'MB' }),
+    }),
+    canAddMore: z.object({
+      maxItems: z.boolean(),
+      maxStorage: z.boolean(),
+    }),
+  })
+  .openapi('UsageResponse');
@@ -0,0 +1,201 @@
+/**
+ * Stripe Webhook Route
+ * Keeps the per-organization subscription cache in sync with Stripe, and
+ * emails the organization about billing events that need action.
+ *
+ * Mounted before apiAuth: requests are authenticated by the Stripe
+ * signature header instead of a Clerk session.
+ */
+import { Hono } from 'hono';
+import Stripe from 'stripe';
+import type { Env } from '../../types/env';
+import type { Variables } from '../../middleware/auth';
+import type { OrganizationStorage } from '../../durable-objects/organization-storage';
+import {
+  createStripeClient,
+  fetchSubscriptionState,
+  toSubscriptionState,
+} from '../../utils/stripe-billing';
+import { AppError, ConfigurationError } from '../../utils/errors';
+import { resolveEmailLocale, type EmailContentInput } from '../../emails/templates';
+
+const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Workers have no Node crypto; verify signatures with Web Crypto
+const cryptoProvider = Stripe.createSubtleCryptoProvider();
+
+/**
+ * Resolve the subscription an event refers to
+ * Subscription events carry the object itself; invoice and checkout events
+ * only reference it, so the latest version is fetched from Stripe.
+ */
+async function getEventSubscription(
+  stripe: Stripe,
+  event: Stripe.Event,
+): Promise<Stripe.Subscription | null> {
+  if (event.type.startsWith('customer.subscription.')) {
+    return event.data.object as Stripe.Subscription;
+  }
+
+  let subscriptionRef: string | Stripe.Subscription | null = null;
+  if (event.type.startsWith('invoice.')) {
+    subscriptionRef = (event.data.object as Stripe.Invoice).subscription;
+  } else if (event.type === 'checkout.session.completed') {
+    subscriptionRef = (event.data.object as Stripe.Checkout.Session).subscription;
+  }
+
+  if (!subscriptionRef) return null;
+  const subscriptionId =
+    typeof subscriptionRef === 'string' ? subscriptionRef : subscriptionRef.id;
+  return stripe.subscriptions.retrieve(subscriptionId);
+}
+
+/**
+ * Resolve the Stripe customer (null once deleted)
+ */
+async function getEventCustomer(
+  stripe: Stripe,
+  customer: string | Stripe.Customer | Stripe.DeletedCustomer,
+): Promise<Stripe.Customer | null> {
+  const resolved =
+    typeof customer === 'string' ? await stripe.customers.retrieve(customer) : customer;
+  return resolved.deleted ? null : resolved;
+}
+
+/**
+ * Email the organization's admins about a failed payment or an ending trial
+ * Personal accounts have no members: their customer email is used instead.
+ * Keys are per event subject, so redeliveries do not email twice.
+ */
+async function queueBillingEmail(
+  stub: DurableObjectStub<OrganizationStorage>,
+  event: Stripe.Event,
+  customer: Stripe.Customer,
+): Promise<void> {
+  const settings = await stub.getSettings();
+  const organizationName = settings.name || customer.name || customer.email || 'your organization';
+
+  let email: (EmailContentInput & { key: string }) | null = null;
+  if (event.type === 'invoice.payment_failed') {
+    const invoice = event.data.object;
+    email = {
+      template: 'payment_failed',
+      data: {
+        organizationName,
+        amountDue: invoice.amount_due,
+        currency: invoice.currency,
+        invoiceUrl: invoice.hosted_invoice_url ?? null,
+      },
+      // Stripe retries the payment: one email per failed attempt
+      key: `payment_failed:${invoice.id}:${invoice.attempt_count}`,
+    };
+  } else if (event.type === 'customer.subscription.trial_will_end') {
+    const subscription = event.data.object;
+    if (!subscription.trial_end) return;
+    email = {
+      template: 'trial_ending',
+      data: { organizationName, trialEndsAt: subscription.trial_end },
+      key: `trial_ending:${subscription.id}:${subscription.trial_end}`,
+    };
+  }
+  if (!email) return;
+
+  const admins = (await stub.listMembers())
+    .filter((member) => member.role === 'org:admin' && member.email)
+    .map((member) => member.email as string);
+  const recipients = admins.length ? admins : customer.email ? [customer.email] : [];
+  if (!recipients.length) {
+    console.warn(`Stripe event ${event.id}: no email recipient for ${customer.id}`);
+    return;
+  }
+
+  await stub.queueEmail({
+    ...email,
+    locale: resolveEmailLocale(customer.preferred_locales ?? []),
+    recipients,
+  });
+}
+
+/**
+ * Apply a verified Stripe event to the subscription cache (and queue the
+ * emails it calls for)
+ */
+export async function handleStripeEvent(
+  stripe: Stripe,
+  env: Env,
+  event: Stripe.Event,
+): Promise<void> {
+  const subscription = await getEventSubscription(stripe, event);
+  if (!subscription) return;
+
+  const customer = await getEventCustomer(stripe, subscription.customer);
+  const orgId = customer?.metadata?.organization_id;
+  if (!customer || !orgId) {
+    console.warn(`Stripe event ${event.id}: customer has no organization_id, skipping`);
+    return;
+  }
+
+  const doId = env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = env.ORGANIZATION_STORAGE.get(doId);
+
+  // When the event is about a different subscription than the cached one
+  // (upgrade, a second subscription), let Stripe decide which one is primary
+  const cached = await stub.getSubscriptionState();
+  const state =
+    cached?.subscriptionId && cached.subscriptionId !== subscription.id
+      ? await fetchSubscriptionState(stripe, customer.id)
+      : toSubscriptionState(subscription);
+
+  const applied = await stub.saveSubscriptionState(state, event.created);
+  if (!applied) {
+    console.log(`Stripe event ${event.id}: older than cached state, skipping`);
+  }
+
+  await queueBillingEmail(stub, event, customer);
+}
+
+/**
+ * POST /api/billing/webhook
+ * Receive Stripe webhook events
+ */
+app.post('/', async (c) => {
+  const stripeSecretKey = c.env.STRIPE_SECRET_KEY;
+  const webhookSecret = c.env.STRIPE_WEBHOOK_SECRET;
+  if (!stripeSecretKey || !webhookSecret) {
+    throw new ConfigurationError('STRIPE_SECRET_KEY or STRIPE_WEBHOOK_SECRET is not configured');
+  }
+
+  const signature = c.req.header('stripe-signature');
+  if (!signature) {
+    throw new AppError(400, 'webhook_signature_invalid', 'Missing Stripe signature');
+  }
+
+  const stripe = createStripeClient(stripeSecretKey);
+
+  // Signature is computed over the raw body, so read it as text
+  const payload = await c.req.text();
+
+  let event: Stripe.Event;
+  try {
+    event = await stripe.webhooks.constructEventAsync(
+      payload,
+      signature,
+      webhookSecret,
+      undefined,
+      cryptoProvider,
+    );
+  } catch (error) {
+    throw new AppError(400, 'webhook_signature_invalid', 'Invalid signature', { cause: error });
+  }
+
+  try {
+    await handleStripeEvent(stripe, c.env, event);
+  } catch (error) {
+    // The error response (non-2xx) makes Stripe retry the delivery
+    console.error(`Stripe webhook ${event.type} (${event.id}) failed`);
+    throw error;
+  }
+  return c.json({ received: true });
+});
+
+export default app;
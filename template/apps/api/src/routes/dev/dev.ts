@@ -0,0 +1,122 @@
+/**
+ * Local Development Routes (DEV_MODE=local)
+ * Local token issuer and billing simulation for offline development.
+ *
+ * Mounted before apiAuth and unauthenticated: every route answers 404
+ * unless DEV_MODE=local (which is refused in production). Hidden from the
+ * OpenAPI document.
+ */
+import { createRoute } from '@hono/zod-openapi';
+import { LOCAL_USERS, getLocalMemberships } from '../../constants/dev-seed';
+import {
+  getLocalJwks,
+  isLocalDevMode,
+  LocalSessionError,
+  signLocalSessionToken,
+} from '../../utils/local-auth';
+import { simulateSubscription } from '../../utils/local-billing';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { createRouter, jsonBody, jsonResponse } from '../../utils/openapi';
+import {
+  LocalTokenRequestSchema,
+  LocalTokenResponseSchema,
+  LocalUsersResponseSchema,
+  SimulateSubscriptionRequestSchema,
+  SimulateSubscriptionResponseSchema,
+} from './schemas';
+
+const app = createRouter();
+
+app.use('*', async (c, next) => {
+  if (!isLocalDevMode(c.env)) {
+    throw new NotFoundError();
+  }
+  await next();
+});
+
+/**
+ * GET /api/dev/.well-known/jwks.json
+ * Public keys of the local token issuer
+ */
+app.get('/.well-known/jwks.json', async (c) => {
+  return c.json(await getLocalJwks());
+});
+
+/**
+ * GET /api/dev/users
+ * Seeded users and their organization memberships (dev sign-in picker)
+ */
+const listUsersRoute = createRoute({
+  method: 'get',
+  path: '/users',
+  hide: true,
+  responses: {
+    200: jsonResponse(LocalUsersResponseSchema, 'Seeded users'),
+  },
+});
+
+app.openapi(listUsersRoute, (c) => {
+  const users = LOCAL_USERS.map((user) => ({
+    ...user,
+    memberships: getLocalMemberships(user.id).map(({ organization, role }) => ({
+      organization: { id: organization.id, name: organization.name, slug: organization.slug },
+      role,
+    })),
+  }));
+  return c.json({ users }, 200);
+});
+
+/**
+ * POST /api/dev/token
+ * Issue a session token for a seeded user
+ */
+const createTokenRoute = createRoute({
+  method: 'post',
+  path: '/token',
+  hide: true,
+  request: {
+    body: jsonBody(LocalTokenRequestSchema),
+  },
+  responses: {
+    200: jsonResponse(LocalTokenResponseSchema, 'Session token'),
+  },
+});
+
+app.openapi(createTokenRoute, async (c) => {
+  const { userId, orgId = null } = c.req.valid('json');
+
+  try {
+    return c.json(await signLocalSessionToken(userId, orgId), 200);
+  } catch (error) {
+    if (error instanceof LocalSessionError) {
+      throw new ValidationError(error.message);
+    }
+    throw error;
+  }
+});
+
+/**
+ * POST /api/dev/billing/subscription
+ * Change an organization's simulated subscription and deliver (or skip)
+ * the matching webhook
+ */
+const simulateSubscriptionRoute = createRoute({
+  method: 'post',
+  path: '/billing/subscription',
+  hide: true,
+  request: {
+    body: jsonBody(SimulateSubscriptionRequestSchema),
+  },
+  responses: {
+    200: jsonResponse(SimulateSubscriptionResponseSchema, 'Simulated subscription state'),
+  },
+});
+
+app.openapi(simulateSubscriptionRoute, async (c) => {
+  const { orgId, ...input } = c.req.valid('json');
+
+  const result = await simulateSubscription(c.env, orgId, input);
+  return c.json(result, 200);
+});
+
+export default app;
@@ -0,0 +1,69 @@
+/**
+ * Local Development Schemas (DEV_MODE=local)
+ */
+import { z } from '@hono/zod-openapi';
+import {
+  PLAN_CATALOG,
+  SUBSCRIPTION_STATUS_ENTITLEMENT,
+  type PaidPlanType,
+  type SubscriptionStatus,
+} from '../../constants/plans';
+import { PlanTypeSchema } from '../billing/schemas';
+
+export const LocalUsersResponseSchema = z.object({
+  users: z.array(
+    z.object({
+      id: z.string(),
+      firstName: z.string(),
+      lastName: z.string(),
+      email: z.string(),
+      memberships: z.array(
+        z.object({
+          organization: z.object({
+            id: z.string(),
+            name: z.string(),
+            slug: z.string(),
+          }),
+          role: z.string(),
+        }),
+      ),
+    }),
+  ),
+});
+
+export const LocalTokenRequestSchema = z.object({
+  userId: z.string(),
+  // null or omitted: personal account
+  orgId: z.string().nullable().optional(),
+});
+
+export const LocalTokenResponseSchema = z.object({
+  token: z.string(),
+  expiresAt: z.number().int(),
+});
+
+export const SimulateSubscriptionRequestSchema = z.object({
+  orgId: z.string(),
+  // null cancels and removes the subscription
+  planType: z.enum(Object.keys(PLAN_CATALOG) as [PaidPlanType, ...PaidPlanType[]]).nullable(),
+  status: z
+    .enum(
+      Object.keys(SUBSCRIPTION_STATUS_ENTITLEMENT) as [SubscriptionStatus, ...SubscriptionStatus[]],
+    )
+    .optional(),
+  cancelAtPeriodEnd: z.boolean().optional(),
+  // false simulates a missed webhook (POST /api/billing/sync picks it up)
+  deliverWebhook: z.boolean().optional(),
+});
+
+export const SimulateSubscriptionResponseSchema = z.object({
+  state: z.object({
+    subscriptionId: z.string().nullable(),
+    planType: PlanTypeSchema,
+    status: z.string().nullable(),
+    priceId: z.string().nullable(),
+    currentPeriodEnd: z.number().int().nullable(),
+    cancelAtPeriodEnd: z.boolean(),
+  }),
+  webhookDelivered: z.boolean(),
+});
@@ -0,0 +1,63 @@
+/**
+ * Entitlements API Routes
+ * Features and limits of the current organization (plan + feature overrides)
+ */
+import { createRoute } from '@hono/zod-openapi';
+import { getOrganizationEntitlements } from '../../utils/entitlements';
+import { UnauthorizedError } from '../../utils/errors';
+import { createRouter, errorResponses, jsonResponse } from '../../utils/openapi';
+import { EntitlementsResponseSchema } from './schemas';
+
+const app = createRouter();
+
+/**
+ * GET /api/entitlements
+ * Resolved features and limits (readable by every member, for feature gates)
+ */
+const getEntitlementsRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['Entitlements'],
+  responses: {
+    200: jsonResponse(EntitlementsResponseSchema, 'Entitlements of the organization'),
+    ...errorResponses(401, 429, 502),
+  },
+});
+
+app.openapi(getEntitlementsRoute, async (c) => {
+  const orgId = c.get('orgId') || c.get('userId');
+
+  if (!orgId) {
+    throw new UnauthorizedError();
+  }
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const { planType, features, limits, overrides } = await getOrganizationEntitlements(
+    c.get('billing'),
+    stub,
+    c.get('planType'),
+  );
+
+  return c.json(
+    {
+      planType,
+      features,
+      limits: {
+        // Infinity is not valid JSON
+        maxItems: Number.isFinite(limits.maxItems) ? limits.maxItems : null,
+        maxStorage: Number.isFinite(limits.maxStorage) ? limits.maxStorage : null,
+      },
+      overrides: overrides.map(({ feature, enabled, reason, expiresAt }) => ({
+        feature,
+        enabled,
+        reason,
+        expiresAt,
+      })),
+    },
+    200,
+  );
+});
+
+export default app;
@@ -0,0 +1,29 @@
+/**
+ * Entitlements API Schemas
+ */
+import { z } from '@hono/zod-openapi';
+import { FEATURES } from '../../constants/plans';
+import { PlanTypeSchema } from '../billing/schemas';
+
+export const FeatureSchema = z.enum(FEATURES).openapi('Feature');
+
+export const FeatureOverrideSchema = z
+  .object({
+    feature: FeatureSchema,
+    enabled: z.boolean().openapi({ description: 'true = granted, false = revoked' }),
+    reason: z.string().nullable(),
+    expiresAt: z.number().int().nullable().openapi({ description: 'Unix seconds; null = permanent' }),
+  })
+  .openapi('FeatureOverride');
+
+export const EntitlementsResponseSchema = z
+  .object({
+    planType: PlanTypeSchema,
+    features: z.array(FeatureSchema).openapi({ description: 'Plan features with overrides applied' }),
+    limits: z.object({
+      maxItems: z.number().nullable().openapi({ description: 'null = unlimited' }),
+      maxStorage: z.number().nullable().openapi({ description: 'MB; null = unlimited' }),
+    }),
+    overrides: z.array(FeatureOverrideSchema),
+  })
+  .openapi('EntitlementsResponse');
@@ -0,0 +1,414 @@
+/**
+ * Internal API Routes
+ * Service-to-service endpoints authenticated with internal tokens (internalAuth),
+ * not Clerk sessions.
+ */
+import { createRoute, z } from '@hono/zod-openapi';
+import { internalAuth } from '../../middleware/auth';
+import { requireOrgToken, requireScope } from '../../middleware/permissions';
+import { recordAuditEvent } from '../../utils/audit';
+import { importOrganizationArchive } from '../../utils/org-archive';
+import { createStripeClient } from '../../utils/stripe-billing';
+import { repairDuplicateCustomers } from '../../utils/stripe-customer';
+import {
+  decodeRegistryCursor,
+  encodeRegistryCursor,
+  getOrganizationRegistry,
+} from '../../utils/organization-registry';
+import { ConfigurationError, NotFoundError, ValidationError } from '../../utils/errors';
+import { createRouter, jsonBody, jsonResponse } from '../../utils/openapi';
+import { FeatureOverrideSchema } from '../entitlements/schemas';
+import { DeletedResponseSchema } from '../items/schemas';
+import {
+  CronRunListQuerySchema,
+  CronRunListResponseSchema,
+  CustomerRepairQuerySchema,
+  CustomerRepairResponseSchema,
+  EmailListQuerySchema,
+  EmailListResponseSchema,
+  FeatureParamSchema,
+  ImportResponseSchema,
+  JobListQuerySchema,
+  JobListResponseSchema,
+  RegistryListQuerySchema,
+  RegistryListResponseSchema,
+  RegistryOrgIdParamSchema,
+  RegisteredOrganizationSchema,
+  RegistryStatsResponseSchema,
+  SchemaVersionResponseSchema,
+  SetFeatureOverrideRequestSchema,
+} from './schemas';
+
+// zod-validated like the public API, but every route is hidden from the OpenAPI document
+const app = createRouter();
+
+app.use('*', internalAuth);
+
+/**
+ * GET /api/internal/organizations/:orgId/schema-version
+ * Get the OrganizationStorage schema version of an organization
+ */
+const getSchemaVersionRoute = createRoute({
+  method: 'get',
+  path: '/organizations/{orgId}/schema-version',
+  hide: true,
+  middleware: [requireScope('internal:schema:read'), requireOrgToken] as const,
+  request: {
+    params: RegistryOrgIdParamSchema,
+  },
+  responses: {
+    200: jsonResponse(SchemaVersionResponseSchema, 'Schema version'),
+  },
+});
+
+app.openapi(getSchemaVersionRoute, async (c) => {
+  const { orgId } = c.req.valid('param');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const schemaVersion = await stub.getSchemaVersion();
+  return c.json({ orgId, ...schemaVersion }, 200);
+});
+
+/**
+ * POST /api/internal/organizations/:orgId/stripe-customers/repair
+ * Find and merge duplicate Stripe customers of an organization
+ * Dry run unless `?dryRun=false`
+ */
+const repairStripeCustomersRoute = createRoute({
+  method: 'post',
+  path: '/organizations/{orgId}/stripe-customers/repair',
+  hide: true,
+  middleware: [requireScope('internal:billing:repair'), requireOrgToken] as const,
+  request: {
+    params: RegistryOrgIdParamSchema,
+    query: CustomerRepairQuerySchema,
+  },
+  responses: {
+    200: jsonResponse(CustomerRepairResponseSchema, 'Duplicate customers found or merged'),
+  },
+});
+
+app.openapi(repairStripeCustomersRoute, async (c) => {
+  const { orgId } = c.req.valid('param');
+
+  const stripeSecretKey = c.env.STRIPE_SECRET_KEY;
+  if (!stripeSecretKey) {
+    throw new ConfigurationError('STRIPE_SECRET_KEY is not configured');
+  }
+
+  const stripe = createStripeClient(stripeSecretKey);
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const result = await repairDuplicateCustomers(stripe, stub, orgId, {
+    dryRun: c.req.valid('query').dryRun,
+  });
+  return c.json(result, 200);
+});
+
+/**
+ * PUT /api/internal/organizations/:orgId/feature-overrides/:feature
+ * Grant or revoke a feature regardless of plan (enterprise deals, betas)
+ */
+const setFeatureOverrideRoute = createRoute({
+  method: 'put',
+  path: '/organizations/{orgId}/feature-overrides/{feature}',
+  hide: true,
+  middleware: [requireScope('internal:features:write'), requireOrgToken] as const,
+  request: {
+    params: FeatureParamSchema,
+    body: jsonBody(SetFeatureOverrideRequestSchema),
+  },
+  responses: {
+    200: jsonResponse(FeatureOverrideSchema, 'Saved override'),
+  },
+});
+
+app.openapi(setFeatureOverrideRoute, async (c) => {
+  const { orgId, feature } = c.req.valid('param');
+
+  const { enabled, reason = null, expiresAt = null } = c.req.valid('json');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const override = await stub.setFeatureOverride({
+    feature,
+    enabled,
+    reason,
+    expiresAt,
+    updatedBy: c.get('userId'),
+  });
+
+  await recordAuditEvent(c, {
+    action: 'feature_override.set',
+    target: { type: 'feature', id: feature },
+    metadata: { enabled, reason, expiresAt },
+  });
+
+  return c.json(
+    {
+      feature: override.feature,
+      enabled: override.enabled,
+      reason: override.reason,
+      expiresAt: override.expiresAt,
+    },
+    200,
+  );
+});
+
+/**
+ * DELETE /api/internal/organizations/:orgId/feature-overrides/:feature
+ * Remove a feature override (the plan applies again)
+ */
+const deleteFeatureOverrideRoute = createRoute({
+  method: 'delete',
+  path: '/organizations/{orgId}/feature-overrides/{feature}',
+  hide: true,
+  middleware: [requireScope('internal:features:write'), requireOrgToken] as const,
+  request: {
+    params: FeatureParamSchema,
+  },
+  responses: {
+    200: jsonResponse(DeletedResponseSchema, 'Override removed'),
+  },
+});
+
+app.openapi(deleteFeatureOverrideRoute, async (c) => {
+  const { orgId, feature } = c.req.valid('param');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const deleted = await stub.deleteFeatureOverride(feature);
+  if (!deleted) {
+    throw new NotFoundError('Feature override not found');
+  }
+
+  await recordAuditEvent(c, {
+    action: 'feature_override.deleted',
+    target: { type: 'feature', id: feature },
+  });
+
+  return c.json({ deleted: true as const }, 200);
+});
+
+/**
+ * POST /api/internal/organizations/:orgId/import
+ * Restore an archive from POST /api/org/export into a fresh organization
+ * Body: the archive as downloaded (`Content-Type: application/gzip`) or plain
+ * NDJSON. Safe to retry with the same archive if an import was interrupted.
+ */
+const importOrganizationRoute = createRoute({
+  method: 'post',
+  path: '/organizations/{orgId}/import',
+  hide: true,
+  middleware: [requireScope('internal:data:import'), requireOrgToken] as const,
+  request: {
+    params: RegistryOrgIdParamSchema,
+    // Read as a stream by the handler, not validated
+    body: {
+      content: {
+        'application/gzip': { schema: z.string().openapi({ format: 'binary' }) },
+        'application/x-ndjson': { schema: z.string() },
+      },
+    },
+  },
+  responses: {
+    200: jsonResponse(ImportResponseSchema, 'Imported rows'),
+  },
+});
+
+app.openapi(importOrganizationRoute, async (c) => {
+  const { orgId } = c.req.valid('param');
+
+  const body = c.req.raw.body;
+  if (!body) {
+    throw new ValidationError('Archive is required');
+  }
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const gzipped = c.req.header('content-type')?.startsWith('application/gzip');
+  const result = await importOrganizationArchive(
+    stub,
+    gzipped ? body.pipeThrough(new DecompressionStream('gzip')) : body,
+  );
+
+  await recordAuditEvent(c, {
+    action: 'organization.imported',
+    target: { type: 'organization', id: orgId },
+    metadata: {
+      sourceOrgId: result.source.orgId,
+      exportedAt: result.source.exportedAt,
+      skippedTables: result.skippedTables,
+    },
+  });
+
+  return c.json({ orgId, ...result }, 200);
+});
+
+/**
+ * GET /api/internal/organizations/:orgId/jobs
+ * Queued and finished jobs of an organization, newest first
+ * Finished jobs are kept for 30 days.
+ */
+const listJobsRoute = createRoute({
+  method: 'get',
+  path: '/organizations/{orgId}/jobs',
+  hide: true,
+  middleware: [requireScope('internal:jobs:read'), requireOrgToken] as const,
+  request: {
+    params: RegistryOrgIdParamSchema,
+    query: JobListQuerySchema,
+  },
+  responses: {
+    200: jsonResponse(JobListResponseSchema, 'Jobs'),
+  },
+});
+
+app.openapi(listJobsRoute, async (c) => {
+  const { orgId } = c.req.valid('param');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const jobs = await stub.listJobs(c.req.valid('query'));
+  return c.json({ jobs }, 200);
+});
+
+/**
+ * GET /api/internal/organizations/:orgId/emails
+ * Outbox of an organization, newest first (`?status=failed` for undelivered emails)
+ */
+const listEmailsRoute = createRoute({
+  method: 'get',
+  path: '/organizations/{orgId}/emails',
+  hide: true,
+  middleware: [requireScope('internal:emails:read'), requireOrgToken] as const,
+  request: {
+    params: RegistryOrgIdParamSchema,
+    query: EmailListQuerySchema,
+  },
+  responses: {
+    200: jsonResponse(EmailListResponseSchema, 'Outbox emails'),
+  },
+});
+
+app.openapi(listEmailsRoute, async (c) => {
+  const { orgId } = c.req.valid('param');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const emails = await stub.listEmails(c.req.valid('query'));
+  return c.json({ emails }, 200);
+});
+
+/**
+ * GET /api/internal/registry/organizations
+ * List organizations across tenants, newest first
+ * `?search=` matches ID, name or slug; pass `nextCursor` as `?cursor=` for the next page.
+ */
+const listRegisteredOrganizationsRoute = createRoute({
+  method: 'get',
+  path: '/registry/organizations',
+  hide: true,
+  middleware: [requireScope('internal:registry:read')] as const,
+  request: {
+    query: RegistryListQuerySchema,
+  },
+  responses: {
+    200: jsonResponse(RegistryListResponseSchema, 'Page of organizations'),
+  },
+});
+
+app.openapi(listRegisteredOrganizationsRoute, async (c) => {
+  const { cursor, ...query } = c.req.valid('query');
+
+  const after = cursor ? decodeRegistryCursor(cursor) : null;
+  if (cursor && !after) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  const page = await getOrganizationRegistry(c.env).list({ ...query, after });
+  return c.json(
+    {
+      organizations: page.organizations,
+      nextCursor: page.next ? encodeRegistryCursor(page.next) : null,
+    },
+    200,
+  );
+});
+
+/**
+ * GET /api/internal/registry/organizations/:orgId
+ * Registry entry of one organization
+ */
+const getRegisteredOrganizationRoute = createRoute({
+  method: 'get',
+  path: '/registry/organizations/{orgId}',
+  hide: true,
+  middleware: [requireScope('internal:registry:read')] as const,
+  request: {
+    params: RegistryOrgIdParamSchema,
+  },
+  responses: {
+    200: jsonResponse(RegisteredOrganizationSchema, 'Registered organization'),
+  },
+});
+
+app.openapi(getRegisteredOrganizationRoute, async (c) => {
+  const organization = await getOrganizationRegistry(c.env).get(c.req.valid('param').orgId);
+  if (!organization) {
+    throw new NotFoundError('Organization not registered');
+  }
+  return c.json(organization, 200);
+});
+
+/**
+ * GET /api/internal/registry/stats
+ * Organization counts (total, active, deleted, per plan) and total storage
+ */
+const getRegistryStatsRoute = createRoute({
+  method: 'get',
+  path: '/registry/stats',
+  hide: true,
+  middleware: [requireScope('internal:registry:read')] as const,
+  responses: {
+    200: jsonResponse(RegistryStatsResponseSchema, 'Registry totals'),
+  },
+});
+
+app.openapi(getRegistryStatsRoute, async (c) => {
+  const stats = await getOrganizationRegistry(c.env).getStats();
+  return c.json(stats, 200);
+});
+
+/**
+ * GET /api/internal/cron/runs
+ * Cron job runs across the deployment, newest first (`?job=` filters by name)
+ */
+const listCronRunsRoute = createRoute({
+  method: 'get',
+  path: '/cron/runs',
+  hide: true,
+  middleware: [requireScope('internal:cron:read')] as const,
+  request: {
+    query: CronRunListQuerySchema,
+  },
+  responses: {
+    200: jsonResponse(CronRunListResponseSchema, 'Cron job runs'),
+  },
+});
+
+app.openapi(listCronRunsRoute, async (c) => {
+  const runs = await getOrganizationRegistry(c.env).listCronRuns(c.req.valid('query'));
+  return c.json({ runs }, 200);
+});
+
+export default app;
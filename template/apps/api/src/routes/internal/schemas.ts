@@ -0,0 +1,164 @@
+/**
+ * Internal API Schemas
+ */
+import { z } from '@hono/zod-openapi';
+import { FeatureSchema } from '../entitlements/schemas';
+import { PlanTypeSchema } from '../billing/schemas';
+import { JOB_STATUSES, JOB_TYPES } from '../../constants/jobs';
+import { EMAIL_LOCALES, EMAIL_STATUSES, EMAIL_TEMPLATES } from '../../constants/email';
+
+export const FeatureParamSchema = z.object({
+  orgId: z.string(),
+  feature: FeatureSchema,
+});
+
+export const SetFeatureOverrideRequestSchema = z.object({
+  enabled: z.boolean(),
+  reason: z.string().trim().max(200).nullable().optional(),
+  expiresAt: z.number().int().positive().nullable().optional(),
+});
+
+export const RegistryListQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  search: z.string().trim().min(1).max(100).optional(),
+  planType: PlanTypeSchema.optional(),
+  includeDeleted: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => value === 'true'),
+});
+
+export const RegisteredOrganizationSchema = z.object({
+  orgId: z.string(),
+  name: z.string().nullable(),
+  slug: z.string().nullable(),
+  planType: PlanTypeSchema,
+  storageBytes: z.number().int(),
+  createdAt: z.number().int(),
+  registeredAt: z.number().int(),
+  lastActiveAt: z.number().int().nullable(),
+  deletedAt: z.number().int().nullable(),
+  // Storage purged by offboarding
+  purgedAt: z.number().int().nullable(),
+});
+
+export const RegistryListResponseSchema = z.object({
+  organizations: z.array(RegisteredOrganizationSchema),
+  nextCursor: z.string().nullable(),
+});
+
+export const RegistryOrgIdParamSchema = z.object({
+  orgId: z.string(),
+});
+
+export const RegistryStatsResponseSchema = z.object({
+  total: z.number().int(),
+  active: z.number().int(),
+  activeWindowSeconds: z.number().int(),
+  deleted: z.number().int(),
+  byPlan: z.record(PlanTypeSchema, z.number().int()),
+  storageBytes: z.number().int(),
+});
+
+export const JobListQuerySchema = z.object({
+  status: z.enum(JOB_STATUSES).optional(),
+  type: z.enum(JOB_TYPES).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export const JobSchema = z.object({
+  id: z.number().int(),
+  type: z.enum(JOB_TYPES),
+  payload: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()]))
+    .nullable(),
+  key: z.string().nullable(),
+  status: z.enum(JOB_STATUSES),
+  runAt: z.number().int(),
+  attempts: z.number().int(),
+  maxAttempts: z.number().int(),
+  lastError: z.string().nullable(),
+  createdAt: z.number().int(),
+  startedAt: z.number().int().nullable(),
+  finishedAt: z.number().int().nullable(),
+});
+
+export const JobListResponseSchema = z.object({
+  jobs: z.array(JobSchema),
+});
+
+export const EmailListQuerySchema = z.object({
+  status: z.enum(EMAIL_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export const OutboxEmailSchema = z.object({
+  id: z.number().int(),
+  template: z.enum(EMAIL_TEMPLATES),
+  locale: z.enum(EMAIL_LOCALES),
+  recipient: z.string(),
+  key: z.string(),
+  status: z.enum(EMAIL_STATUSES),
+  attempts: z.number().int(),
+  lastError: z.string().nullable(),
+  messageId: z.string().nullable(),
+  createdAt: z.number().int(),
+  sentAt: z.number().int().nullable(),
+});
+
+export const EmailListResponseSchema = z.object({
+  emails: z.array(OutboxEmailSchema),
+});
+
+export const CronRunListQuerySchema = z.object({
+  job: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export const CronRunSchema = z.object({
+  id: z.number().int(),
+  job: z.string(),
+  cron: z.string(),
+  status: z.enum(['succeeded', 'failed']),
+  attempts: z.number().int(),
+  error: z.string().nullable(),
+  scheduledAt: z.number().int(),
+  startedAt: z.number().int(),
+  finishedAt: z.number().int(),
+});
+
+export const CronRunListResponseSchema = z.object({
+  runs: z.array(CronRunSchema),
+});
+
+export const SchemaVersionResponseSchema = z.object({
+  orgId: z.string(),
+  version: z.string().nullable(),
+  appliedAt: z.number().int().nullable(),
+  applied: z.number().int(),
+  pending: z.array(z.string()),
+});
+
+export const CustomerRepairQuerySchema = z.object({
+  // Dry run unless `false`
+  dryRun: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => value !== 'false'),
+});
+
+export const CustomerRepairResponseSchema = z.object({
+  orgId: z.string(),
+  canonicalCustomerId: z.string().nullable(),
+  deletedCustomerIds: z.array(z.string()),
+  conflictingCustomerIds: z.array(z.string()),
+  dryRun: z.boolean(),
+});
+
+export const ImportResponseSchema = z.object({
+  orgId: z.string(),
+  source: z.object({ orgId: z.string(), exportedAt: z.string() }),
+  rows: z.record(z.string(), z.number().int()),
+  skippedTables: z.array(z.string()),
+});
@@ -0,0 +1,176 @@
+/**
+ * Items API Routes
+ * Example resource counted against PLAN_LIMITS.maxItems and maxStorage
+ */
+import { createRoute } from '@hono/zod-openapi';
+import { enforceLimit, planLimitError } from '../../middleware/limits';
+import { requirePermission } from '../../middleware/permissions';
+import { LIMIT_USAGE_METRIC, PLAN_LIMITS } from '../../constants/plans';
+import { NotFoundError, UnauthorizedError } from '../../utils/errors';
+import { createRouter, errorResponses, jsonBody, jsonResponse } from '../../utils/openapi';
+import {
+  CreateItemRequestSchema,
+  CreateItemResponseSchema,
+  DeletedResponseSchema,
+  ItemIdParamSchema,
+  ItemListResponseSchema,
+  UpdateItemRequestSchema,
+  UpdateItemResponseSchema,
+} from './schemas';
+
+const app = createRouter();
+
+/**
+ * GET /api/items
+ * List items
+ */
+const listItemsRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['Items'],
+  middleware: [requirePermission('org:items:read')] as const,
+  responses: {
+    200: jsonResponse(ItemListResponseSchema, 'Items of the organization'),
+    ...errorResponses(401, 403, 429),
+  },
+});
+
+app.openapi(listItemsRoute, async (c) => {
+  const orgId = c.get('orgId') || c.get('userId');
+
+  if (!orgId) {
+    throw new UnauthorizedError();
+  }
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const items = await stub.listItems();
+  return c.json({ items }, 200);
+});
+
+/**
+ * POST /api/items
+ * Create item (limited by plan)
+ */
+const createItemRoute = createRoute({
+  method: 'post',
+  path: '/',
+  tags: ['Items'],
+  middleware: [
+    requirePermission('org:items:write'),
+    enforceLimit('maxItems'),
+    enforceLimit('maxStorage'),
+  ] as const,
+  request: {
+    body: jsonBody(CreateItemRequestSchema),
+  },
+  responses: {
+    201: jsonResponse(CreateItemResponseSchema, 'Created item'),
+    ...errorResponses(400, 401, 402, 403, 429, 503),
+  },
+});
+
+app.openapi(createItemRoute, async (c) => {
+  const userId = c.get('userId');
+  const orgId = c.get('orgId') || userId;
+  const planType = c.get('planType') ?? 'FREE';
+  const { name } = c.req.valid('json');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const { item, exceeded } = await stub.createItem(
+    { name, createdBy: userId },
+    PLAN_LIMITS[planType],
+  );
+  if (!item) {
+    // Lost a race with a concurrent write
+    const limit = exceeded ?? 'maxItems';
+    const usage = await stub.getUsage();
+    throw planLimitError(limit, planType, usage[LIMIT_USAGE_METRIC[limit]]);
+  }
+
+  return c.json({ item }, 201);
+});
+
+/**
+ * PATCH /api/items/:id
+ * Update item (growth limited by plan storage)
+ */
+const updateItemRoute = createRoute({
+  method: 'patch',
+  path: '/{id}',
+  tags: ['Items'],
+  middleware: [requirePermission('org:items:write'), enforceLimit('maxStorage')] as const,
+  request: {
+    params: ItemIdParamSchema,
+    body: jsonBody(UpdateItemRequestSchema),
+  },
+  responses: {
+    200: jsonResponse(UpdateItemResponseSchema, 'Updated item'),
+    ...errorResponses(400, 401, 402, 403, 404, 429, 503),
+  },
+});
+
+app.openapi(updateItemRoute, async (c) => {
+  const orgId = c.get('orgId') || c.get('userId');
+  const planType = c.get('planType') ?? 'FREE';
+  const { name } = c.req.valid('json');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const { item, exceeded } = await stub.updateItem(
+    c.req.valid('param').id,
+    { name },
+    PLAN_LIMITS[planType],
+  );
+  if (exceeded) {
+    const usage = await stub.getUsage();
+    throw planLimitError(exceeded, planType, usage[LIMIT_USAGE_METRIC[exceeded]]);
+  }
+  if (!item) {
+    throw new NotFoundError('Item not found');
+  }
+
+  return c.json({ item }, 200);
+});
+
+/**
+ * DELETE /api/items/:id
+ * Delete item
+ */
+const deleteItemRoute = createRoute({
+  method: 'delete',
+  path: '/{id}',
+  tags: ['Items'],
+  middleware: [requirePermission('org:items:write')] as const,
+  request: {
+    params: ItemIdParamSchema,
+  },
+  responses: {
+    200: jsonResponse(DeletedResponseSchema, 'Item deleted'),
+    ...errorResponses(401, 403, 404, 429),
+  },
+});
+
+app.openapi(deleteItemRoute, async (c) => {
+  const orgId = c.get('orgId') || c.get('userId');
+
+  if (!orgId) {
+    throw new UnauthorizedError();
+  }
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const deleted = await stub.deleteItem(c.req.valid('param').id);
+  if (!deleted) {
+    throw new NotFoundError('Item not found');
+  }
+
+  return c.json({ deleted: true as const }, 200);
+});
+
+export default app;
@@ -0,0 +1,53 @@
+/**
+ * Items API Schemas
+ */
+import { z } from '@hono/zod-openapi';
+
+export const ItemSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    createdBy: z.string().nullable(),
+    createdAt: z.number().int().openapi({ description: 'Unix seconds' }),
+  })
+  .openapi('Item');
+
+export const ItemListResponseSchema = z
+  .object({
+    items: z.array(ItemSchema),
+  })
+  .openapi('ItemListResponse');
+
+export const CreateItemRequestSchema = z
+  .object({
+    name: z.string().trim().min(1, 'name is required').max(200),
+  })
+  .openapi('CreateItemRequest');
+
+export const CreateItemResponseSchema = z
+  .object({
+    item: ItemSchema,
+  })
+  .openapi('CreateItemResponse');
+
+export const UpdateItemRequestSchema = z
+  .object({
+    name: z.string().trim().min(1, 'name is required').max(200),
+  })
+  .openapi('UpdateItemRequest');
+
+export const UpdateItemResponseSchema = z
+  .object({
+    item: ItemSchema,
+  })
+  .openapi('UpdateItemResponse');
+
+export const ItemIdParamSchema = z.object({
+  id: z.string().openapi({ param: { name: 'id', in: 'path' } }),
+});
+
+export const DeletedResponseSchema = z
+  .object({
+    deleted: z.literal(true),
+  })
+  .openapi('DeletedResponse');
@@ -0,0 +1,168 @@
+/**
+ * Organization Data Routes
+ * Export everything stored for the organization (data portability), and
+ * schedule or cancel its deletion (offboarding)
+ */
+import { createRoute, z } from '@hono/zod-openapi';
+import { requirePermission } from '../../middleware/permissions';
+import { recordAuditEvent } from '../../utils/audit';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+import { createOrganizationArchive } from '../../utils/org-archive';
+import { createRouter, errorResponses, jsonResponse } from '../../utils/openapi';
+import { DeletionStatusSchema, OrgExportQuerySchema } from './schemas';
+
+const app = createRouter();
+
+/**
+ * POST /api/org/export
+ * Download an archive of every table of the organization's storage
+ * Versioned NDJSON (see utils/org-archive.ts), streamed in chunks.
+ */
+const exportOrganizationRoute = createRoute({
+  method: 'post',
+  path: '/export',
+  tags: ['Organization'],
+  middleware: [requirePermission('org:data:export')] as const,
+  request: {
+    query: OrgExportQuerySchema,
+  },
+  responses: {
+    200: {
+      description: 'Organization archive as a file download',
+      content: {
+        'application/gzip': { schema: z.string().openapi({ format: 'binary' }) },
+        'application/x-ndjson': { schema: z.string() },
+      },
+    },
+    ...errorResponses(400, 401, 403, 429),
+  },
+});
+
+app.openapi(exportOrganizationRoute, async (c) => {
+  const orgId = c.get('orgId') || c.get('userId');
+  const { compression } = c.req.valid('query');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const archive = await createOrganizationArchive(stub, orgId);
+
+  await recordAuditEvent(c, {
+    action: 'organization.exported',
+    target: { type: 'organization', id: orgId },
+    metadata: { compression },
+  });
+
+  const filename = `${orgId}-${new Date().toISOString().slice(0, 10)}.ndjson`;
+  if (compression === 'gzip') {
+    return c.body(archive.pipeThrough(new CompressionStream('gzip')), 200, {
+      'Content-Type': 'application/gzip',
+      'Content-Disposition': `attachment; filename="${filename}.gz"`,
+    });
+  }
+  return c.body(archive, 200, {
+    'Content-Type': 'application/x-ndjson',
+    'Content-Disposition': `attachment; filename="${filename}"`,
+  });
+});
+
+/**
+ * GET /api/org/deletion
+ * Scheduled deletion of the organization, if any (shown to every member)
+ */
+const getDeletionStatusRoute = createRoute({
+  method: 'get',
+  path: '/deletion',
+  tags: ['Organization'],
+  responses: {
+    200: jsonResponse(DeletionStatusSchema, 'Deletion status'),
+    ...errorResponses(401, 429),
+  },
+});
+
+app.openapi(getDeletionStatusRoute, async (c) => {
+  const orgId = c.get('orgId') || c.get('userId');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  return c.json(await stub.getDeletionStatus(), 200);
+});
+
+/**
+ * POST /api/org/deletion
+ * Schedule the deletion of the organization's data
+ * Subscriptions are canceled at period end; the data is purged after the
+ * grace period (OFFBOARDING_GRACE_DAYS) unless the deletion is canceled.
+ */
+const scheduleDeletionRoute = createRoute({
+  method: 'post',
+  path: '/deletion',
+  tags: ['Organization'],
+  middleware: [requirePermission('org:organization:delete')] as const,
+  responses: {
+    200: jsonResponse(DeletionStatusSchema, 'Deletion scheduled'),
+    ...errorResponses(401, 403, 409, 429),
+  },
+});
+
+app.openapi(scheduleDeletionRoute, async (c) => {
+  const orgId = c.get('orgId') || c.get('userId');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  const { deletion, created } = await stub.scheduleDeletion({
+    orgId,
+    reason: 'requested',
+    requestedBy: c.get('userId'),
+  });
+  if (!created) {
+    throw new ConflictError('Deletion is already scheduled', {
+      details: { purgeAt: deletion.purgeAt },
+    });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'organization.deletion_scheduled',
+    target: { type: 'organization', id: orgId },
+    metadata: { reason: deletion.reason, purgeAt: deletion.purgeAt },
+  });
+
+  return c.json(await stub.getDeletionStatus(), 200);
+});
+
+/**
+ * DELETE /api/org/deletion
+ * Cancel a scheduled deletion and resume the subscriptions it canceled
+ */
+const cancelDeletionRoute = createRoute({
+  method: 'delete',
+  path: '/deletion',
+  tags: ['Organization'],
+  middleware: [requirePermission('org:organization:delete')] as const,
+  responses: {
+    200: jsonResponse(DeletionStatusSchema, 'Deletion canceled'),
+    ...errorResponses(401, 403, 404, 429),
+  },
+});
+
+app.openapi(cancelDeletionRoute, async (c) => {
+  const orgId = c.get('orgId') || c.get('userId');
+
+  const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+  const stub = c.env.ORGANIZATION_STORAGE.get(doId);
+
+  if (!(await stub.cancelDeletion())) {
+    throw new NotFoundError('No deletion is scheduled');
+  }
+
+  await recordAuditEvent(c, {
+    action: 'organization.deletion_canceled',
+    target: { type: 'organization', id: orgId },
+  });
+
+  return c.json(await stub.getDeletionStatus(), 200);
+});
+
+export default app;
@@ -0,0 +1,36 @@
+/**
+ * Organization Data Schemas
+ */
+import { z } from '@hono/zod-openapi';
+import { DELETION_REASONS } from '../../constants/offboarding';
+
+export const OrgExportQuerySchema = z.object({
+  compression: z
+    .enum(['gzip', 'none'])
+    .default('gzip')
+    .openapi({ description: 'gzip: .ndjson.gz download, none: plain NDJSON' }),
+});
+
+export const ScheduledDeletionSchema = z
+  .object({
+    orgId: z.string(),
+    reason: z.enum(DELETION_REASONS),
+    requestedBy: z.string().nullable(),
+    requestedAt: z.number().int(),
+    purgeAt: z.number().int().openapi({ description: 'When the data is purged (Unix seconds)' }),
+    canceledSubscriptionIds: z.array(z.string()).openapi({
+      description: 'Subscriptions set to cancel by the deletion; resumed if it is canceled',
+    }),
+  })
+  .openapi('ScheduledDeletion');
+
+export const DeletionStatusSchema = z
+  .object({
+    deletion: ScheduledDeletionSchema.nullable(),
+    purgedAt: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: 'Last purge of the organization data' }),
+  })
+  .openapi('DeletionStatus');
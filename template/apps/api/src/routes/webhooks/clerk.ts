@@ -0,0 +1,190 @@
+/**
+ * Clerk Webhook Route
+ * Syncs organizations, members and users into OrganizationStorage, and
+ * schedules the purge of deleted organizations and personal accounts.
+ *
+ * Mounted before apiAuth: requests are authenticated by the Svix
+ * signature headers instead of a Clerk session. Every DO write is keyed by
+ * the Svix message ID, so Clerk retries are applied at most once.
+ */
+import { Hono } from 'hono';
+import { Webhook, WebhookVerificationError } from 'svix';
+import type { Env } from '../../types/env';
+import type { Variables } from '../../middleware/auth';
+import type { ClerkWebhookEvent } from '../../types/clerk-webhooks';
+import type { WebhookEventRef } from '../../durable-objects/organization-storage';
+import type { DeletionReason } from '../../constants/offboarding';
+import { getClerkUser, getClerkUserOrganizationIds } from '../../utils/clerk';
+import { AppError, ConfigurationError } from '../../utils/errors';
+
+const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+function getStub(env: Env, orgId: string) {
+  const doId = env.ORGANIZATION_STORAGE.idFromName(orgId);
+  return env.ORGANIZATION_STORAGE.get(doId);
+}
+
+/**
+ * Schedule the purge of an organization's storage (see OrganizationStorage.scheduleDeletion)
+ */
+async function scheduleDeletion(env: Env, orgId: string, reason: DeletionReason): Promise<void> {
+  const stub = getStub(env, orgId);
+  const { deletion, created } = await stub.scheduleDeletion({ orgId, reason, requestedBy: null });
+  if (created) {
+    await stub.appendAuditEvent({
+      actorType: 'system',
+      actorId: null,
+      action: 'organization.deletion_scheduled',
+      targetType: 'organization',
+      targetId: orgId,
+      metadata: { reason, purgeAt: deletion.purgeAt },
+    });
+  }
+}
+
+/**
+ * Apply a verified Clerk event
+ */
+export async function handleClerkEvent(
+  env: Env,
+  eventId: string,
+  event: ClerkWebhookEvent,
+): Promise<void> {
+  const ref: WebhookEventRef = { id: eventId, source: 'clerk', type: event.type };
+
+  switch (event.type) {
+    case 'organization.created':
+    case 'organization.updated': {
+      const org = event.data;
+      const stub = getStub(env, org.id);
+      await stub.syncOrganizationProfile(ref, {
+        name: org.name,
+        slug: org.slug,
+        clerkUpdatedAt: org.updated_at,
+      });
+
+      if (org.created_by) {
+        const creator = env.CLERK_SECRET_KEY
+          ? await getClerkUser(org.created_by, env.CLERK_SECRET_KEY)
+          : null;
+        await stub.setCreatorIfNotSet(
+          org.created_by,
+          creator?.email_addresses[0]?.email_address,
+        );
+      }
+      return;
+    }
+
+    case 'organization.deleted': {
+      await getStub(env, event.data.id).markOrganizationDeleted(ref);
+      await scheduleDeletion(env, event.data.id, 'organization_deleted');
+      return;
+    }
+
+    case 'organizationMembership.created':
+    case 'organizationMembership.updated': {
+      const membership = event.data;
+      const user = membership.public_user_data;
+      await getStub(env, membership.organization.id).upsertMember(ref, {
+        userId: user.user_id,
+        role: membership.role,
+        email: user.identifier || null,
+        firstName: user.first_name,
+        lastName: user.last_name,
+        imageUrl: user.image_url,
+        clerkUpdatedAt: membership.updated_at,
+      });
+      return;
+    }
+
+    case 'organizationMembership.deleted': {
+      const membership = event.data;
+      await getStub(env, membership.organization.id).removeMember(
+        ref,
+        membership.public_user_data.user_id,
+      );
+      return;
+    }
+
+    case 'user.updated': {
+      const user = event.data;
+      const primaryEmail =
+        user.email_addresses.find((email) => email.id === user.primary_email_address_id)
+          ?.email_address ?? null;
+      const profile = {
+        userId: user.id,
+        email: primaryEmail,
+        firstName: user.first_name,
+        lastName: user.last_name,
+        imageUrl: user.image_url,
+        clerkUpdatedAt: user.updated_at,
+      };
+
+      // Personal account storage is keyed by the user ID
+      const orgIds = [user.id];
+      if (env.CLERK_SECRET_KEY) {
+        orgIds.push(...(await getClerkUserOrganizationIds(user.id, env.CLERK_SECRET_KEY)));
+      }
+      await Promise.all(
+        orgIds.map((orgId) => getStub(env, orgId).updateMemberProfile(ref, profile)),
+      );
+      return;
+    }
+
+    case 'user.deleted': {
+      // Personal account storage is keyed by the user ID; memberships are
+      // removed by their own organizationMembership.deleted events. Users who
+      // never used their personal account have nothing to purge.
+      if (await getStub(env, event.data.id).hasStoredData()) {
+        await scheduleDeletion(env, event.data.id, 'user_deleted');
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * POST /api/webhooks/clerk
+ * Receive Clerk webhook events (delivered by Svix)
+ */
+app.post('/', async (c) => {
+  const webhookSecret = c.env.CLERK_WEBHOOK_SECRET;
+  if (!webhookSecret) {
+    throw new ConfigurationError('CLERK_WEBHOOK_SECRET is not configured');
+  }
+
+  const svixId = c.req.header('svix-id');
+  const svixTimestamp = c.req.header('svix-timestamp');
+  const svixSignature = c.req.header('svix-signature');
+  if (!svixId || !svixTimestamp || !svixSignature) {
+    throw new AppError(400, 'webhook_signature_invalid', 'Missing Svix signature headers');
+  }
+
+  // Signature is computed over the raw body, so read it as text
+  const payload = await c.req.text();
+
+  let event: ClerkWebhookEvent;
+  try {
+    event = new Webhook(webhookSecret).verify(payload, {
+      'svix-id': svixId,
+      'svix-timestamp': svixTimestamp,
+      'svix-signature': svixSignature,
+    }) as ClerkWebhookEvent;
+  } catch (error) {
+    if (error instanceof WebhookVerificationError) {
+      throw new AppError(400, 'webhook_signature_invalid', 'Invalid signature', { cause: error });
+    }
+    throw error;
+  }
+
+  try {
+    await handleClerkEvent(c.env, svixId, event);
+  } catch (error) {
+    // The error response (non-2xx) makes Svix retry the delivery
+    console.error(`Clerk webhook ${event.type} (${svixId}) failed`);
+    throw error;
+  }
+  return c.json({ received: true });
+});
+
+export default app;
@@ -0,0 +1,56 @@
+/**
+ * Clerk Webhook Event Types
+ * Only the fields this API uses; see https://clerk.com/docs/webhooks/overview
+ */
+
+export interface ClerkOrganizationData {
+  id: string;
+  name: string;
+  slug: string | null;
+  created_by?: string;
+  created_at: number; // ms
+  updated_at: number; // ms
+}
+
+export interface ClerkDeletedObjectData {
+  id: string;
+  deleted: true;
+}
+
+export interface ClerkOrganizationMembershipData {
+  id: string;
+  role: string;
+  organization: { id: string; name: string; slug: string | null };
+  public_user_data: {
+    user_id: string;
+    identifier: string; // primary email address
+    first_name: string | null;
+    last_name: string | null;
+    image_url: string | null;
+  };
+  created_at: number; // ms
+  updated_at: number; // ms
+}
+
+export interface ClerkUserData {
+  id: string;
+  email_addresses: Array<{ id: string; email_address: string }>;
+  primary_email_address_id: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  image_url: string | null;
+  updated_at: number; // ms
+}
+
+export type ClerkWebhookEvent =
+  | { type: 'organization.created' | 'organization.updated'; data: ClerkOrganizationData }
+  | { type: 'organization.deleted'; data: ClerkDeletedObjectData }
+  | {
+      type:
+        | 'organizationMembership.created'
+        | 'organizationMembership.updated'
+        | 'organizationMembership.deleted';
+      data: ClerkOrganizationMembershipData;
+    }
+  | { type: 'user.updated'; data: ClerkUserData }
+  | { type: 'user.deleted'; data: ClerkDeletedObjectData };
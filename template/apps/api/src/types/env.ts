@@ -1,20 +1,50 @@
 /**
  * Cloudflare Workers Environment Types
  */
+import type { OrganizationStorage } from '../durable-objects/organization-storage';
+import type { RateLimiter } from '../durable-objects/rate-limiter';
+import type { OrganizationRegistry } from '../durable-objects/organization-registry';
+
 export interface Env {
   // Bindings
   ASSETS: Fetcher;
-  ORGANIZATION_STORAGE: DurableObjectNamespace;
+  ORGANIZATION_STORAGE: DurableObjectNamespace<OrganizationStorage>;
+  RATE_LIMITER: DurableObjectNamespace<RateLimiter>;
+  ORGANIZATION_REGISTRY: DurableObjectNamespace<OrganizationRegistry>;
 
   // Secrets (set via wrangler secret put)
   CLERK_SECRET_KEY?: string;
+  CLERK_WEBHOOK_SECRET?: string;
   STRIPE_SECRET_KEY?: string;
+  STRIPE_WEBHOOK_SECRET?: string;
+  // Email provider API key (without it, emails are only logged outside production)
+  EMAIL_API_KEY?: string;
+  // Internal token keys: "kid:secret,kid:secret" (first signs, all verify)
+  INTERNAL_SECRETS?: string;
+  // Legacy single internal key (kid "default")
   INTERNAL_SECRET?: string;
 
   // Environment Variables
   APP_URL?: string;
+  // 'production' disables localhost CORS origins
+  ENVIRONMENT?: 'development' | 'production';
+  // 'local': offline development with a local token issuer and fake billing
+  // (never allowed in production)
+  DEV_MODE?: 'local';
+  // Comma-separated CORS origins, e.g. "https://app.example.com,https://*.example.com"
+  ALLOWED_ORIGINS?: string;
   CLERK_ISSUER_URL?: string;
+  // Comma-separated frontend origins accepted in the session token `azp` claim
+  CLERK_AUTHORIZED_PARTIES?: string;
+  // Allowed clock difference for exp/nbf checks (default: 5)
+  CLERK_CLOCK_SKEW_SECONDS?: string;
   STRIPE_PRICING_TABLE_ID?: string;
+  // Days between scheduling an organization's deletion and purging its data (default: 30)
+  OFFBOARDING_GRACE_DAYS?: string;
+  // Email sender, e.g. "Acme <noreply@acme.com>"
+  EMAIL_FROM?: string;
+  // Email provider endpoint (default: Resend's API; see emails/http-transport.ts)
+  EMAIL_API_URL?: string;
   STRIPE_STANDARD_PRICE_ID?: string;
   POSTHOG_API_KEY?: string;
 }
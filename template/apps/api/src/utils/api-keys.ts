@@ -0,0 +1,55 @@
+/**
+ * API Key Utilities
+ *
+ * Format: sk_live_<48 hex chars>_<base64url organization ID>
+ * The organization ID is embedded so the key can be routed to the right
+ * OrganizationStorage without a global index. Only the SHA-256 hash of the
+ * full key is stored.
+ */
+import { decodeBase64Url, encodeBase64Url } from './encoding';
+
+export const API_KEY_PREFIX = 'sk_live_';
+
+const SECRET_BYTES = 24;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generate a new API key for an organization
+ * `prefix` is safe to store and display; `key` is shown to the user once.
+ */
+export function generateApiKey(orgId: string): { key: string; prefix: string } {
+  const secret = toHex(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+  return {
+    key: `${API_KEY_PREFIX}${secret}_${encodeBase64Url(orgId)}`,
+    prefix: `${API_KEY_PREFIX}${secret.slice(0, 8)}`,
+  };
+}
+
+/**
+ * Extract the organization ID from an API key (null if malformed)
+ */
+export function parseApiKey(key: string): { orgId: string } | null {
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+  const rest = key.slice(API_KEY_PREFIX.length);
+  const separator = rest.indexOf('_');
+  if (separator !== SECRET_BYTES * 2) return null;
+
+  try {
+    const orgId = decodeBase64Url(rest.slice(separator + 1));
+    return orgId ? { orgId } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * SHA-256 hash of an API key (hex)
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return toHex(new Uint8Array(digest));
+}
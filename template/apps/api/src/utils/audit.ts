@@ -0,0 +1,113 @@
+/**
+ * Audit Log Utilities
+ */
+import type { Context } from 'hono';
+import type { Env } from '../types/env';
+import type { Variables } from '../middleware/auth';
+import type { AuditAction, AuditActorType } from '../constants/audit';
+import type { AuditEvent, AuditMetadata } from '../durable-objects/organization-storage';
+import { decodeBase64Url, encodeBase64Url } from './encoding';
+
+type AppContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+const ACTOR_TYPES: Record<Variables['authType'], AuditActorType> = {
+  session: 'user',
+  api_key: 'api_key',
+  internal: 'internal',
+};
+
+// Longest stored user agent
+const MAX_USER_AGENT_LENGTH = 512;
+
+export interface AuditEventDetails {
+  action: AuditAction;
+  target?: { type: string; id: string | null };
+  metadata?: AuditMetadata;
+}
+
+/**
+ * Record an audit event for the authenticated request
+ * The actor, IP and user agent are taken from the request. Call after the
+ * action has succeeded; a failure to record is logged, not thrown, since the
+ * action cannot be undone at that point.
+ *
+ * Usage:
+ *   await recordAuditEvent(c, { action: 'api_key.revoked', target: { type: 'api_key', id } });
+ */
+export async function recordAuditEvent(c: AppContext, details: AuditEventDetails): Promise<void> {
+  const orgId = c.get('orgId') || c.get('userId');
+
+  try {
+    const doId = c.env.ORGANIZATION_STORAGE.idFromName(orgId);
+    await c.env.ORGANIZATION_STORAGE.get(doId).appendAuditEvent({
+      actorType: ACTOR_TYPES[c.get('authType')],
+      actorId: c.get('userId'),
+      action: details.action,
+      targetType: details.target?.type ?? null,
+      targetId: details.target?.id ?? null,
+      ip: c.req.header('cf-connecting-ip') ?? null,
+      userAgent: c.req.header('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+      metadata: details.metadata ?? null,
+    });
+  } catch (error) {
+    console.error(`Recording audit event ${details.action} failed:`, error);
+  }
+}
+
+/**
+ * Opaque pagination cursor for the audit log
+ */
+export function encodeAuditCursor(before: number): string {
+  return encodeBase64Url(JSON.stringify([before]));
+}
+
+/**
+ * Parse a cursor from encodeAuditCursor (null if malformed)
+ */
+export function decodeAuditCursor(cursor: string): number | null {
+  try {
+    const value: unknown = JSON.parse(decodeBase64Url(cursor));
+    if (Array.isArray(value) && value.length === 1 && Number.isInteger(value[0])) {
+      return value[0] as number;
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'actorType',
+  'actorId',
+  'action',
+  'targetType',
+  'targetId',
+  'ip',
+  'userAgent',
+  'metadata',
+] as const satisfies readonly (keyof AuditEvent)[];
+
+/**
+ * CSV header row (with trailing newline)
+ */
+export function auditCsvHeader(): string {
+  return `${CSV_COLUMNS.join(',')}\r\n`;
+}
+
+/**
+ * One audit event as a CSV row (RFC 4180, with trailing newline)
+ * createdAt is ISO 8601; metadata is JSON.
+ */
+export function toAuditCsvRow(event: AuditEvent): string {
+  return `${CSV_COLUMNS.map((column) => {
+    const value = event[column];
+    if (value === null) return '';
+    if (column === 'createdAt') return new Date(event.createdAt * 1000).toISOString();
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    // Leading =, +, - or @ would be run as a formula by spreadsheets
+    const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }).join(',')}\r\n`;
+}
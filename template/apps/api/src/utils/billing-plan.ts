@@ -0,0 +1,104 @@
+/**
+ * Billing Plan Utilities
+ * Subscription cache and plan resolution, independent of the billing provider
+ */
+import {
+  SUBSCRIPTION_STATUS_ENTITLEMENT,
+  type PlanType,
+  type SubscriptionStatus,
+} from '../constants/plans';
+import type {
+  OrganizationStorage,
+  SubscriptionState,
+} from '../durable-objects/organization-storage';
+import type { BillingProvider } from './billing-provider';
+
+/**
+ * How long a cached subscription state is trusted before reconciling with the provider.
+ * Webhooks keep the cache fresh; this only bounds the damage of a missed event.
+ */
+export const SUBSCRIPTION_CACHE_TTL_SECONDS = 60 * 60 * 24;
+
+/**
+ * Whether a subscription status grants the subscription's plan
+ */
+export function isEntitledStatus(status: string | null | undefined): boolean {
+  if (!status) return false;
+  return SUBSCRIPTION_STATUS_ENTITLEMENT[status as SubscriptionStatus] === 'paid';
+}
+
+/**
+ * Whether a cached subscription state needs to be reconciled with the provider
+ */
+export function isSubscriptionStateStale(
+  state: SubscriptionState | null,
+  now = Math.floor(Date.now() / 1000),
+): boolean {
+  if (!state) return true;
+  if (now - state.syncedAt > SUBSCRIPTION_CACHE_TTL_SECONDS) return true;
+  // A renewal should have moved the period end forward; if not, an event was missed.
+  // Ended subscriptions keep their last period end: only the TTL applies to them.
+  if (
+    isEntitledStatus(state.status) &&
+    state.currentPeriodEnd !== null &&
+    state.currentPeriodEnd < now
+  ) {
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Reconcile the cached subscription state with the billing provider and save it
+ */
+export async function reconcileSubscriptionState(
+  billing: BillingProvider,
+  stub: DurableObjectStub<OrganizationStorage>,
+  customerId: string,
+): Promise<SubscriptionState> {
+  const state = await billing.getEntitlements(customerId);
+  await stub.saveSubscriptionState(state);
+  return { ...state, syncedAt: Math.floor(Date.now() / 1000) };
+}
+
+/**
+ * Get subscription state from the cache, reconciling with the billing
+ * provider when it is missing or stale
+ * If the provider is unavailable, a stale cache is served; without any cache
+ * the error is thrown.
+ */
+export async function getSubscriptionState(
+  billing: BillingProvider,
+  stub: DurableObjectStub<OrganizationStorage>,
+  customerId: string,
+): Promise<SubscriptionState> {
+  const cached = await stub.getSubscriptionState();
+  if (cached && !isSubscriptionStateStale(cached)) {
+    return cached;
+  }
+
+  try {
+    return await reconcileSubscriptionState(billing, stub, customerId);
+  } catch (error) {
+    if (!cached) throw error;
+    console.error('Subscription reconcile failed, serving stale cache:', error);
+    return cached;
+  }
+}
+
+/**
+ * Get the current plan type of an organization
+ * Organizations without a billing customer are on FREE.
+ */
+export async function getOrganizationPlanType(
+  billing: BillingProvider,
+  stub: DurableObjectStub<OrganizationStorage>,
+): Promise<PlanType> {
+  const { stripeCustomerId } = await stub.getSettings();
+  if (!stripeCustomerId) {
+    return 'FREE';
+  }
+
+  const state = await getSubscriptionState(billing, stub, stripeCustomerId);
+  return state.planType;
+}
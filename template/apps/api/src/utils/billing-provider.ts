@@ -0,0 +1,105 @@
+/**
+ * Billing Provider
+ *
+ * The billing operations used by the API, independent of Stripe. Routes get
+ * the provider of the current request from `c.get('billing')` (set by the
+ * billingProvider middleware) and never import the Stripe SDK, so billing
+ * logic can be tested with MemoryBillingProvider and other providers can be
+ * added later.
+ *
+ * Implementations:
+ * - StripeBillingProvider (./stripe-billing.ts)
+ * - LocalBillingProvider (./local-billing.ts): fake provider for DEV_MODE=local
+ * - MemoryBillingProvider (./memory-billing.ts): test double
+ */
+import type { Env } from '../types/env';
+import type { SubscriptionState } from '../durable-objects/organization-storage';
+import { isLocalDevMode } from './local-auth';
+import { LocalBillingProvider } from './local-billing';
+import { StripeBillingProvider } from './stripe-billing';
+
+/**
+ * A customer's plan and primary subscription, as reported by the provider
+ * (cached per organization as SubscriptionState)
+ */
+export type BillingEntitlements = Omit<SubscriptionState, 'syncedAt'>;
+
+export interface CheckoutSessionInput {
+  priceId: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface BillingInvoice {
+  id: string;
+  number: string | null;
+  status: string | null;
+  // Smallest currency unit (e.g. cents)
+  amountDue: number;
+  amountPaid: number;
+  currency: string;
+  created: number;
+  hostedInvoiceUrl: string | null;
+  pdfUrl: string | null;
+}
+
+export interface BillingProvider {
+  /**
+   * Get or create the organization's customer
+   * Idempotent per organization on the provider side; call through
+   * OrganizationStorage.getOrCreateStripeCustomer, which also serializes
+   * creation and stores the ID.
+   */
+  getOrCreateCustomer(orgId: string, userId: string): Promise<string>;
+  /**
+   * Current entitlements of a customer, read from the provider (not the
+   * cache). Provider errors are thrown, never mapped to FREE: an outage must
+   * not downgrade paying customers.
+   */
+  getEntitlements(customerId: string): Promise<BillingEntitlements>;
+  /**
+   * Client secret for the embedded pricing table
+   */
+  createCustomerSession(customerId: string): Promise<{ clientSecret: string }>;
+  /**
+   * Hosted checkout for a subscription to a price
+   */
+  createCheckoutSession(customerId: string, input: CheckoutSessionInput): Promise<{ url: string }>;
+  /**
+   * Customer portal URL
+   */
+  createPortalSession(customerId: string, returnUrl: string): Promise<{ url: string }>;
+  /**
+   * Most recent invoices first
+   */
+  listInvoices(customerId: string, options?: { limit?: number }): Promise<BillingInvoice[]>;
+  /**
+   * Cancel the customer's subscriptions at the end of their current period
+   * (reversible with resumeSubscriptions until then)
+   * Returns the IDs of the subscriptions it changed; ones already set to
+   * cancel are left out.
+   */
+  cancelSubscriptions(customerId: string): Promise<string[]>;
+  /**
+   * Undo cancelSubscriptions for the given subscriptions, if they have not
+   * ended yet
+   */
+  resumeSubscriptions(customerId: string, subscriptionIds: readonly string[]): Promise<void>;
+  /**
+   * Delete the customer; its remaining subscriptions end immediately
+   * Succeeds if the customer is already gone.
+   */
+  deleteCustomer(customerId: string): Promise<void>;
+}
+
+/**
+ * Billing provider for the environment
+ * Cheap to create: the Stripe client is built on first use, and a missing
+ * STRIPE_SECRET_KEY only fails the operations that need it.
+ */
+export function createBillingProvider(env: Env): BillingProvider {
+  if (isLocalDevMode(env)) {
+    return new LocalBillingProvider(env);
+  }
+  return new StripeBillingProvider(env.STRIPE_SECRET_KEY, env.CLERK_SECRET_KEY);
+}
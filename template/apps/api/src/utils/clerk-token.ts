@@ -0,0 +1,188 @@
+/**
+ * Clerk Session Token Verification
+ *
+ * Verifies Clerk session JWTs against the issuer's JWKS. The remote key set
+ * is cached per issuer for the lifetime of the isolate; jose refetches it
+ * when a token carries an unknown `kid` (key rotation), at most once per
+ * cooldown period.
+ *
+ * For offline tests pass `keys`, e.g. a `createLocalJWKSet` over a locally
+ * generated key pair (see README).
+ */
+import { createRemoteJWKSet, errors, jwtVerify, type JWTVerifyGetKey } from 'jose';
+
+// Minimum interval between JWKS refetches triggered by unknown key IDs
+const JWKS_COOLDOWN_MS = 30 * 1000;
+// Maximum age of the cached JWKS before it is refetched
+const JWKS_CACHE_MAX_AGE_MS = 10 * 60 * 1000;
+const JWKS_TIMEOUT_MS = 5 * 1000;
+
+export const DEFAULT_CLOCK_SKEW_SECONDS = 5;
+
+export interface ClerkJWTPayload {
+  sub: string;
+  // Authorized party: origin of the frontend that requested the token
+  azp?: string;
+  org_id?: string;
+  org_role?: string;
+  org_slug?: string;
+  // Custom permissions of the active organization membership
+  org_permissions?: string[];
+}
+
+export type ClerkTokenErrorCode =
+  | 'token_malformed'
+  | 'token_expired'
+  | 'token_not_yet_valid'
+  | 'token_invalid_issuer'
+  | 'token_invalid_azp'
+  | 'token_invalid_signature'
+  | 'token_invalid_claims'
+  | 'jwks_unavailable';
+
+export class ClerkTokenError extends Error {
+  constructor(
+    readonly code: ClerkTokenErrorCode,
+    message: string,
+    options?: { cause?: unknown },
+  ) {
+    super(message, options);
+    this.name = 'ClerkTokenError';
+  }
+}
+
+export interface VerifyClerkTokenOptions {
+  issuer: string;
+  // Allowed `azp` values (frontend origins); empty disables the check
+  authorizedParties?: readonly string[];
+  clockSkewSeconds?: number;
+  // Key set override (offline tests, local issuers); defaults to the issuer's JWKS
+  keys?: JWTVerifyGetKey;
+}
+
+const jwksCache = new Map<string, JWTVerifyGetKey>();
+
+/**
+ * Cached remote JWKS for an issuer
+ */
+export function getIssuerJwks(issuer: string): JWTVerifyGetKey {
+  const jwksUrl = `${issuer.replace(/\/$/, '')}/.well-known/jwks.json`;
+  let jwks = jwksCache.get(jwksUrl);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(jwksUrl), {
+      cooldownDuration: JWKS_COOLDOWN_MS,
+      cacheMaxAge: JWKS_CACHE_MAX_AGE_MS,
+      timeoutDuration: JWKS_TIMEOUT_MS,
+    });
+    jwksCache.set(jwksUrl, jwks);
+  }
+  return jwks;
+}
+
+/**
+ * Parse a comma-separated list of authorized parties
+ */
+export function parseAuthorizedParties(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((party) => party.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Parse the clock skew setting (seconds), falling back to the default
+ */
+export function parseClockSkew(value: string | undefined): number {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_CLOCK_SKEW_SECONDS;
+}
+
+/**
+ * Map jose errors to stable error codes
+ */
+function toClerkTokenError(error: unknown): ClerkTokenError {
+  if (error instanceof ClerkTokenError) return error;
+
+  if (error instanceof errors.JWTExpired) {
+    return new ClerkTokenError('token_expired', 'Token has expired', { cause: error });
+  }
+  if (error instanceof errors.JWTClaimValidationFailed) {
+    if (error.claim === 'iss') {
+      return new ClerkTokenError('token_invalid_issuer', 'Token issuer is not trusted', {
+        cause: error,
+      });
+    }
+    if (error.claim === 'nbf' || error.claim === 'iat') {
+      return new ClerkTokenError('token_not_yet_valid', 'Token is not yet valid', {
+        cause: error,
+      });
+    }
+    return new ClerkTokenError('token_invalid_claims', `Invalid "${error.claim}" claim`, {
+      cause: error,
+    });
+  }
+  if (
+    error instanceof errors.JWSSignatureVerificationFailed ||
+    error instanceof errors.JWKSNoMatchingKey ||
+    error instanceof errors.JWKSMultipleMatchingKeys ||
+    error instanceof errors.JOSEAlgNotAllowed
+  ) {
+    return new ClerkTokenError('token_invalid_signature', 'Token signature is invalid', {
+      cause: error,
+    });
+  }
+  if (error instanceof errors.JWKSTimeout || error instanceof errors.JWKSInvalid) {
+    return new ClerkTokenError('jwks_unavailable', 'Signing keys are unavailable', {
+      cause: error,
+    });
+  }
+  if (error instanceof errors.JOSEError) {
+    return new ClerkTokenError('token_malformed', 'Token is malformed', { cause: error });
+  }
+  // Network errors while fetching the JWKS
+  return new ClerkTokenError('jwks_unavailable', 'Signing keys are unavailable', {
+    cause: error,
+  });
+}
+
+/**
+ * Verify a Clerk session token
+ * Throws ClerkTokenError with a stable code on failure.
+ */
+export async function verifyClerkToken(
+  token: string,
+  {
+    issuer,
+    authorizedParties = [],
+    clockSkewSeconds = DEFAULT_CLOCK_SKEW_SECONDS,
+    keys = getIssuerJwks(issuer),
+  }: VerifyClerkTokenOptions,
+): Promise<ClerkJWTPayload> {
+  // Reject obviously malformed tokens before touching the JWKS
+  if (token.split('.').length !== 3) {
+    throw new ClerkTokenError('token_malformed', 'Token is malformed');
+  }
+
+  let payload: ClerkJWTPayload;
+  try {
+    const result = await jwtVerify(token, keys, {
+      issuer,
+      clockTolerance: clockSkewSeconds,
+      requiredClaims: ['sub', 'exp'],
+    });
+    payload = result.payload as unknown as ClerkJWTPayload;
+  } catch (error) {
+    throw toClerkTokenError(error);
+  }
+
+  // Same rule as Clerk's SDKs: checked when the token carries `azp`
+  if (
+    payload.azp &&
+    authorizedParties.length > 0 &&
+    !authorizedParties.includes(payload.azp.replace(/\/$/, ''))
+  ) {
+    throw new ClerkTokenError('token_invalid_azp', 'Token authorized party is not allowed');
+  }
+
+  return payload;
+}
@@ -0,0 +1,81 @@
+/**
+ * Clerk Backend API Utilities
+ */
+
+/**
+ * Get Clerk organization info
+ */
+export async function getClerkOrganization(
+  orgId: string,
+  clerkSecretKey: string,
+): Promise<{ name: string } | null> {
+  try {
+    const response = await fetch(`https://api.clerk.com/v1/organizations/${orgId}`, {
+      headers: {
+        Authorization: `Bearer ${clerkSecretKey}`,
+      },
+    });
+    if (response.ok) {
+      return await response.json() as { name: string };
+    }
+  } catch (error) {
+    console.error('Failed to fetch Clerk organization:', error);
+  }
+  return null;
+}
+
+/**
+ * Get Clerk user info
+ */
+export async function getClerkUser(
+  userId: string,
+  clerkSecretKey: string,
+): Promise<{ email_addresses: Array<{ email_address: string }>; first_name?: string; last_name?: string } | null> {
+  try {
+    const response = await fetch(`https://api.clerk.com/v1/users/${userId}`, {
+      headers: {
+        Authorization: `Bearer ${clerkSecretKey}`,
+      },
+    });
+    if (response.ok) {
+      return await response.json() as { email_addresses: Array<{ email_address: string }>; first_name?: string; last_name?: string };
+    }
+  } catch (error) {
+    console.error('Failed to fetch Clerk user:', error);
+  }
+  return null;
+}
+
+/**
+ * Get IDs of the organizations a Clerk user belongs to
+ */
+export async function getClerkUserOrganizationIds(
+  userId: string,
+  clerkSecretKey: string,
+): Promise<string[]> {
+  const orgIds: string[] = [];
+  const limit = 100;
+
+  for (let offset = 0; ; offset += limit) {
+    const response = await fetch(
+      `https://api.clerk.com/v1/users/${userId}/organization_memberships?limit=${limit}&offset=${offset}`,
+      {
+        headers: {
+          Authorization: `Bearer ${clerkSecretKey}`,
+        },
+      },
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Clerk memberships: ${response.status}`);
+    }
+
+    const page = await response.json() as {
+      data: Array<{ organization: { id: string } }>;
+      total_count: number;
+    };
+    orgIds.push(...page.data.map((membership) => membership.organization.id));
+    if (offset + limit >= page.total_count) break;
+  }
+
+  return orgIds;
+}
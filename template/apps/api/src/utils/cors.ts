@@ -0,0 +1,76 @@
+/**
+ * CORS Origin Matching
+ *
+ * ALLOWED_ORIGINS is a comma-separated list of origins:
+ * - Exact: `https://app.example.com`
+ * - Wildcard subdomain: `https://*.example.com` (any depth, not the apex)
+ */
+
+interface OriginPattern {
+  protocol: string;
+  // Exact host[:port], or the suffix after `*.` for wildcards
+  host: string;
+  wildcard: boolean;
+}
+
+const patternCache = new Map<string, OriginPattern[]>();
+
+/**
+ * Parse ALLOWED_ORIGINS (cached per value; invalid entries are logged and skipped)
+ */
+export function parseAllowedOrigins(value: string | undefined): OriginPattern[] {
+  const raw = value ?? '';
+  const cached = patternCache.get(raw);
+  if (cached) return cached;
+
+  const patterns: OriginPattern[] = [];
+  for (const entry of raw.split(',').map((s) => s.trim()).filter(Boolean)) {
+    const match = /^(https?):\/\/(\*\.)?([a-z0-9.-]+(?::\d+)?)$/i.exec(entry.replace(/\/$/, ''));
+    if (!match) {
+      console.warn(`ALLOWED_ORIGINS: ignoring invalid origin "${entry}"`);
+      continue;
+    }
+    patterns.push({
+      protocol: match[1].toLowerCase(),
+      host: match[3].toLowerCase(),
+      wildcard: Boolean(match[2]),
+    });
+  }
+
+  patternCache.set(raw, patterns);
+  return patterns;
+}
+
+/**
+ * Localhost origins (Vite dev server, wrangler dev)
+ */
+export function isLocalhostOrigin(origin: string): boolean {
+  try {
+    const { hostname } = new URL(origin);
+    return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check an Origin header value against the parsed patterns
+ */
+export function isOriginAllowed(origin: string, patterns: OriginPattern[]): boolean {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  // Origin is scheme://host[:port] only
+  if (url.origin !== origin.toLowerCase()) return false;
+
+  const protocol = url.protocol.slice(0, -1);
+  const host = url.host;
+
+  return patterns.some((pattern) => {
+    if (pattern.protocol !== protocol) return false;
+    return pattern.wildcard ? host.endsWith(`.${pattern.host}`) : host === pattern.host;
+  });
+}
@@ -0,0 +1,23 @@
+/**
+ * Encoding Utilities
+ */
+
+/**
+ * UTF-8 string to unpadded base64url
+ */
+export function encodeBase64Url(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Unpadded base64url to UTF-8 string (throws on invalid input)
+ */
+export function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
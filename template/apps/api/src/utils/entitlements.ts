@@ -0,0 +1,72 @@
+/**
+ * Entitlement Utilities
+ * Features and limits of an organization: its plan's PLAN_LIMITS, with the
+ * organization's feature overrides applied on top
+ */
+import {
+  FEATURES,
+  LIMIT_TYPES,
+  PLAN_LIMITS,
+  type Feature,
+  type LimitType,
+  type PlanType,
+} from '../constants/plans';
+import type {
+  FeatureOverride,
+  OrganizationStorage,
+} from '../durable-objects/organization-storage';
+import type { BillingProvider } from './billing-provider';
+import { getOrganizationPlanType } from './billing-plan';
+
+export interface Entitlements {
+  planType: PlanType;
+  // In FEATURES order
+  features: Feature[];
+  limits: Record<LimitType, number>;
+  // Active overrides (already applied to `features`)
+  overrides: FeatureOverride[];
+}
+
+/**
+ * Apply feature overrides to a plan
+ * Overrides win over the plan in both directions: a grant adds a feature the
+ * plan lacks, a revocation removes one it includes.
+ */
+export function resolveEntitlements(
+  planType: PlanType,
+  overrides: FeatureOverride[],
+): Entitlements {
+  const features = new Set<Feature>(PLAN_LIMITS[planType].features);
+  for (const override of overrides) {
+    if (override.enabled) {
+      features.add(override.feature);
+    } else {
+      features.delete(override.feature);
+    }
+  }
+
+  return {
+    planType,
+    features: FEATURES.filter((feature) => features.has(feature)),
+    limits: Object.fromEntries(
+      LIMIT_TYPES.map((limit) => [limit, PLAN_LIMITS[planType][limit]]),
+    ) as Record<LimitType, number>,
+    overrides,
+  };
+}
+
+/**
+ * Get the entitlements of an organization
+ * Pass `planType` when it is already known for the request (e.g. set by rateLimit).
+ */
+export async function getOrganizationEntitlements(
+  billing: BillingProvider,
+  stub: DurableObjectStub<OrganizationStorage>,
+  planType?: PlanType,
+): Promise<Entitlements> {
+  const [resolvedPlanType, overrides] = await Promise.all([
+    planType ?? getOrganizationPlanType(billing, stub),
+    stub.listFeatureOverrides(),
+  ]);
+  return resolveEntitlements(resolvedPlanType, overrides);
+}
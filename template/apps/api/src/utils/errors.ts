@@ -0,0 +1,117 @@
+/**
+ * Application Errors
+ *
+ * Throw these from routes and middleware; the global error handler turns them
+ * into `{ error: { code, message, requestId, details? } }`.
+ *
+ * `message` and `details` are returned to the client and must be safe to
+ * show. Put internal context in `cause`: it is logged, never returned.
+ */
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import type { ErrorCode } from '../constants/error-codes';
+
+interface AppErrorOptions {
+  // Client-safe structured data (limits, retry hints)
+  details?: Record<string, unknown>;
+  // Internal error (logged only)
+  cause?: unknown;
+}
+
+export class AppError extends Error {
+  readonly details?: Record<string, unknown>;
+
+  constructor(
+    readonly status: ContentfulStatusCode,
+    readonly code: ErrorCode,
+    message: string,
+    { details, cause }: AppErrorOptions = {},
+  ) {
+    super(message, { cause });
+    this.name = new.target.name;
+    this.details = details;
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(400, 'validation_failed', message, options);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(
+    code: Extract<
+      ErrorCode,
+      'unauthorized' | 'api_key_invalid' | 'internal_token_invalid' | `token_${string}`
+    > = 'unauthorized',
+    message = 'Authentication required',
+    options?: AppErrorOptions,
+  ) {
+    super(401, code, message, options);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = 'Forbidden', options?: AppErrorOptions) {
+    super(403, 'forbidden', message, options);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(
+    message = 'Not found',
+    code: Extract<ErrorCode, 'not_found' | 'billing_account_not_found'> = 'not_found',
+    options?: AppErrorOptions,
+  ) {
+    super(404, code, message, options);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message = 'Conflict', options?: AppErrorOptions) {
+    super(409, 'conflict', message, options);
+  }
+}
+
+export class PlanLimitError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(402, 'plan_limit_exceeded', message, options);
+  }
+}
+
+export class FeatureNotAvailableError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(402, 'feature_not_available', message, options);
+  }
+}
+
+export class RateLimitError extends AppError {
+  constructor(
+    readonly retryAfterSeconds: number,
+    options?: AppErrorOptions,
+  ) {
+    super(429, 'rate_limited', 'Too many requests', options);
+  }
+}
+
+/**
+ * Missing or invalid server configuration (details go to `cause`)
+ */
+export class ConfigurationError extends AppError {
+  constructor(cause: string) {
+    super(500, 'configuration_error', 'Server configuration error', { cause });
+  }
+}
+
+/**
+ * A dependency (Stripe, Clerk, JWKS) failed or is unreachable
+ */
+export class ServiceUnavailableError extends AppError {
+  constructor(
+    code: Extract<ErrorCode, 'service_unavailable' | 'jwks_unavailable' | 'billing_provider_error'> = 'service_unavailable',
+    message = 'Service temporarily unavailable',
+    options?: AppErrorOptions,
+  ) {
+    super(code === 'billing_provider_error' ? 502 : 503, code, message, options);
+  }
+}
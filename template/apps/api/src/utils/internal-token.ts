@@ -0,0 +1,183 @@
+/**
+ * Internal Tokens (service-to-service)
+ *
+ * Short-lived HS256 JWTs for calls between Workers and Durable Objects.
+ * Tokens carry an audience (the receiving service), the organization they are
+ * valid for and the scopes they grant. The `kid` header selects the key, so
+ * keys can be rotated:
+ *
+ *   INTERNAL_SECRETS="2025-06:<new secret>,2025-01:<old secret>"
+ *
+ * The first key signs; every listed key verifies. Add the new key first,
+ * deploy, then drop the old one once tokens signed with it have expired.
+ * A single legacy INTERNAL_SECRET is accepted as key `default`.
+ */
+import { SignJWT, jwtVerify } from 'jose';
+import type { Env } from '../types/env';
+import type { InternalScope } from '../constants/permissions';
+import { isLocalDevMode } from './local-auth';
+
+const INTERNAL_TOKEN_ISSUER = 'internal';
+const DEFAULT_TOKEN_TTL = '5m';
+const MIN_SECRET_LENGTH = 32;
+
+// Only used in local development mode (DEV_MODE=local) when no secret is
+// configured; any other Worker, deployed dev Workers included, fails closed
+const DEVELOPMENT_KEY = { kid: 'development', secret: 'development-secret-key' };
+
+export type InternalAudience = 'api' | 'organization-storage';
+
+export interface InternalKey {
+  kid: string;
+  secret: string;
+}
+
+export interface InternalTokenClaims {
+  orgId: string;
+  // Acting user, if the call is made on behalf of one
+  userId?: string;
+  scopes: InternalScope[];
+}
+
+export class InternalKeyConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InternalKeyConfigError';
+  }
+}
+
+let warnedDevelopmentKey = false;
+
+/**
+ * Parse the configured signing keys (first key signs)
+ * Throws InternalKeyConfigError when no usable key is configured outside
+ * local development mode.
+ */
+export function getInternalKeys(
+  env: Pick<Env, 'INTERNAL_SECRETS' | 'INTERNAL_SECRET' | 'ENVIRONMENT' | 'DEV_MODE'>,
+): InternalKey[] {
+  let keys: InternalKey[];
+  if (env.INTERNAL_SECRETS) {
+    keys = env.INTERNAL_SECRETS.split(',').map((entry) => {
+      const separator = entry.indexOf(':');
+      return {
+        kid: entry.slice(0, separator).trim(),
+        secret: entry.slice(separator + 1).trim(),
+      };
+    });
+    if (keys.some((key) => !key.kid || !key.secret)) {
+      throw new InternalKeyConfigError('INTERNAL_SECRETS must be "kid:secret" pairs');
+    }
+  } else if (env.INTERNAL_SECRET) {
+    keys = [{ kid: 'default', secret: env.INTERNAL_SECRET }];
+  } else if (isLocalDevMode(env)) {
+    if (!warnedDevelopmentKey) {
+      console.warn('INTERNAL_SECRETS is not set, using the development key');
+      warnedDevelopmentKey = true;
+    }
+    return [DEVELOPMENT_KEY];
+  } else {
+    throw new InternalKeyConfigError('INTERNAL_SECRETS is not configured');
+  }
+
+  if (keys.some((key) => key.secret.length < MIN_SECRET_LENGTH)) {
+    throw new InternalKeyConfigError(
+      `Internal secrets must be at least ${MIN_SECRET_LENGTH} characters`,
+    );
+  }
+  return keys;
+}
+
+/**
+ * Sign an internal token for a service
+ */
+export async function signInternalToken(
+  env: Env,
+  audience: InternalAudience,
+  claims: InternalTokenClaims,
+  expiresIn: string = DEFAULT_TOKEN_TTL,
+): Promise<string> {
+  const [signingKey] = getInternalKeys(env);
+
+  return new SignJWT({ orgId: claims.orgId, scope: claims.scopes.join(' ') })
+    .setProtectedHeader({ alg: 'HS256', kid: signingKey.kid })
+    .setIssuer(INTERNAL_TOKEN_ISSUER)
+    .setAudience(audience)
+    .setSubject(claims.userId ?? 'service')
+    .setIssuedAt()
+    .setExpirationTime(expiresIn)
+    .sign(new TextEncoder().encode(signingKey.secret));
+}
+
+/**
+ * Verify an internal token addressed to a service
+ * Throws on an invalid token, unknown kid or wrong audience.
+ */
+export async function verifyInternalToken(
+  env: Env,
+  token: string,
+  audience: InternalAudience,
+): Promise<InternalTokenClaims> {
+  const keys = getInternalKeys(env);
+
+  const { payload } = await jwtVerify(
+    token,
+    (header) => {
+      const key = keys.find((candidate) => candidate.kid === header.kid);
+      if (!key) {
+        throw new Error(`Unknown internal key: ${header.kid}`);
+      }
+      return new TextEncoder().encode(key.secret);
+    },
+    {
+      issuer: INTERNAL_TOKEN_ISSUER,
+      audience,
+      algorithms: ['HS256'],
+      requiredClaims: ['exp', 'sub'],
+    },
+  );
+
+  if (typeof payload.orgId !== 'string' || !payload.orgId) {
+    throw new Error('Internal token has no orgId');
+  }
+
+  return {
+    orgId: payload.orgId,
+    userId: payload.sub === 'service' ? undefined : payload.sub,
+    scopes: (typeof payload.scope === 'string' ? payload.scope.split(' ') : []).filter(
+      Boolean,
+    ) as InternalScope[],
+  };
+}
+
+/**
+ * Signed service-to-service call
+ * Works with anything that has `fetch`: Durable Object stubs and service bindings.
+ *
+ * Usage:
+ *   const stub = env.ORGANIZATION_STORAGE.get(env.ORGANIZATION_STORAGE.idFromName(orgId));
+ *   const res = await internalFetch(env, stub, 'https://internal/storage-stats', {
+ *     audience: 'organization-storage',
+ *     orgId,
+ *     scopes: ['internal:storage:read'],
+ *   });
+ */
+export async function internalFetch(
+  env: Env,
+  target: { fetch(request: Request): Promise<Response> },
+  url: string,
+  {
+    audience,
+    orgId,
+    userId,
+    scopes,
+    ...init
+  }: RequestInit & InternalTokenClaims & { audience: InternalAudience },
+): Promise<Response> {
+  const token = await signInternalToken(env, audience, { orgId, userId, scopes });
+
+  const headers = new Headers(init.headers);
+  headers.set('X-Internal-Token', token);
+
+  return target.fetch(new Request(url, { ...init, headers }));
+}
@@ -0,0 +1,29 @@
+/**
+ * Job Utilities
+ */
+
+export interface RetryBackoff {
+  baseSeconds: number;
+  maxSeconds: number;
+}
+
+// Organization jobs: 1 min, 2 min, 4 min, ... up to 6 hours
+export const JOB_RETRY_BACKOFF: RetryBackoff = { baseSeconds: 60, maxSeconds: 6 * 60 * 60 };
+
+/**
+ * Delay before retrying after the given failed attempt (1-based)
+ * Exponential, capped, with ±20% jitter so jobs that failed together (e.g.
+ * during a provider outage) do not all retry at the same moment.
+ */
+export function getRetryDelaySeconds(attempt: number, backoff = JOB_RETRY_BACKOFF): number {
+  const delay = Math.min(backoff.baseSeconds * 2 ** (attempt - 1), backoff.maxSeconds);
+  return Math.max(1, Math.round(delay * (0.8 + Math.random() * 0.4)));
+}
+
+/**
+ * Error message stored in job history
+ */
+export function toJobError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.slice(0, 1000);
+}
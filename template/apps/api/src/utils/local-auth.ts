@@ -0,0 +1,114 @@
+/**
+ * Local Session Token Issuer (DEV_MODE=local)
+ *
+ * Stands in for Clerk during offline development: signs session tokens for
+ * the seeded users in constants/dev-seed.ts and publishes its JWKS at
+ * /api/dev/.well-known/jwks.json. clerkAuth verifies these tokens with the
+ * same code path as Clerk tokens, only with this issuer and key set.
+ *
+ * The key pair lives in memory, so tokens are invalidated whenever the
+ * Worker reloads; clients get a new token on the next 401.
+ */
+import {
+  createLocalJWKSet,
+  exportJWK,
+  generateKeyPair,
+  SignJWT,
+  type JSONWebKeySet,
+  type JWTVerifyGetKey,
+  type KeyLike,
+} from 'jose';
+import type { Env } from '../types/env';
+import { LOCAL_ORGANIZATIONS, LOCAL_USERS } from '../constants/dev-seed';
+import type { ClerkJWTPayload } from './clerk-token';
+
+export const LOCAL_ISSUER = 'local-dev';
+
+const LOCAL_TOKEN_TTL_SECONDS = 60 * 60;
+
+interface LocalKeys {
+  privateKey: KeyLike;
+  jwks: JSONWebKeySet;
+  verificationKeys: JWTVerifyGetKey;
+}
+
+let localKeys: Promise<LocalKeys> | null = null;
+
+/**
+ * Whether local development mode is active
+ * Ignored in production (requireServerConfig also refuses to serve).
+ */
+export function isLocalDevMode(env: Pick<Env, 'DEV_MODE' | 'ENVIRONMENT'>): boolean {
+  return env.DEV_MODE === 'local' && env.ENVIRONMENT !== 'production';
+}
+
+async function createLocalKeys(): Promise<LocalKeys> {
+  const { privateKey, publicKey } = await generateKeyPair('RS256', { extractable: true });
+  const jwk = { ...(await exportJWK(publicKey)), kid: `local-${crypto.randomUUID()}`, alg: 'RS256', use: 'sig' };
+  const jwks = { keys: [jwk] };
+  return { privateKey, jwks, verificationKeys: createLocalJWKSet(jwks) };
+}
+
+function getLocalKeys(): Promise<LocalKeys> {
+  localKeys ??= createLocalKeys();
+  return localKeys;
+}
+
+/**
+ * Public key set of the local issuer
+ */
+export async function getLocalJwks(): Promise<JSONWebKeySet> {
+  return (await getLocalKeys()).jwks;
+}
+
+/**
+ * Key set for verifyClerkToken
+ */
+export async function getLocalVerificationKeys(): Promise<JWTVerifyGetKey> {
+  return (await getLocalKeys()).verificationKeys;
+}
+
+export class LocalSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LocalSessionError';
+  }
+}
+
+/**
+ * Sign a session token for a seeded user
+ * Pass orgId null for the user's personal account.
+ */
+export async function signLocalSessionToken(
+  userId: string,
+  orgId: string | null,
+): Promise<{ token: string; expiresAt: number }> {
+  const user = LOCAL_USERS.find((candidate) => candidate.id === userId);
+  if (!user) {
+    throw new LocalSessionError(`Unknown local user: ${userId}`);
+  }
+
+  const claims: Omit<ClerkJWTPayload, 'sub'> = {};
+  if (orgId) {
+    const organization = LOCAL_ORGANIZATIONS.find((candidate) => candidate.id === orgId);
+    const role = organization?.members[userId];
+    if (!organization || !role) {
+      throw new LocalSessionError(`${userId} is not a member of ${orgId}`);
+    }
+    claims.org_id = organization.id;
+    claims.org_role = role;
+    claims.org_slug = organization.slug;
+  }
+
+  const { privateKey, jwks } = await getLocalKeys();
+  const expiresAt = Math.floor(Date.now() / 1000) + LOCAL_TOKEN_TTL_SECONDS;
+  const token = await new SignJWT({ ...claims })
+    .setProtectedHeader({ alg: 'RS256', kid: jwks.keys[0].kid })
+    .setIssuer(LOCAL_ISSUER)
+    .setSubject(userId)
+    .setIssuedAt()
+    .setExpirationTime(expiresAt)
+    .sign(privateKey);
+
+  return { token, expiresAt };
+}
@@ -0,0 +1,195 @@
+/**
+ * Fake Billing Provider (DEV_MODE=local)
+ *
+ * Implements BillingProvider without network access. The simulated
+ * subscription of each organization is kept in its OrganizationStorage, so
+ * it survives Worker reloads and reconciling (POST /api/billing/sync) reads
+ * it just like a Stripe subscription.
+ *
+ * Subscriptions are changed with simulateSubscription
+ * (POST /api/dev/billing/subscription), which can also deliver the matching
+ * webhook to the subscription cache or skip it to simulate a missed event.
+ */
+import type { Env } from '../types/env';
+import {
+  PLAN_CATALOG,
+  getPlanTypeForPrice,
+  type PaidPlanType,
+  type SubscriptionStatus,
+} from '../constants/plans';
+import type {
+  BillingEntitlements,
+  BillingInvoice,
+  BillingProvider,
+  CheckoutSessionInput,
+} from './billing-provider';
+import { isEntitledStatus } from './billing-plan';
+
+const LOCAL_CUSTOMER_PREFIX = 'cus_local_';
+
+const LOCAL_PERIOD_SECONDS = 30 * 24 * 60 * 60;
+
+export interface LocalSubscription {
+  subscriptionId: string;
+  planType: PaidPlanType;
+  status: SubscriptionStatus;
+  currentPeriodEnd: number;
+  cancelAtPeriodEnd: boolean;
+}
+
+/**
+ * Subscription state for a simulated subscription (same rules as Stripe)
+ */
+function toSubscriptionState(subscription: LocalSubscription | null): BillingEntitlements {
+  if (!subscription) {
+    return {
+      subscriptionId: null,
+      planType: 'FREE',
+      status: null,
+      priceId: null,
+      currentPeriodEnd: null,
+      cancelAtPeriodEnd: false,
+    };
+  }
+
+  return {
+    subscriptionId: subscription.subscriptionId,
+    planType: isEntitledStatus(subscription.status) ? subscription.planType : 'FREE',
+    status: subscription.status,
+    priceId: PLAN_CATALOG[subscription.planType][0]?.priceId ?? null,
+    currentPeriodEnd: subscription.currentPeriodEnd,
+    cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+  };
+}
+
+function getStorage(env: Env, orgId: string) {
+  const doId = env.ORGANIZATION_STORAGE.idFromName(orgId);
+  return env.ORGANIZATION_STORAGE.get(doId);
+}
+
+function getCustomerOrganizationId(customerId: string): string {
+  if (!customerId.startsWith(LOCAL_CUSTOMER_PREFIX)) {
+    throw new Error(`Not a local customer: ${customerId}`);
+  }
+  return customerId.slice(LOCAL_CUSTOMER_PREFIX.length);
+}
+
+export class LocalBillingProvider implements BillingProvider {
+  constructor(private readonly env: Env) {}
+
+  async getOrCreateCustomer(orgId: string): Promise<string> {
+    return `${LOCAL_CUSTOMER_PREFIX}${orgId}`;
+  }
+
+  async getEntitlements(customerId: string) {
+    const orgId = getCustomerOrganizationId(customerId);
+    const subscription = await getStorage(this.env, orgId).getLocalSubscription();
+    return toSubscriptionState(subscription);
+  }
+
+  async createCustomerSession(customerId: string) {
+    return { clientSecret: `cuss_local_secret_${customerId}` };
+  }
+
+  // Checkout completes immediately: subscribe and return to the success URL
+  async createCheckoutSession(customerId: string, { priceId, successUrl }: CheckoutSessionInput) {
+    const planType = getPlanTypeForPrice(priceId);
+    if (!planType) {
+      throw new Error(`Price ${priceId} is not in PLAN_CATALOG`);
+    }
+    await simulateSubscription(this.env, getCustomerOrganizationId(customerId), { planType });
+    return { url: successUrl };
+  }
+
+  // There is no hosted portal offline; return straight to the app
+  async createPortalSession(_customerId: string, returnUrl: string) {
+    return { url: returnUrl };
+  }
+
+  // Simulated subscriptions are not invoiced
+  async listInvoices(): Promise<BillingInvoice[]> {
+    return [];
+  }
+
+  async cancelSubscriptions(customerId: string) {
+    return this.setCancelAtPeriodEnd(customerId, true);
+  }
+
+  async resumeSubscriptions(customerId: string, subscriptionIds: readonly string[]) {
+    await this.setCancelAtPeriodEnd(customerId, false, subscriptionIds);
+  }
+
+  async deleteCustomer(customerId: string) {
+    await getStorage(this.env, getCustomerOrganizationId(customerId)).setLocalSubscription(null);
+  }
+
+  // Keeps the current period, and updates the cache as the webhook would.
+  // Only `subscriptionIds`, if given; returns the IDs of the updated subscriptions.
+  private async setCancelAtPeriodEnd(
+    customerId: string,
+    cancelAtPeriodEnd: boolean,
+    subscriptionIds?: readonly string[],
+  ): Promise<string[]> {
+    const stub = getStorage(this.env, getCustomerOrganizationId(customerId));
+    const subscription = await stub.getLocalSubscription();
+    if (
+      !subscription ||
+      subscription.cancelAtPeriodEnd === cancelAtPeriodEnd ||
+      (subscriptionIds && !subscriptionIds.includes(subscription.subscriptionId))
+    ) {
+      return [];
+    }
+
+    const updated = { ...subscription, cancelAtPeriodEnd };
+    await stub.setLocalSubscription(updated);
+    await stub.saveSubscriptionState(toSubscriptionState(updated), Math.floor(Date.now() / 1000));
+    return [subscription.subscriptionId];
+  }
+}
+
+export interface SimulateSubscriptionInput {
+  // null cancels and removes the subscription
+  planType: PaidPlanType | null;
+  status?: SubscriptionStatus;
+  cancelAtPeriodEnd?: boolean;
+  // false simulates a missed webhook: only reconciling picks up the change
+  deliverWebhook?: boolean;
+}
+
+/**
+ * Change an organization's simulated subscription
+ */
+export async function simulateSubscription(
+  env: Env,
+  orgId: string,
+  {
+    planType,
+    status = 'active',
+    cancelAtPeriodEnd = false,
+    deliverWebhook = true,
+  }: SimulateSubscriptionInput,
+): Promise<{ state: BillingEntitlements; webhookDelivered: boolean }> {
+  const stub = getStorage(env, orgId);
+  // The local provider does not record who created the customer
+  await stub.getOrCreateStripeCustomer(orgId, orgId);
+
+  const now = Math.floor(Date.now() / 1000);
+  const subscription: LocalSubscription | null = planType
+    ? {
+        subscriptionId: `sub_local_${orgId}`,
+        planType,
+        status,
+        currentPeriodEnd: now + LOCAL_PERIOD_SECONDS,
+        cancelAtPeriodEnd,
+      }
+    : null;
+  await stub.setLocalSubscription(subscription);
+
+  const state = toSubscriptionState(subscription);
+  if (deliverWebhook) {
+    // Same cache update as a Stripe customer.subscription.* event
+    await stub.saveSubscriptionState(state, now);
+  }
+
+  return { state, webhookDelivered: deliverWebhook };
+}
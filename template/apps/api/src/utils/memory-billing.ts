@@ -0,0 +1,131 @@
+/**
+ * In-Memory Billing Provider (test double)
+ *
+ * Implements BillingProvider without Stripe or storage, for unit tests of
+ * routes and middleware:
+ *
+ *   const billing = new MemoryBillingProvider();
+ *   billing.setEntitlements('cus_mem_org_1', { planType: 'STANDARD', status: 'active' });
+ *   app.use('/api/*', async (c, next) => { c.set('billing', billing); await next(); });
+ *
+ * Every call is recorded in `calls`. Set `failWith` to make all operations
+ * throw (e.g. to test the stale-cache fallback during a provider outage).
+ */
+import type {
+  BillingEntitlements,
+  BillingInvoice,
+  BillingProvider,
+  CheckoutSessionInput,
+} from './billing-provider';
+
+const FREE_ENTITLEMENTS: BillingEntitlements = {
+  subscriptionId: null,
+  planType: 'FREE',
+  status: null,
+  priceId: null,
+  currentPeriodEnd: null,
+  cancelAtPeriodEnd: false,
+};
+
+export interface MemoryBillingCall {
+  method: keyof BillingProvider;
+  args: unknown[];
+}
+
+export class MemoryBillingProvider implements BillingProvider {
+  readonly calls: MemoryBillingCall[] = [];
+  failWith: Error | null = null;
+
+  private readonly customers = new Map<string, string>();
+  private readonly entitlements = new Map<string, BillingEntitlements>();
+  private readonly invoices = new Map<string, BillingInvoice[]>();
+
+  /**
+   * Set the entitlements of a customer (unset fields default to FREE)
+   */
+  setEntitlements(customerId: string, entitlements: Partial<BillingEntitlements>): void {
+    this.entitlements.set(customerId, { ...FREE_ENTITLEMENTS, ...entitlements });
+  }
+
+  setInvoices(customerId: string, invoices: BillingInvoice[]): void {
+    this.invoices.set(customerId, invoices);
+  }
+
+  private record(method: keyof BillingProvider, args: unknown[]): void {
+    this.calls.push({ method, args });
+    if (this.failWith) throw this.failWith;
+  }
+
+  async getOrCreateCustomer(orgId: string, userId: string) {
+    this.record('getOrCreateCustomer', [orgId, userId]);
+    let customerId = this.customers.get(orgId);
+    if (!customerId) {
+      customerId = `cus_mem_${orgId}`;
+      this.customers.set(orgId, customerId);
+    }
+    return customerId;
+  }
+
+  async getEntitlements(customerId: string) {
+    this.record('getEntitlements', [customerId]);
+    return this.entitlements.get(customerId) ?? FREE_ENTITLEMENTS;
+  }
+
+  async createCustomerSession(customerId: string) {
+    this.record('createCustomerSession', [customerId]);
+    return { clientSecret: `cuss_mem_secret_${customerId}` };
+  }
+
+  async createCheckoutSession(customerId: string, input: CheckoutSessionInput) {
+    this.record('createCheckoutSession', [customerId, input]);
+    return { url: `https://billing.test/checkout/${customerId}?price=${input.priceId}` };
+  }
+
+  async createPortalSession(customerId: string, returnUrl: string) {
+    this.record('createPortalSession', [customerId, returnUrl]);
+    return { url: `https://billing.test/portal/${customerId}` };
+  }
+
+  async listInvoices(customerId: string, { limit = 10 }: { limit?: number } = {}) {
+    this.record('listInvoices', [customerId, { limit }]);
+    return (this.invoices.get(customerId) ?? []).slice(0, limit);
+  }
+
+  async cancelSubscriptions(customerId: string) {
+    this.record('cancelSubscriptions', [customerId]);
+    return this.setCancelAtPeriodEnd(customerId, true);
+  }
+
+  async resumeSubscriptions(customerId: string, subscriptionIds: readonly string[]) {
+    this.record('resumeSubscriptions', [customerId, subscriptionIds]);
+    this.setCancelAtPeriodEnd(customerId, false, subscriptionIds);
+  }
+
+  async deleteCustomer(customerId: string) {
+    this.record('deleteCustomer', [customerId]);
+    this.entitlements.delete(customerId);
+    this.invoices.delete(customerId);
+    for (const [orgId, id] of this.customers) {
+      if (id === customerId) this.customers.delete(orgId);
+    }
+  }
+
+  private setCancelAtPeriodEnd(
+    customerId: string,
+    cancelAtPeriodEnd: boolean,
+    subscriptionIds?: readonly string[],
+  ): string[] {
+    const entitlements = this.entitlements.get(customerId);
+    const subscriptionId = entitlements?.subscriptionId;
+    if (
+      !entitlements ||
+      !subscriptionId ||
+      entitlements.cancelAtPeriodEnd === cancelAtPeriodEnd ||
+      (subscriptionIds && !subscriptionIds.includes(subscriptionId))
+    ) {
+      return [];
+    }
+    this.entitlements.set(customerId, { ...entitlements, cancelAtPeriodEnd });
+    return [subscriptionId];
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Offboarding Utilities
+ */
+import type { Env } from '../types/env';
+import { DEFAULT_OFFBOARDING_GRACE_DAYS } from '../constants/offboarding';
+
+/**
+ * Grace period between scheduling a deletion and purging the data (seconds)
+ * OFFBOARDING_GRACE_DAYS may be fractional (e.g. "0.01" to try the purge).
+ */
+export function getOffboardingGracePeriod(env: Pick<Env, 'OFFBOARDING_GRACE_DAYS'>): number {
+  const value = env.OFFBOARDING_GRACE_DAYS;
+  const days = Number(value);
+  const graceDays =
+    value && Number.isFinite(days) && days >= 0 ? days : DEFAULT_OFFBOARDING_GRACE_DAYS;
+  return Math.round(graceDays * 24 * 60 * 60);
+}
@@ -0,0 +1,88 @@
+/**
+ * OpenAPI Utilities
+ *
+ * Route modules use `createRouter()` and declare each endpoint with
+ * `createRoute`, so requests are validated with zod and the endpoint appears
+ * in the OpenAPI document served at /api/openapi.json.
+ */
+import { OpenAPIHono, z } from '@hono/zod-openapi';
+import type { Env } from '../types/env';
+import type { Variables } from '../middleware/auth';
+import { ERROR_CODES } from '../constants/error-codes';
+import { ValidationError } from './errors';
+
+/**
+ * Router whose validation failures use the API error envelope
+ */
+export function createRouter() {
+  return new OpenAPIHono<{ Bindings: Env; Variables: Variables }>({
+    defaultHook: (result) => {
+      if (!result.success) {
+        const issues = result.error.issues.map((issue) => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        }));
+        throw new ValidationError(
+          issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; '),
+          { details: { issues } },
+        );
+      }
+    },
+  });
+}
+
+export const ErrorEnvelopeSchema = z
+  .object({
+    error: z.object({
+      code: z.enum(ERROR_CODES),
+      message: z.string(),
+      requestId: z.string(),
+      details: z.record(z.string(), z.unknown()).optional(),
+    }),
+  })
+  .openapi('ErrorEnvelope');
+
+const ERROR_DESCRIPTIONS = {
+  400: 'Invalid request',
+  401: 'Not authenticated',
+  402: 'Plan limit reached or feature not available',
+  403: 'Missing permission',
+  404: 'Not found',
+  409: 'Conflict with the current state',
+  429: 'Rate limit exceeded',
+  500: 'Internal error',
+  502: 'Upstream provider error',
+  503: 'Service unavailable',
+} as const;
+
+/**
+ * Error responses for createRoute
+ * Usage: responses: { 200: {...}, ...errorResponses(401, 403) }
+ */
+export function errorResponses<S extends keyof typeof ERROR_DESCRIPTIONS>(...statuses: S[]) {
+  const responses = {} as Record<S, ReturnType<typeof jsonResponse<typeof ErrorEnvelopeSchema>>>;
+  for (const status of statuses) {
+    responses[status] = jsonResponse(ErrorEnvelopeSchema, ERROR_DESCRIPTIONS[status]);
+  }
+  return responses;
+}
+
+/**
+ * JSON response for createRoute
+ */
+export function jsonResponse<T extends z.ZodType>(schema: T, description: string) {
+  return {
+    description,
+    content: { 'application/json': { schema } },
+  };
+}
+
+/**
+ * JSON request body for createRoute
+ */
+export function jsonBody<T extends z.ZodType>(schema: T) {
+  return {
+    required: true,
+    content: { 'application/json': { schema } },
+  };
+}
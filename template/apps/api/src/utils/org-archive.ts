@@ -0,0 +1,287 @@
+/**
+ * Organization Data Archive
+ *
+ * Versioned NDJSON export of every data table of an OrganizationStorage,
+ * one JSON object per line:
+ *
+ *   {"type":"header","format":"org-archive","version":1,"orgId":"org_...",
+ *    "exportedAt":"2025-01-01T00:00:00.000Z","schemaVersion":"0007_audit_events",
+ *    "tables":[{"name":"items","columns":["id","name","created_by","created_at"]}]}
+ *   {"type":"row","table":"items","row":{"id":"...","name":"...",...}}
+ *   {"type":"end","rows":{"items":1}}
+ *
+ * Rows follow table by table. The end line carries the row count per table,
+ * so an importer can tell a complete archive from a truncated one.
+ * Key-value storage (runtime state such as the stored orgId) is not exported.
+ */
+import { z } from '@hono/zod-openapi';
+import type { DataRow, OrganizationStorage } from '../durable-objects/organization-storage';
+import { ConflictError, ValidationError } from './errors';
+
+export const ORG_ARCHIVE_FORMAT = 'org-archive';
+export const ORG_ARCHIVE_VERSION = 1;
+
+// Rows fetched from the Durable Object per chunk
+const ARCHIVE_PAGE_SIZE = 500;
+
+// Longest accepted line of an imported archive
+const MAX_LINE_LENGTH = 1024 * 1024;
+
+// Rows written per importRows call (one transaction each)
+const IMPORT_BATCH_SIZE = 200;
+
+// Tables the target keeps its own rows of: API keys embed the source
+// organization ID and cannot authenticate elsewhere; settings (Clerk profile,
+// Stripe customer ID), members and processed webhook events come from the
+// target's Clerk webhooks; subscription state belongs to the source's customer
+const IMPORT_SKIPPED_TABLES = [
+  'api_keys',
+  'organization_settings',
+  'members',
+  'processed_webhook_events',
+  'subscription_state',
+];
+
+const ArchiveHeaderSchema = z.object({
+  type: z.literal('header'),
+  format: z.literal(ORG_ARCHIVE_FORMAT),
+  version: z.literal(ORG_ARCHIVE_VERSION),
+  orgId: z.string(),
+  exportedAt: z.string(),
+  schemaVersion: z.string().nullable(),
+  tables: z.array(z.object({ name: z.string(), columns: z.array(z.string()) })),
+});
+
+const ArchiveLineSchema = z.discriminatedUnion('type', [
+  ArchiveHeaderSchema,
+  z.object({
+    type: z.literal('row'),
+    table: z.string(),
+    row: z.record(z.string(), z.union([z.string(), z.number(), z.null()])),
+  }),
+  z.object({
+    type: z.literal('end'),
+    rows: z.record(z.string(), z.number().int().nonnegative()),
+  }),
+]);
+
+export type ArchiveLine = z.infer<typeof ArchiveLineSchema>;
+
+/**
+ * Stream the archive of an organization
+ * The manifest is read up front (so failures surface before the response
+ * starts); rows are then pulled from the Durable Object one page at a time
+ * as the client reads.
+ */
+export async function createOrganizationArchive(
+  stub: DurableObjectStub<OrganizationStorage>,
+  orgId: string,
+): Promise<ReadableStream<Uint8Array>> {
+  const manifest = await stub.getDataManifest();
+  const tables = manifest.tables.map(({ name, columns }) => ({ name, columns }));
+
+  const encoder = new TextEncoder();
+  const encodeLines = (lines: ArchiveLine[]) =>
+    encoder.encode(lines.map((line) => `${JSON.stringify(line)}\n`).join(''));
+
+  const rowCounts: Record<string, number> = {};
+  let tableIndex = 0;
+  let afterRowid = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(
+        encodeLines([
+          {
+            type: 'header',
+            format: ORG_ARCHIVE_FORMAT,
+            version: ORG_ARCHIVE_VERSION,
+            orgId,
+            exportedAt: new Date().toISOString(),
+            schemaVersion: manifest.schemaVersion,
+            tables,
+          },
+        ]),
+      );
+    },
+    // Loops over empty tables: a pull that enqueues nothing is not called again
+    async pull(controller) {
+      for (;;) {
+        const table = tables[tableIndex];
+        if (!table) {
+          controller.enqueue(encodeLines([{ type: 'end', rows: rowCounts }]));
+          controller.close();
+          return;
+        }
+
+        const page = await stub.exportTableRows(table.name, afterRowid, ARCHIVE_PAGE_SIZE);
+        rowCounts[table.name] = (rowCounts[table.name] ?? 0) + page.rows.length;
+
+        if (page.lastRowid === null || page.rows.length < ARCHIVE_PAGE_SIZE) {
+          tableIndex += 1;
+          afterRowid = 0;
+        } else {
+          afterRowid = page.lastRowid;
+        }
+
+        if (page.rows.length) {
+          controller.enqueue(
+            encodeLines(page.rows.map((row) => ({ type: 'row', table: table.name, row }))),
+          );
+          return;
+        }
+      }
+    },
+  });
+}
+
+/**
+ * Parse an archive line by line
+ * Throws ValidationError for lines that are not valid archive lines.
+ */
+export async function* readOrganizationArchive(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ArchiveLine> {
+  let buffered = '';
+  let lineNumber = 0;
+
+  const parse = (text: string): ArchiveLine => {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      throw new ValidationError(`Archive line ${lineNumber} is not valid JSON`);
+    }
+    const result = ArchiveLineSchema.safeParse(value);
+    if (!result.success) {
+      throw new ValidationError(`Archive line ${lineNumber} is not a valid archive line`, {
+        details: { line: lineNumber, issues: result.error.issues.map((issue) => issue.message) },
+      });
+    }
+    return result.data;
+  };
+
+  for await (const chunk of body.pipeThrough(new TextDecoderStream())) {
+    buffered += chunk;
+    let newline: number;
+    while ((newline = buffered.indexOf('\n')) !== -1) {
+      const text = buffered.slice(0, newline).trim();
+      buffered = buffered.slice(newline + 1);
+      lineNumber += 1;
+      if (text) yield parse(text);
+    }
+    if (buffered.length > MAX_LINE_LENGTH) {
+      throw new ValidationError(`Archive line ${lineNumber + 1} is too long`);
+    }
+  }
+
+  if (buffered.trim()) {
+    lineNumber += 1;
+    yield parse(buffered.trim());
+  }
+}
+
+export interface ArchiveImportResult {
+  source: { orgId: string; exportedAt: string };
+  // Imported rows per table
+  rows: Record<string, number>;
+  // Tables present in the archive but not imported (see IMPORT_SKIPPED_TABLES)
+  skippedTables: string[];
+}
+
+/**
+ * Restore an archive into a fresh organization
+ * Tables and columns must exist in the target (archives from an older schema
+ * import into a newer one). Rows are written in batches; an interrupted
+ * import can be retried with the same archive.
+ */
+export async function importOrganizationArchive(
+  stub: DurableObjectStub<OrganizationStorage>,
+  body: ReadableStream<Uint8Array>,
+): Promise<ArchiveImportResult> {
+  const lines = readOrganizationArchive(body);
+
+  const first = await lines.next();
+  if (first.done || first.value.type !== 'header') {
+    throw new ValidationError('Archive must start with a header line');
+  }
+  const header = first.value;
+
+  const target = await stub.getDataManifest();
+  if ((header.schemaVersion ?? '') > (target.schemaVersion ?? '')) {
+    throw new ValidationError('Archive is from a newer schema version', {
+      details: { archive: header.schemaVersion, target: target.schemaVersion },
+    });
+  }
+
+  const archiveColumns = new Map<string, Set<string>>();
+  for (const table of header.tables) {
+    const targetTable = target.tables.find((candidate) => candidate.name === table.name);
+    const unknown = table.columns.filter((column) => !targetTable?.columns.includes(column));
+    if (!targetTable || unknown.length) {
+      throw new ValidationError(`Archive table ${table.name} does not match the schema`, {
+        details: { table: table.name, unknownColumns: unknown },
+      });
+    }
+    archiveColumns.set(table.name, new Set(table.columns));
+  }
+
+  const source = { orgId: header.orgId, exportedAt: header.exportedAt };
+  if (!(await stub.beginImport(source))) {
+    throw new ConflictError('Organization already has data; import into a fresh organization');
+  }
+
+  const counts: Record<string, number> = {};
+  let batchTable: string | null = null;
+  let batchRows: DataRow[] = [];
+  const flush = async () => {
+    if (batchTable && batchRows.length) {
+      await stub.importRows(batchTable, batchRows);
+    }
+    batchRows = [];
+  };
+
+  for await (const line of lines) {
+    if (line.type === 'header') {
+      throw new ValidationError('Archive has more than one header line');
+    }
+
+    if (line.type === 'end') {
+      await flush();
+      const mismatched = Object.keys({ ...line.rows, ...counts }).filter(
+        (table) => (line.rows[table] ?? 0) !== (counts[table] ?? 0),
+      );
+      if (mismatched.length) {
+        throw new ValidationError('Archive row counts do not match its contents', {
+          details: { tables: mismatched },
+        });
+      }
+
+      await stub.finishImport();
+      return {
+        source,
+        rows: Object.fromEntries(
+          Object.entries(counts).filter(([table]) => !IMPORT_SKIPPED_TABLES.includes(table)),
+        ),
+        skippedTables: header.tables
+          .map((table) => table.name)
+          .filter((table) => IMPORT_SKIPPED_TABLES.includes(table)),
+      };
+    }
+
+    const columns = archiveColumns.get(line.table);
+    if (!columns || Object.keys(line.row).some((column) => !columns.has(column))) {
+      throw new ValidationError(`Archive row does not match table ${line.table}`);
+    }
+    counts[line.table] = (counts[line.table] ?? 0) + 1;
+    if (IMPORT_SKIPPED_TABLES.includes(line.table)) continue;
+
+    if (batchTable !== line.table || batchRows.length >= IMPORT_BATCH_SIZE) {
+      await flush();
+      batchTable = line.table;
+    }
+    batchRows.push(line.row);
+  }
+
+  throw new ValidationError('Archive is truncated (no end line)');
+}
@@ -0,0 +1,43 @@
+/**
+ * Organization Registry Utilities
+ */
+import type { Env } from '../types/env';
+import type { OrganizationListPosition } from '../durable-objects/organization-registry';
+import { decodeBase64Url, encodeBase64Url } from './encoding';
+
+// The registry is a single global instance
+const REGISTRY_NAME = 'global';
+
+/**
+ * Stub of the global OrganizationRegistry
+ */
+export function getOrganizationRegistry(env: Env) {
+  return env.ORGANIZATION_REGISTRY.get(env.ORGANIZATION_REGISTRY.idFromName(REGISTRY_NAME));
+}
+
+/**
+ * Opaque pagination cursor for a list position
+ */
+export function encodeRegistryCursor(position: OrganizationListPosition): string {
+  return encodeBase64Url(JSON.stringify([position.createdAt, position.orgId]));
+}
+
+/**
+ * Parse a cursor from encodeRegistryCursor (null if malformed)
+ */
+export function decodeRegistryCursor(cursor: string): OrganizationListPosition | null {
+  try {
+    const value: unknown = JSON.parse(decodeBase64Url(cursor));
+    if (
+      Array.isArray(value) &&
+      value.length === 2 &&
+      Number.isInteger(value[0]) &&
+      typeof value[1] === 'string'
+    ) {
+      return { createdAt: value[0] as number, orgId: value[1] };
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
@@ -0,0 +1,292 @@
+/**
+ * Stripe Billing Provider
+ *
+ * The only module (with stripe-customer.ts and the webhook) that knows about
+ * Stripe objects. Everything else works with BillingEntitlements.
+ */
+import Stripe from 'stripe';
+import {
+  PLAN_RANK,
+  UNKNOWN_PRICE_PLAN,
+  getPlanTypeForPrice,
+  type PaidPlanType,
+  type PlanType,
+} from '../constants/plans';
+import type {
+  BillingEntitlements,
+  BillingInvoice,
+  BillingProvider,
+  CheckoutSessionInput,
+} from './billing-provider';
+import { isEntitledStatus } from './billing-plan';
+import { ConfigurationError } from './errors';
+import { createStripeCustomer } from './stripe-customer';
+
+/**
+ * Stripe API version, pinned to the version the installed SDK is typed for
+ * Upgrade the `stripe` package and this value together.
+ */
+export const STRIPE_API_VERSION: Stripe.LatestApiVersion = '2025-02-24.acacia';
+
+/**
+ * Create a Stripe client
+ */
+export function createStripeClient(secretKey: string): Stripe {
+  return new Stripe(secretKey, {
+    apiVersion: STRIPE_API_VERSION,
+  });
+}
+
+/**
+ * Find the subscription item that determines the plan
+ * (the highest-ranked catalog price, or the first item if none match)
+ */
+function getPlanItem(
+  subscription: Stripe.Subscription,
+): { priceId: string | null; planType: PaidPlanType | null } {
+  let best: { priceId: string; planType: PaidPlanType } | null = null;
+
+  for (const item of subscription.items.data) {
+    const planType = getPlanTypeForPrice(item.price.id);
+    if (planType && (!best || PLAN_RANK[planType] > PLAN_RANK[best.planType])) {
+      best = { priceId: item.price.id, planType };
+    }
+  }
+
+  return best ?? { priceId: subscription.items.data[0]?.price?.id ?? null, planType: null };
+}
+
+/**
+ * Get subscription plan type from a Stripe subscription
+ */
+export function getSubscriptionPlanType(
+  subscription: Stripe.Subscription | null,
+): PlanType {
+  if (!subscription || !isEntitledStatus(subscription.status)) {
+    return 'FREE';
+  }
+  return getPlanItem(subscription).planType ?? UNKNOWN_PRICE_PLAN;
+}
+
+/**
+ * Pick the subscription that determines a customer's plan
+ * Entitled subscriptions win over others, then the higher plan.
+ */
+export function selectPrimarySubscription(
+  subscriptions: Stripe.Subscription[],
+): Stripe.Subscription | null {
+  let primary: Stripe.Subscription | null = null;
+
+  for (const subscription of subscriptions) {
+    if (!primary) {
+      primary = subscription;
+      continue;
+    }
+    const entitled = isEntitledStatus(subscription.status);
+    const primaryEntitled = isEntitledStatus(primary.status);
+    if (entitled !== primaryEntitled) {
+      if (entitled) primary = subscription;
+      continue;
+    }
+    if (
+      PLAN_RANK[getSubscriptionPlanType(subscription)] >
+      PLAN_RANK[getSubscriptionPlanType(primary)]
+    ) {
+      primary = subscription;
+    }
+  }
+
+  return primary;
+}
+
+/**
+ * Convert a Stripe subscription into entitlements
+ */
+export function toSubscriptionState(
+  subscription: Stripe.Subscription | null,
+): BillingEntitlements {
+  const item = subscription ? getPlanItem(subscription) : null;
+
+  if (subscription && item && !item.planType && isEntitledStatus(subscription.status)) {
+    console.warn(
+      `Subscription ${subscription.id}: price ${item.priceId} is not in PLAN_CATALOG, using ${UNKNOWN_PRICE_PLAN}`,
+    );
+  }
+
+  return {
+    subscriptionId: subscription?.id ?? null,
+    planType: getSubscriptionPlanType(subscription),
+    status: subscription?.status ?? null,
+    priceId: item?.priceId ?? null,
+    currentPeriodEnd: subscription?.current_period_end ?? null,
+    cancelAtPeriodEnd: subscription?.cancel_at_period_end ?? false,
+  };
+}
+
+/**
+ * Fetch the current entitlements of a customer directly from Stripe
+ * Stripe errors are thrown, never mapped to FREE: an outage must not
+ * downgrade paying customers.
+ */
+export async function fetchSubscriptionState(
+  stripe: Stripe,
+  customerId: string,
+): Promise<BillingEntitlements> {
+  // Stripe's default filter: every subscription that has not been canceled,
+  // however many canceled ones the customer has
+  const current: Stripe.Subscription[] = [];
+  for await (const subscription of stripe.subscriptions.list({
+    customer: customerId,
+    limit: 100,
+  })) {
+    current.push(subscription);
+  }
+  if (current.length) {
+    return toSubscriptionState(selectPrimarySubscription(current));
+  }
+
+  // Churned customer: the most recently created canceled subscription
+  const canceled = await stripe.subscriptions.list({
+    customer: customerId,
+    status: 'canceled',
+    limit: 1,
+  });
+  return toSubscriptionState(canceled.data[0] ?? null);
+}
+
+// Subscriptions that can still be canceled at period end (others have ended or never started)
+const CANCELABLE_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due', 'unpaid'];
+
+function toBillingInvoice(invoice: Stripe.Invoice): BillingInvoice {
+  return {
+    id: invoice.id,
+    number: invoice.number,
+    status: invoice.status,
+    amountDue: invoice.amount_due,
+    amountPaid: invoice.amount_paid,
+    currency: invoice.currency,
+    created: invoice.created,
+    hostedInvoiceUrl: invoice.hosted_invoice_url ?? null,
+    pdfUrl: invoice.invoice_pdf ?? null,
+  };
+}
+
+export class StripeBillingProvider implements BillingProvider {
+  private client: Stripe | null = null;
+
+  constructor(
+    private readonly secretKey: string | undefined,
+    private readonly clerkSecretKey?: string,
+  ) {}
+
+  /**
+   * Stripe client, created on first use
+   */
+  private get stripe(): Stripe {
+    if (!this.client) {
+      if (!this.secretKey) {
+        throw new ConfigurationError('STRIPE_SECRET_KEY is not configured');
+      }
+      this.client = createStripeClient(this.secretKey);
+    }
+    return this.client;
+  }
+
+  getOrCreateCustomer(orgId: string, userId: string): Promise<string> {
+    return createStripeCustomer(this.stripe, orgId, userId, this.clerkSecretKey);
+  }
+
+  getEntitlements(customerId: string) {
+    return fetchSubscriptionState(this.stripe, customerId);
+  }
+
+  async createCustomerSession(customerId: string) {
+    const customerSession = await this.stripe.customerSessions.create({
+      customer: customerId,
+      components: {
+        pricing_table: {
+          enabled: true,
+        },
+      },
+    });
+    return { clientSecret: customerSession.client_secret };
+  }
+
+  async createCheckoutSession(
+    customerId: string,
+    { priceId, successUrl, cancelUrl }: CheckoutSessionInput,
+  ) {
+    const session = await this.stripe.checkout.sessions.create({
+      mode: 'subscription',
+      customer: customerId,
+      line_items: [{ price: priceId, quantity: 1 }],
+      success_url: successUrl,
+      cancel_url: cancelUrl,
+    });
+    if (!session.url) {
+      throw new Error(`Checkout session ${session.id} has no URL`);
+    }
+    return { url: session.url };
+  }
+
+  async createPortalSession(customerId: string, returnUrl: string) {
+    const portalSession = await this.stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: returnUrl,
+    });
+    return { url: portalSession.url };
+  }
+
+  async listInvoices(customerId: string, { limit = 10 }: { limit?: number } = {}) {
+    const invoices = await this.stripe.invoices.list({ customer: customerId, limit });
+    return invoices.data.map(toBillingInvoice);
+  }
+
+  async cancelSubscriptions(customerId: string) {
+    return this.setCancelAtPeriodEnd(customerId, true);
+  }
+
+  async resumeSubscriptions(customerId: string, subscriptionIds: readonly string[]) {
+    if (!subscriptionIds.length) return;
+    await this.setCancelAtPeriodEnd(customerId, false, subscriptionIds);
+  }
+
+  async deleteCustomer(customerId: string) {
+    try {
+      await this.stripe.customers.del(customerId);
+    } catch (error) {
+      const missing =
+        error instanceof Stripe.errors.StripeInvalidRequestError &&
+        error.code === 'resource_missing';
+      if (missing) return;
+      throw error;
+    }
+  }
+
+  // Only `subscriptionIds`, if given; returns the IDs of the updated subscriptions.
+  // The subscription webhooks update the cached state.
+  private async setCancelAtPeriodEnd(
+    customerId: string,
+    cancelAtPeriodEnd: boolean,
+    subscriptionIds?: readonly string[],
+  ): Promise<string[]> {
+    const updated: string[] = [];
+    for await (const subscription of this.stripe.subscriptions.list({
+      customer: customerId,
+      status: 'all',
+      limit: 100,
+    })) {
+      if (
+        (!subscriptionIds || subscriptionIds.includes(subscription.id)) &&
+        CANCELABLE_STATUSES.includes(subscription.status) &&
+        subscription.cancel_at_period_end !== cancelAtPeriodEnd
+      ) {
+        await this.stripe.subscriptions.update(subscription.id, {
+          cancel_at_period_end: cancelAtPeriodEnd,
+        });
+        updated.push(subscription.id);
+      }
+    }
+    return updated;
+  }
+}
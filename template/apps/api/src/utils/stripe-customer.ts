@@ -0,0 +1,174 @@
+/**
+ * Stripe Customer Utilities
+ */
+import Stripe from 'stripe';
+import type { OrganizationStorage } from '../durable-objects/organization-storage';
+import { getClerkOrganization, getClerkUser } from './clerk';
+import { fetchSubscriptionState } from './stripe-billing';
+
+/**
+ * Idempotency key for creating an organization's Stripe customer
+ * Retries within Stripe's 24h idempotency window return the same customer.
+ */
+export function customerIdempotencyKey(orgId: string): string {
+  return `org-customer-create:${orgId}`;
+}
+
+/**
+ * Find Stripe customers created for an organization
+ */
+export async function findCustomersByOrganization(
+  stripe: Stripe,
+  orgId: string,
+): Promise<Stripe.Customer[]> {
+  const result = await stripe.customers.search({
+    query: `metadata['organization_id']:'${orgId.replace(/'/g, "\\'")}'`,
+    limit: 100,
+  });
+  return result.data;
+}
+
+/**
+ * Create Stripe customer for organization
+ * Call through OrganizationStorage.getOrCreateStripeCustomer, which
+ * serializes creation per organization.
+ */
+export async function createStripeCustomer(
+  stripe: Stripe,
+  orgId: string,
+  userId: string,
+  clerkSecretKey?: string,
+): Promise<string> {
+  // Get customer name and email
+  let customerName = orgId;
+  let customerEmail: string | undefined;
+
+  if (clerkSecretKey) {
+    if (orgId === userId) {
+      // Personal account
+      const user = await getClerkUser(userId, clerkSecretKey);
+      if (user) {
+        customerEmail = user.email_addresses[0]?.email_address;
+        const fullName = [user.first_name, user.last_name].filter(Boolean).join(' ');
+        customerName = fullName || customerEmail || orgId;
+      }
+    } else {
+      // Organization account
+      const org = await getClerkOrganization(orgId, clerkSecretKey);
+      if (org?.name) {
+        customerName = org.name;
+      }
+    }
+  }
+
+  try {
+    const customer = await stripe.customers.create(
+      {
+        name: customerName,
+        email: customerEmail,
+        metadata: {
+          organization_id: orgId,
+          user_id: userId,
+        },
+      },
+      { idempotencyKey: customerIdempotencyKey(orgId) },
+    );
+    return customer.id;
+  } catch (error) {
+    // Same key with different parameters (e.g. the Clerk lookup failed on an
+    // earlier attempt): the customer already exists, find it instead
+    if (error instanceof Stripe.errors.StripeIdempotencyError) {
+      const [existing] = await findCustomersByOrganization(stripe, orgId);
+      if (existing) return existing.id;
+    }
+    throw error;
+  }
+}
+
+export interface DuplicateCustomerRepairResult {
+  orgId: string;
+  canonicalCustomerId: string | null;
+  deletedCustomerIds: string[];
+  // Duplicates with subscriptions cannot be merged automatically
+  conflictingCustomerIds: string[];
+  dryRun: boolean;
+}
+
+/**
+ * Find and merge duplicate Stripe customers of an organization
+ *
+ * The canonical customer is the first customer with a subscription
+ * (preferring the one stored in OrganizationStorage), else the stored one,
+ * else the oldest. Duplicates without subscriptions are deleted; duplicates
+ * with subscriptions are tagged with `metadata.duplicate_of` and reported for
+ * manual review.
+ */
+export async function repairDuplicateCustomers(
+  stripe: Stripe,
+  stub: DurableObjectStub<OrganizationStorage>,
+  orgId: string,
+  { dryRun = true }: { dryRun?: boolean } = {},
+): Promise<DuplicateCustomerRepairResult> {
+  const customers = await findCustomersByOrganization(stripe, orgId);
+  const { stripeCustomerId } = await stub.getSettings();
+
+  const result: DuplicateCustomerRepairResult = {
+    orgId,
+    canonicalCustomerId: stripeCustomerId,
+    deletedCustomerIds: [],
+    conflictingCustomerIds: [],
+    dryRun,
+  };
+  if (customers.length === 0) return result;
+
+  const subscriptionCounts = new Map<string, number>();
+  for (const customer of customers) {
+    const subscriptions = await stripe.subscriptions.list({
+      customer: customer.id,
+      status: 'all',
+      limit: 1,
+    });
+    subscriptionCounts.set(customer.id, subscriptions.data.length);
+  }
+
+  const hasSubscription = (customer: Stripe.Customer) =>
+    (subscriptionCounts.get(customer.id) ?? 0) > 0;
+  const byAge = [...customers].sort((a, b) => a.created - b.created);
+  const stored = customers.find((customer) => customer.id === stripeCustomerId);
+  const canonical =
+    (stored && hasSubscription(stored) ? stored : undefined) ??
+    byAge.find(hasSubscription) ??
+    stored ??
+    byAge[0];
+  result.canonicalCustomerId = canonical.id;
+
+  for (const customer of customers) {
+    if (customer.id === canonical.id) continue;
+
+    if (hasSubscription(customer)) {
+      result.conflictingCustomerIds.push(customer.id);
+      if (!dryRun) {
+        await stripe.customers.update(customer.id, {
+          metadata: { duplicate_of: canonical.id },
+        });
+      }
+      continue;
+    }
+
+    result.deletedCustomerIds.push(customer.id);
+    if (!dryRun) {
+      await stripe.customers.del(customer.id);
+    }
+  }
+
+  if (!dryRun && stripeCustomerId !== canonical.id) {
+    await stub.setStripeCustomerId(canonical.id);
+    await stub.saveSubscriptionState(await fetchSubscriptionState(stripe, canonical.id));
+  }
+
+  if (result.deletedCustomerIds.length || result.conflictingCustomerIds.length) {
+    console.warn('Duplicate Stripe customers found:', JSON.stringify(result));
+  }
+
+  return result;
+}
@@ -0,0 +1,133 @@
+/**
+ * Subscription cache staleness and reconciliation
+ * The billing provider is the in-memory test double; the cache is a real
+ * OrganizationStorage.
+ */
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  SUBSCRIPTION_CACHE_TTL_SECONDS,
+  getOrganizationPlanType,
+  getSubscriptionState,
+  isSubscriptionStateStale,
+} from '../src/utils/billing-plan';
+import { MemoryBillingProvider } from '../src/utils/memory-billing';
+import type { SubscriptionState } from '../src/durable-objects/organization-storage';
+
+const NOW = 1_700_000_000;
+
+function cachedState(state: Partial<SubscriptionState> = {}): SubscriptionState {
+  return {
+    subscriptionId: 'sub_1',
+    planType: 'STANDARD',
+    status: 'active',
+    priceId: 'price_standard_monthly_xxx',
+    currentPeriodEnd: NOW + 60,
+    cancelAtPeriodEnd: false,
+    syncedAt: NOW,
+    ...state,
+  };
+}
+
+describe('isSubscriptionStateStale', () => {
+  it('treats a missing cache as stale', () => {
+    expect(isSubscriptionStateStale(null, NOW)).toBe(true);
+  });
+
+  it('trusts a recent cache', () => {
+    expect(isSubscriptionStateStale(cachedState(), NOW)).toBe(false);
+  });
+
+  it('expires the cache after the TTL', () => {
+    const state = cachedState({ syncedAt: NOW - SUBSCRIPTION_CACHE_TTL_SECONDS - 1 });
+
+    expect(isSubscriptionStateStale(state, NOW)).toBe(true);
+  });
+
+  it('treats an entitled subscription past its period end as stale (missed renewal)', () => {
+    const state = cachedState({ currentPeriodEnd: NOW - 60 });
+
+    expect(isSubscriptionStateStale(state, NOW)).toBe(true);
+  });
+
+  it('keeps an ended subscription cached until the TTL', () => {
+    const state = cachedState({ status: 'canceled', planType: 'FREE', currentPeriodEnd: NOW - 60 });
+
+    expect(isSubscriptionStateStale(state, NOW)).toBe(false);
+    expect(
+      isSubscriptionStateStale(
+        { ...state, syncedAt: NOW - SUBSCRIPTION_CACHE_TTL_SECONDS - 1 },
+        NOW,
+      ),
+    ).toBe(true);
+  });
+});
+
+describe('getSubscriptionState', () => {
+  const customerId = 'cus_mem_1';
+  let orgId: string;
+  let billing: MemoryBillingProvider;
+  const stub = () => env.ORGANIZATION_STORAGE.get(env.ORGANIZATION_STORAGE.idFromName(orgId));
+
+  beforeEach(() => {
+    orgId = `org_${crypto.randomUUID()}`;
+    billing = new MemoryBillingProvider();
+    billing.setEntitlements(customerId, {
+      subscriptionId: 'sub_1',
+      planType: 'STANDARD',
+      status: 'active',
+      currentPeriodEnd: Math.floor(Date.now() / 1000) + 3600,
+    });
+  });
+
+  it('reconciles a missing cache with the provider, then serves the cache', async () => {
+    const state = await getSubscriptionState(billing, stub(), customerId);
+    await getSubscriptionState(billing, stub(), customerId);
+
+    expect(state).toMatchObject({ subscriptionId: 'sub_1', planType: 'STANDARD' });
+    expect(await stub().getSubscriptionState()).toMatchObject({ planType: 'STANDARD' });
+    expect(billing.calls.map((call) => call.method)).toEqual(['getEntitlements']);
+  });
+
+  it('reconciles a stale cache (missed renewal or cancellation)', async () => {
+    // Active, but past its period end: a webhook was missed
+    await stub().saveSubscriptionState({
+      ...cachedState(),
+      currentPeriodEnd: Math.floor(Date.now() / 1000) - 60,
+    });
+    billing.setEntitlements(customerId, { subscriptionId: 'sub_1', status: 'canceled' });
+
+    const state = await getSubscriptionState(billing, stub(), customerId);
+
+    expect(state).toMatchObject({ planType: 'FREE', status: 'canceled' });
+    expect(await stub().getSubscriptionState()).toMatchObject({ planType: 'FREE' });
+  });
+
+  it('serves a stale cache while the provider is unavailable', async () => {
+    await stub().saveSubscriptionState({
+      ...cachedState(),
+      currentPeriodEnd: Math.floor(Date.now() / 1000) - 60,
+    });
+    billing.failWith = new Error('provider outage');
+
+    const state = await getSubscriptionState(billing, stub(), customerId);
+
+    expect(state).toMatchObject({ planType: 'STANDARD', status: 'active' });
+  });
+
+  it('throws when the provider is unavailable and nothing is cached', async () => {
+    billing.failWith = new Error('provider outage');
+
+    await expect(getSubscriptionState(billing, stub(), customerId)).rejects.toThrow(
+      'provider outage',
+    );
+  });
+
+  it('puts organizations without a billing customer on FREE', async () => {
+    expect(await getOrganizationPlanType(billing, stub())).toBe('FREE');
+    expect(billing.calls).toEqual([]);
+
+    await stub().setStripeCustomerId(customerId);
+    expect(await getOrganizationPlanType(billing, stub())).toBe('STANDARD');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Stripe webhook: signature verification and the subscription cache
+ * Payloads are signed locally with the test webhook secret (no network).
+ */
+import { env, SELF } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createStripeClient } from '../src/utils/stripe-billing';
+
+const stripe = createStripeClient(env.STRIPE_SECRET_KEY!);
+
+function subscriptionEvent(
+  orgId: string,
+  {
+    id = 'evt_1',
+    created = 1_700_000_000,
+    status = 'active',
+    priceId = 'price_standard_monthly_xxx',
+  } = {},
+) {
+  return {
+    id,
+    object: 'event',
+    type: 'customer.subscription.updated',
+    created,
+    data: {
+      object: {
+        id: 'sub_1',
+        object: 'subscription',
+        status,
+        // Expanded, so the webhook does not fetch the customer from Stripe
+        customer: {
+          id: 'cus_1',
+          object: 'customer',
+          email: 'billing@example.com',
+          name: 'Acme',
+          metadata: { organization_id: orgId },
+          preferred_locales: [],
+        },
+        items: { object: 'list', data: [{ id: 'si_1', price: { id: priceId } }] },
+        current_period_end: created + 30 * 24 * 60 * 60,
+        cancel_at_period_end: false,
+      },
+    },
+  };
+}
+
+async function postWebhook(payload: string, signature?: string): Promise<Response> {
+  return SELF.fetch('https://api.test/api/billing/webhook', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(signature !== undefined && { 'Stripe-Signature': signature }),
+    },
+    body: payload,
+  });
+}
+
+async function postSignedEvent(event: object): Promise<Response> {
+  const payload = JSON.stringify(event);
+  const signature = await stripe.webhooks.generateTestHeaderStringAsync({
+    payload,
+    secret: env.STRIPE_WEBHOOK_SECRET!,
+  });
+  return postWebhook(payload, signature);
+}
+
+function getStorage(orgId: string) {
+  return env.ORGANIZATION_STORAGE.get(env.ORGANIZATION_STORAGE.idFromName(orgId));
+}
+
+describe('POST /api/billing/webhook', () => {
+  let orgId: string;
+
+  beforeEach(() => {
+    orgId = `org_${crypto.randomUUID()}`;
+  });
+
+  it('rejects a request without a signature', async () => {
+    const response = await postWebhook(JSON.stringify(subscriptionEvent(orgId)));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: { code: 'webhook_signature_invalid' },
+    });
+  });
+
+  it('rejects a payload signed with another secret', async () => {
+    const payload = JSON.stringify(subscriptionEvent(orgId));
+    const signature = await stripe.webhooks.generateTestHeaderStringAsync({
+      payload,
+      secret: 'whsec_other',
+    });
+
+    const response = await postWebhook(payload, signature);
+
+    expect(response.status).toBe(400);
+    expect(await getStorage(orgId).getSubscriptionState()).toBeNull();
+  });
+
+  it('rejects a payload changed after signing', async () => {
+    const payload = JSON.stringify(subscriptionEvent(orgId));
+    const signature = await stripe.webhooks.generateTestHeaderStringAsync({
+      payload,
+      secret: env.STRIPE_WEBHOOK_SECRET!,
+    });
+
+    const response = await postWebhook(payload.replace('"active"', '"trialing"'), signature);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('caches the subscription of a signed event', async () => {
+    const response = await postSignedEvent(subscriptionEvent(orgId));
+
+    expect(response.status).toBe(200);
+    expect(await getStorage(orgId).getSubscriptionState()).toMatchObject({
+      subscriptionId: 'sub_1',
+      planType: 'STANDARD',
+      status: 'active',
+      priceId: 'price_standard_monthly_xxx',
+    });
+  });
+
+  it('ignores events older than the cached state', async () => {
+    await postSignedEvent(
+      subscriptionEvent(orgId, { id: 'evt_2', created: 1_700_000_100, status: 'canceled' }),
+    );
+
+    const response = await postSignedEvent(
+      subscriptionEvent(orgId, { id: 'evt_1', created: 1_700_000_000, status: 'active' }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await getStorage(orgId).getSubscriptionState()).toMatchObject({
+      status: 'canceled',
+      planType: 'FREE',
+    });
+  });
+});
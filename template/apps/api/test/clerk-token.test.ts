@@ -0,0 +1,123 @@
+/**
+ * Clerk session token verification
+ * Tokens are signed with a locally generated key pair and verified against a
+ * local key set (no JWKS fetch).
+ */
+import { createLocalJWKSet, exportJWK, generateKeyPair, SignJWT, type JWTPayload } from 'jose';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { verifyClerkToken, type VerifyClerkTokenOptions } from '../src/utils/clerk-token';
+
+const ISSUER = 'https://clerk.test';
+const ORIGIN = 'http://localhost:5173';
+
+type SigningKey = Awaited<ReturnType<typeof generateKeyPair>>['privateKey'];
+
+let privateKey: SigningKey;
+let options: VerifyClerkTokenOptions;
+
+beforeAll(async () => {
+  const pair = await generateKeyPair('RS256');
+  privateKey = pair.privateKey;
+  options = {
+    issuer: ISSUER,
+    authorizedParties: [ORIGIN],
+    keys: createLocalJWKSet({ keys: [{ ...(await exportJWK(pair.publicKey)), kid: 'test' }] }),
+  };
+});
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+// A valid session token unless overridden
+function signToken(claims: JWTPayload = {}, key: SigningKey = privateKey): Promise<string> {
+  return new SignJWT({ iss: ISSUER, sub: 'user_1', azp: ORIGIN, exp: now() + 60, ...claims })
+    .setProtectedHeader({ alg: 'RS256', kid: 'test' })
+    .sign(key);
+}
+
+describe('verifyClerkToken', () => {
+  it('returns the payload of a valid token', async () => {
+    const payload = await verifyClerkToken(await signToken({ org_id: 'org_1' }), options);
+
+    expect(payload).toMatchObject({ sub: 'user_1', azp: ORIGIN, org_id: 'org_1' });
+  });
+
+  it('rejects a malformed token', async () => {
+    await expect(verifyClerkToken('not-a-jwt', options)).rejects.toMatchObject({
+      code: 'token_malformed',
+    });
+    await expect(verifyClerkToken('a.b.c', options)).rejects.toMatchObject({
+      code: 'token_malformed',
+    });
+  });
+
+  it('rejects an expired token', async () => {
+    const token = await signToken({ exp: now() - 60 });
+
+    await expect(verifyClerkToken(token, options)).rejects.toMatchObject({
+      code: 'token_expired',
+    });
+  });
+
+  it('rejects a token that is not yet valid', async () => {
+    const token = await signToken({ nbf: now() + 60 });
+
+    await expect(verifyClerkToken(token, options)).rejects.toMatchObject({
+      code: 'token_not_yet_valid',
+    });
+  });
+
+  it('allows the configured clock skew', async () => {
+    const expired = await signToken({ exp: now() - 2 });
+    const early = await signToken({ nbf: now() + 2 });
+
+    await expect(verifyClerkToken(expired, options)).resolves.toMatchObject({ sub: 'user_1' });
+    await expect(verifyClerkToken(early, options)).resolves.toMatchObject({ sub: 'user_1' });
+    await expect(
+      verifyClerkToken(expired, { ...options, clockSkewSeconds: 0 }),
+    ).rejects.toMatchObject({ code: 'token_expired' });
+    await expect(
+      verifyClerkToken(early, { ...options, clockSkewSeconds: 0 }),
+    ).rejects.toMatchObject({ code: 'token_not_yet_valid' });
+  });
+
+  it('rejects a token of another issuer', async () => {
+    const token = await signToken({ iss: 'https://other.clerk.test' });
+
+    await expect(verifyClerkToken(token, options)).rejects.toMatchObject({
+      code: 'token_invalid_issuer',
+    });
+  });
+
+  it('rejects a token for another authorized party', async () => {
+    const token = await signToken({ azp: 'https://evil.test' });
+
+    await expect(verifyClerkToken(token, options)).rejects.toMatchObject({
+      code: 'token_invalid_azp',
+    });
+  });
+
+  it('accepts a token without azp', async () => {
+    const token = await signToken({ azp: undefined });
+
+    await expect(verifyClerkToken(token, options)).resolves.toMatchObject({ sub: 'user_1' });
+  });
+
+  it('rejects a token signed with another key', async () => {
+    const { privateKey: otherKey } = await generateKeyPair('RS256');
+    const token = await signToken({}, otherKey);
+
+    await expect(verifyClerkToken(token, options)).rejects.toMatchObject({
+      code: 'token_invalid_signature',
+    });
+  });
+
+  it('rejects a token without a subject', async () => {
+    const token = await signToken({ sub: undefined });
+
+    await expect(verifyClerkToken(token, options)).rejects.toMatchObject({
+      code: 'token_invalid_claims',
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Email outbox: delivery, deduplication and retries
+ * Outside production without EMAIL_API_KEY, the outbox sends through the
+ * CaptureEmailTransport; its `send` is spied on to capture or fail deliveries.
+ */
+import { env, runDurableObjectAlarm } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import { EMAIL_MAX_ATTEMPTS } from '../src/constants/email';
+import { CaptureEmailTransport } from '../src/emails/capture-transport';
+import type { EmailInput } from '../src/durable-objects/organization-storage';
+
+const invitation: EmailInput = {
+  template: 'invitation',
+  data: { organizationName: 'Acme', inviterName: 'Alice', acceptUrl: 'https://app.test/accept' },
+  locale: 'en',
+  recipients: ['bob@example.com'],
+  key: 'invitation:1',
+};
+
+// A fresh organization per test
+function getStorage() {
+  return env.ORGANIZATION_STORAGE.get(env.ORGANIZATION_STORAGE.idFromName(crypto.randomUUID()));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Past any retry backoff
+function skipBackoff() {
+  vi.setSystemTime(Date.now() + DAY_MS);
+}
+
+describe('email outbox', () => {
+  let send: MockInstance<CaptureEmailTransport['send']>;
+
+  beforeEach(() => {
+    // Ahead of the real clock: alarms then only run when a test fires them
+    vi.useFakeTimers({ toFake: ['Date'] });
+    skipBackoff();
+    send = vi.spyOn(CaptureEmailTransport.prototype, 'send');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('sends a queued email from the alarm', async () => {
+    const storage = getStorage();
+
+    const { queued } = await storage.queueEmail(invitation);
+    expect(queued).toMatchObject([{ recipient: 'bob@example.com', status: 'pending' }]);
+
+    expect(await runDurableObjectAlarm(storage)).toBe(true);
+
+    expect(send).toHaveBeenCalledOnce();
+    const [message, options] = send.mock.calls[0];
+    expect(message).toMatchObject({
+      to: 'bob@example.com',
+      subject: expect.stringContaining('Acme'),
+    });
+    expect(options?.idempotencyKey).toMatch(/:email:/);
+    expect(await storage.listEmails()).toMatchObject([{ status: 'sent', attempts: 1 }]);
+  });
+
+  it('queues one email per recipient and key', async () => {
+    const storage = getStorage();
+
+    await storage.queueEmail(invitation);
+    const { queued, skipped } = await storage.queueEmail({
+      ...invitation,
+      recipients: ['Bob@example.com', 'carol@example.com'],
+    });
+
+    expect(queued.map((email) => email.recipient)).toEqual(['carol@example.com']);
+    expect(skipped).toEqual(['bob@example.com']);
+  });
+
+  it('retries a failed delivery with the same idempotency key', async () => {
+    const storage = getStorage();
+    send.mockRejectedValueOnce(new Error('provider unavailable'));
+
+    await storage.queueEmail(invitation);
+    await runDurableObjectAlarm(storage);
+
+    expect(await storage.listEmails()).toMatchObject([
+      { status: 'pending', attempts: 1, lastError: 'provider unavailable' },
+    ]);
+
+    skipBackoff();
+    await runDurableObjectAlarm(storage);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1][1]).toEqual(send.mock.calls[0][1]);
+    expect(await storage.listEmails()).toMatchObject([
+      { status: 'sent', attempts: 2, lastError: null },
+    ]);
+  });
+
+  it('marks the email failed after the last attempt', async () => {
+    const storage = getStorage();
+    send.mockRejectedValue(new Error('rejected'));
+
+    await storage.queueEmail(invitation);
+    for (let attempt = 1; attempt <= EMAIL_MAX_ATTEMPTS; attempt++) {
+      skipBackoff();
+      await runDurableObjectAlarm(storage);
+    }
+
+    expect(send).toHaveBeenCalledTimes(EMAIL_MAX_ATTEMPTS);
+    expect(await storage.listEmails()).toMatchObject([
+      { status: 'failed', attempts: EMAIL_MAX_ATTEMPTS, lastError: 'rejected' },
+    ]);
+    expect(await runDurableObjectAlarm(storage)).toBe(false);
+  });
+});
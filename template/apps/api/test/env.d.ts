@@ -0,0 +1,7 @@
+import type { Env } from '../src/types/env';
+
+declare module 'cloudflare:test' {
+  // Bindings of wrangler.toml and vitest.config.ts
+  // eslint-disable-next-line @typescript-eslint/no-empty-object-type
+  interface ProvidedEnv extends Env {}
+}
@@ -0,0 +1,87 @@
+/**
+ * Internal API: token scopes and organizations
+ */
+import { SELF, env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { InternalScope } from '../src/constants/permissions';
+import { signInternalToken } from '../src/utils/internal-token';
+
+let orgId: string;
+
+beforeEach(() => {
+  orgId = `org_${crypto.randomUUID()}`;
+});
+
+async function internalRequest(
+  path: string,
+  { tokenOrgId, scopes, ...init }: RequestInit & { tokenOrgId: string; scopes: InternalScope[] },
+): Promise<Response> {
+  const token = await signInternalToken(env, 'api', { orgId: tokenOrgId, scopes });
+  return SELF.fetch(`https://example.com/api/internal${path}`, {
+    ...init,
+    headers: { ...init.headers, 'X-Internal-Token': token },
+  });
+}
+
+describe('internal organization routes', () => {
+  it('serve the organization of the token', async () => {
+    const res = await internalRequest(`/organizations/${orgId}/schema-version`, {
+      tokenOrgId: orgId,
+      scopes: ['internal:schema:read'],
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ orgId, pending: [] });
+  });
+
+  it.each([
+    ['GET', 'schema-version', 'internal:schema:read'],
+    ['POST', 'stripe-customers/repair', 'internal:billing:repair'],
+    ['DELETE', 'feature-overrides/advanced', 'internal:features:write'],
+    ['POST', 'import', 'internal:data:import'],
+    ['GET', 'jobs', 'internal:jobs:read'],
+    ['GET', 'emails', 'internal:emails:read'],
+  ] as const)('%s %s refuses a token of another organization', async (method, path, scope) => {
+    const res = await internalRequest(`/organizations/${orgId}/${path}`, {
+      method,
+      tokenOrgId: `org_${crypto.randomUUID()}`,
+      scopes: [scope],
+    });
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({
+      error: { message: 'Token is not valid for this organization' },
+    });
+  });
+
+  it('imports a plain NDJSON archive', async () => {
+    const archive = [
+      {
+        type: 'header',
+        format: 'org-archive',
+        version: 1,
+        orgId: 'org_source',
+        exportedAt: '2025-01-01T00:00:00.000Z',
+        schemaVersion: null,
+        tables: [],
+      },
+      { type: 'end', rows: {} },
+    ];
+
+    const res = await internalRequest(`/organizations/${orgId}/import`, {
+      method: 'POST',
+      tokenOrgId: orgId,
+      scopes: ['internal:data:import'],
+      headers: { 'Content-Type': 'application/x-ndjson' },
+      body: archive.map((line) => JSON.stringify(line)).join('\n'),
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      orgId,
+      source: { orgId: 'org_source', exportedAt: '2025-01-01T00:00:00.000Z' },
+      rows: {},
+      skippedTables: [],
+    });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Cron dispatch and the per-organization job queue
+ * Organization jobs run a subscription sync against a spied-on
+ * StripeBillingProvider, so no request leaves the test.
+ */
+import {
+  createScheduledController,
+  env,
+  runDurableObjectAlarm,
+  runInDurableObject,
+} from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import worker from '../src/index';
+import { JOB_HISTORY_RETENTION_SECONDS } from '../src/constants/jobs';
+import { CRON_JOBS } from '../src/jobs/cron';
+import { StripeBillingProvider } from '../src/utils/stripe-billing';
+import { getOrganizationRegistry } from '../src/utils/organization-registry';
+import type { BillingEntitlements } from '../src/utils/billing-provider';
+
+const SYNC_CRON = CRON_JOBS['sync-subscriptions'].schedule;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const entitlements: BillingEntitlements = {
+  subscriptionId: 'sub_1',
+  planType: 'STANDARD',
+  status: 'active',
+  priceId: 'price_standard_monthly_xxx',
+  currentPeriodEnd: null,
+  cancelAtPeriodEnd: false,
+};
+
+function getStorage(orgId: string) {
+  return env.ORGANIZATION_STORAGE.get(env.ORGANIZATION_STORAGE.idFromName(orgId));
+}
+
+// Invoke the Worker's scheduled handler like a cron trigger
+function triggerCron(cron: string, scheduledTime = Date.now()): Promise<void> {
+  return worker.scheduled(createScheduledController({ cron, scheduledTime }), env);
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+// Past any retry backoff
+function skipBackoff() {
+  vi.setSystemTime(Date.now() + DAY_MS);
+}
+
+let orgId: string;
+
+beforeEach(() => {
+  orgId = `org_${crypto.randomUUID()}`;
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('scheduled handler', () => {
+  beforeEach(() => {
+    // Cron retries wait with setTimeout
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout'] });
+    skipBackoff();
+  });
+
+  it('queues a subscription sync in every paid organization', async () => {
+    await getOrganizationRegistry(env).register({
+      orgId,
+      name: 'Acme',
+      slug: 'acme',
+      planType: 'STANDARD',
+      storageBytes: 0,
+      createdAt: now(),
+      lastActiveAt: now(),
+      deletedAt: null,
+    });
+    const scheduledTime = Date.now();
+
+    await triggerCron(SYNC_CRON, scheduledTime);
+
+    expect(await getStorage(orgId).listJobs()).toMatchObject([
+      { type: 'sync_subscription', key: 'sync_subscription', status: 'pending' },
+    ]);
+    const [run] = await getOrganizationRegistry(env).listCronRuns({
+      job: 'sync-subscriptions',
+      limit: 1,
+    });
+    expect(run).toMatchObject({
+      cron: SYNC_CRON,
+      status: 'succeeded',
+      attempts: 1,
+      scheduledAt: Math.floor(scheduledTime / 1000),
+    });
+  });
+
+  it('retries a failing cron job, then records the failed run', async () => {
+    const run = vi
+      .spyOn(CRON_JOBS['sync-subscriptions'], 'run')
+      .mockRejectedValue(new Error('registry unavailable'));
+
+    const rejected = expect(triggerCron(SYNC_CRON)).rejects.toThrow(
+      'Cron jobs failed: sync-subscriptions',
+    );
+    // Retry backoff
+    await vi.runAllTimersAsync();
+    await rejected;
+
+    expect(run).toHaveBeenCalledTimes(3);
+    const [latest] = await getOrganizationRegistry(env).listCronRuns({
+      job: 'sync-subscriptions',
+      limit: 1,
+    });
+    expect(latest).toMatchObject({ status: 'failed', attempts: 3, error: 'registry unavailable' });
+  });
+
+  it('ignores a cron expression without jobs', async () => {
+    await expect(triggerCron('*/5 * * * *')).resolves.toBeUndefined();
+  });
+});
+
+describe('organization jobs', () => {
+  let getEntitlements: MockInstance<StripeBillingProvider['getEntitlements']>;
+
+  beforeEach(async () => {
+    // Ahead of the real clock: alarms then only run when a test fires them
+    vi.useFakeTimers({ toFake: ['Date'] });
+    skipBackoff();
+    getEntitlements = vi
+      .spyOn(StripeBillingProvider.prototype, 'getEntitlements')
+      .mockResolvedValue(entitlements);
+    // Without a customer, sync_subscription has nothing to do
+    await getStorage(orgId).setStripeCustomerId('cus_1');
+  });
+
+  it('runs every due job in one alarm and sets the alarm for the next', async () => {
+    const storage = getStorage(orgId);
+    const runAt = now() + 60 * 60;
+
+    await storage.enqueueJob({ type: 'sync_subscription', key: 'first' });
+    await storage.enqueueJob({ type: 'sync_subscription', key: 'second' });
+    await storage.enqueueJob({ type: 'sync_subscription', key: 'later', runAt });
+
+    expect(await runDurableObjectAlarm(storage)).toBe(true);
+
+    expect(await storage.listJobs()).toMatchObject([
+      { key: 'later', status: 'pending', attempts: 0 },
+      { key: 'second', status: 'succeeded', attempts: 1 },
+      { key: 'first', status: 'succeeded', attempts: 1 },
+    ]);
+    expect(await storage.getSubscriptionState()).toMatchObject({ planType: 'STANDARD' });
+    expect(await runInDurableObject(storage, (_, state) => state.storage.getAlarm())).toBe(
+      runAt * 1000,
+    );
+  });
+
+  it('returns the pending job for a repeated key', async () => {
+    const storage = getStorage(orgId);
+
+    const first = await storage.enqueueJob({ type: 'sync_subscription', key: 'sync' });
+    const second = await storage.enqueueJob({ type: 'sync_subscription', key: 'sync' });
+
+    expect(first.created).toBe(true);
+    expect(second).toEqual({ job: first.job, created: false });
+  });
+
+  it('retries a failed job after a backoff', async () => {
+    const storage = getStorage(orgId);
+    getEntitlements.mockRejectedValueOnce(new Error('provider outage'));
+
+    await storage.enqueueJob({ type: 'sync_subscription' });
+    await runDurableObjectAlarm(storage);
+
+    const [job] = await storage.listJobs();
+    expect(job).toMatchObject({ status: 'pending', attempts: 1, lastError: 'provider outage' });
+    // About a minute (JOB_RETRY_BACKOFF), with jitter
+    expect(job.runAt - now()).toBeGreaterThanOrEqual(48);
+    expect(job.runAt - now()).toBeLessThanOrEqual(72);
+
+    // Not due yet
+    await runDurableObjectAlarm(storage);
+    expect(getEntitlements).toHaveBeenCalledOnce();
+
+    skipBackoff();
+    await runDurableObjectAlarm(storage);
+
+    expect(await storage.listJobs()).toMatchObject([
+      { status: 'succeeded', attempts: 2, lastError: null },
+    ]);
+  });
+
+  it('marks a job failed after its last attempt', async () => {
+    const storage = getStorage(orgId);
+    getEntitlements.mockRejectedValue(new Error('provider outage'));
+
+    await storage.enqueueJob({ type: 'sync_subscription', maxAttempts: 2 });
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      skipBackoff();
+      await runDurableObjectAlarm(storage);
+    }
+
+    expect(getEntitlements).toHaveBeenCalledTimes(2);
+    expect(await storage.listJobs()).toMatchObject([
+      { status: 'failed', attempts: 2, lastError: 'provider outage' },
+    ]);
+    // Nothing left to run
+    expect(await runDurableObjectAlarm(storage)).toBe(false);
+  });
+
+  it('drops finished jobs after the retention period', async () => {
+    const storage = getStorage(orgId);
+
+    await storage.enqueueJob({ type: 'sync_subscription', key: 'old' });
+    await runDurableObjectAlarm(storage);
+    // finished_at is set by SQLite, which does not see the fake clock
+    await runInDurableObject(storage, (_, state) => {
+      state.storage.sql.exec(
+        'UPDATE jobs SET finished_at = finished_at - ?',
+        JOB_HISTORY_RETENTION_SECONDS + DAY_MS / 1000,
+      );
+    });
+
+    await storage.enqueueJob({ type: 'sync_subscription', key: 'new' });
+    await runDurableObjectAlarm(storage);
+
+    expect(await storage.listJobs()).toMatchObject([{ key: 'new', status: 'succeeded' }]);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Offboarding: scheduled deletion and the subscriptions it cancels
+ * Stripe calls are answered by fetchMock; nothing leaves the test.
+ */
+import { env, fetchMock } from 'cloudflare:test';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleClerkEvent } from '../src/routes/webhooks/clerk';
+import { StripeBillingProvider } from '../src/utils/stripe-billing';
+
+const STRIPE_API = 'https://api.stripe.com';
+
+function getStorage(orgId: string) {
+  return env.ORGANIZATION_STORAGE.get(env.ORGANIZATION_STORAGE.idFromName(orgId));
+}
+
+function subscription(id: string, status: string, cancelAtPeriodEnd: boolean) {
+  return {
+    id,
+    object: 'subscription',
+    customer: 'cus_1',
+    status,
+    cancel_at_period_end: cancelAtPeriodEnd,
+  };
+}
+
+// Answer the subscription list of cus_1
+function mockSubscriptionList(subscriptions: object[]) {
+  fetchMock
+    .get(STRIPE_API)
+    .intercept({ method: 'GET', path: (path) => path.startsWith('/v1/subscriptions?') })
+    .reply(200, { object: 'list', data: subscriptions, has_more: false, url: '/v1/subscriptions' });
+}
+
+function mockSubscriptionUpdate(id: string, cancelAtPeriodEnd: boolean) {
+  fetchMock
+    .get(STRIPE_API)
+    .intercept({ method: 'POST', path: `/v1/subscriptions/${id}` })
+    .reply(200, subscription(id, 'active', cancelAtPeriodEnd));
+}
+
+describe('StripeBillingProvider', () => {
+  const billing = new StripeBillingProvider('sk_test_vitest');
+
+  beforeAll(() => {
+    fetchMock.activate();
+    // An unexpected Stripe call fails the test
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  afterAll(() => {
+    fetchMock.deactivate();
+  });
+
+  it('cancels active subscriptions and returns their IDs', async () => {
+    mockSubscriptionList([
+      subscription('sub_active', 'active', false),
+      subscription('sub_canceling', 'active', true),
+      subscription('sub_ended', 'canceled', false),
+    ]);
+    mockSubscriptionUpdate('sub_active', true);
+
+    expect(await billing.cancelSubscriptions('cus_1')).toEqual(['sub_active']);
+  });
+
+  it('resumes only the given subscriptions', async () => {
+    mockSubscriptionList([
+      subscription('sub_active', 'active', true),
+      // Canceled by the customer before the deletion
+      subscription('sub_canceling', 'active', true),
+    ]);
+    mockSubscriptionUpdate('sub_active', false);
+
+    await billing.resumeSubscriptions('cus_1', ['sub_active']);
+  });
+
+  it('does not call Stripe to resume no subscriptions', async () => {
+    await billing.resumeSubscriptions('cus_1', []);
+  });
+});
+
+describe('scheduled deletion', () => {
+  let orgId: string;
+
+  beforeEach(() => {
+    orgId = `org_${crypto.randomUUID()}`;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('resumes the subscriptions it canceled when it is canceled', async () => {
+    vi.spyOn(StripeBillingProvider.prototype, 'cancelSubscriptions').mockResolvedValue([
+      'sub_active',
+    ]);
+    const resume = vi
+      .spyOn(StripeBillingProvider.prototype, 'resumeSubscriptions')
+      .mockResolvedValue();
+    const storage = getStorage(orgId);
+    await storage.setStripeCustomerId('cus_1');
+
+    const { deletion } = await storage.scheduleDeletion({
+      orgId,
+      reason: 'requested',
+      requestedBy: 'user_1',
+    });
+
+    expect(deletion.canceledSubscriptionIds).toEqual(['sub_active']);
+    expect(await storage.cancelDeletion()).toBe(true);
+    expect(resume).toHaveBeenCalledWith('cus_1', ['sub_active']);
+    expect(await storage.getDeletionStatus()).toMatchObject({ deletion: null });
+  });
+
+  it('is scheduled when a user with a personal account is deleted', async () => {
+    vi.spyOn(StripeBillingProvider.prototype, 'cancelSubscriptions').mockResolvedValue([]);
+    const userId = `user_${crypto.randomUUID()}`;
+    await getStorage(userId).setStripeCustomerId('cus_1');
+
+    await handleClerkEvent(env, 'msg_1', {
+      type: 'user.deleted',
+      data: { id: userId, deleted: true },
+    });
+
+    expect(await getStorage(userId).getDeletionStatus()).toMatchObject({
+      deletion: { orgId: userId, reason: 'user_deleted' },
+    });
+  });
+
+  it('is not scheduled for a deleted user who stored nothing', async () => {
+    const userId = `user_${crypto.randomUUID()}`;
+
+    await handleClerkEvent(env, 'msg_1', {
+      type: 'user.deleted',
+      data: { id: userId, deleted: true },
+    });
+
+    expect(await getStorage(userId).getDeletionStatus()).toMatchObject({ deletion: null });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Organization archive: export from one organization, import into another
+ */
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createOrganizationArchive, importOrganizationArchive } from '../src/utils/org-archive';
+
+const LIMITS = { maxItems: 100, maxStorage: 1024 * 1024 };
+
+function getStorage(orgId: string) {
+  return env.ORGANIZATION_STORAGE.get(env.ORGANIZATION_STORAGE.idFromName(orgId));
+}
+
+let sourceId: string;
+let targetId: string;
+
+beforeEach(async () => {
+  sourceId = `org_${crypto.randomUUID()}`;
+  targetId = `org_${crypto.randomUUID()}`;
+
+  const source = getStorage(sourceId);
+  await source.syncOrganizationProfile(
+    { id: `msg_${crypto.randomUUID()}`, source: 'clerk', type: 'organization.created' },
+    { name: 'Source', slug: 'source', clerkUpdatedAt: 1 },
+  );
+  await source.setStripeCustomerId('cus_source');
+  await source.saveSubscriptionState({
+    subscriptionId: 'sub_source',
+    planType: 'STANDARD',
+    status: 'active',
+    priceId: 'price_standard_monthly_xxx',
+    currentPeriodEnd: null,
+    cancelAtPeriodEnd: false,
+  });
+  await source.createItem({ name: 'Imported item', createdBy: 'user_1' }, LIMITS);
+
+  // Written by the target's own organization.created webhook
+  await getStorage(targetId).syncOrganizationProfile(
+    { id: `msg_${crypto.randomUUID()}`, source: 'clerk', type: 'organization.created' },
+    { name: 'Target', slug: 'target', clerkUpdatedAt: 2 },
+  );
+});
+
+describe('organization archive import', () => {
+  it('imports the data and keeps the target settings and billing', async () => {
+    const target = getStorage(targetId);
+    const archive = await createOrganizationArchive(getStorage(sourceId), sourceId);
+
+    const result = await importOrganizationArchive(target, archive);
+
+    expect(result.rows).toMatchObject({ items: 1 });
+    expect(result.skippedTables).toEqual(
+      expect.arrayContaining(['organization_settings', 'subscription_state']),
+    );
+    expect(await target.listItems()).toMatchObject([{ name: 'Imported item' }]);
+    expect(await target.getSettings()).toMatchObject({
+      name: 'Target',
+      slug: 'target',
+      stripeCustomerId: null,
+    });
+    expect(await target.getSubscriptionState()).toBeNull();
+  });
+
+  it('refuses rows of tables the target keeps', async () => {
+    const target = getStorage(targetId);
+    await target.beginImport({ orgId: sourceId, exportedAt: new Date().toISOString() });
+
+    await expect(
+      target.importRows('organization_settings', [{ id: 1, stripe_customer_id: 'cus_source' }]),
+    ).rejects.toThrow('Table is not importable: organization_settings');
+    expect(await target.getSettings()).toMatchObject({ stripeCustomerId: null });
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Tests run inside the Workers runtime (workerd) with the bindings of
+ * wrangler.toml. Storage persists across tests (per-test isolation does not
+ * support SQLite-backed Durable Objects), so each test uses its own
+ * organization ID.
+ */
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+
+export default defineWorkersConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    poolOptions: {
+      workers: {
+        wrangler: { configPath: './wrangler.toml' },
+        isolatedStorage: false,
+        miniflare: {
+          // The SPA is not built for API tests
+          assets: { directory: './test/fixtures/assets' },
+          bindings: {
+            INTERNAL_SECRETS: 'test:internal-secret-for-tests-only-0123456789',
+            STRIPE_SECRET_KEY: 'sk_test_vitest',
+            STRIPE_WEBHOOK_SECRET: 'whsec_vitest',
+          },
+        },
+      },
+    },
+  },
+});
@@ -0,0 +1,23 @@
+/**
+ * Permission Gate Component
+ * Renders children only when the current user has the permission
+ */
+import type { ReactNode } from 'react';
+import { usePermission } from '@/hooks/usePermission';
+import type { Permission } from '@/lib/permissions';
+
+interface CanProps {
+  permission: Permission;
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+export function Can({ permission, children, fallback = null }: CanProps) {
+  const allowed = usePermission(permission);
+
+  if (!allowed) {
+    return <>{fallback}</>;
+  }
+
+  return <>{children}</>;
+}
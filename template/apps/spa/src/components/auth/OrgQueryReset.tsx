@@ -0,0 +1,33 @@
+/**
+ * Organization Query Reset
+ * Drops cached API data when the active organization changes
+ */
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@clerk/clerk-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { apiQueryScope } from '@/hooks/useApiQuery';
+
+export function OrgQueryReset() {
+  const { isLoaded, orgId, userId } = useAuth();
+  const queryClient = useQueryClient();
+  const previousScope = useRef<string | null | undefined>(undefined);
+
+  const scope = orgId ?? userId;
+
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    if (previousScope.current !== undefined && previousScope.current !== scope) {
+      const [root, current] = apiQueryScope(scope);
+      // Other organizations' queries (including in-flight ones) are discarded,
+      // everything else is refetched for the new organization
+      queryClient.removeQueries({
+        predicate: ({ queryKey }) => queryKey[0] === root && queryKey[1] !== current,
+      });
+      queryClient.invalidateQueries();
+    }
+    previousScope.current = scope;
+  }, [isLoaded, scope, queryClient]);
+
+  return null;
+}
@@ -0,0 +1,216 @@
+/**
+ * API Keys Page
+ * Create and revoke organization API keys
+ */
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Can } from '@/components/auth/Can';
+import { useErrorMessage } from '@/hooks/useErrorMessage';
+import { useApiClient } from '@/hooks/useApiClient';
+import { useApiQuery, useApiQueryKey } from '@/hooks/useApiQuery';
+import { unwrap } from '@/lib/api/client';
+import { API_KEY_SCOPES, type ApiKeyScope } from '@/lib/permissions';
+import { Check, Copy, Loader2, Trash2, X } from 'lucide-react';
+
+function formatDate(seconds: number | null) {
+  return seconds ? new Date(seconds * 1000).toLocaleDateString() : '—';
+}
+
+function ApiKeysManager() {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const apiQueryKey = useApiQueryKey();
+  const errorMessage = useErrorMessage();
+
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([...API_KEY_SCOPES]);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Fetch API keys
+  const { data: activeKeys, isLoading } = useApiQuery(
+    ['api-keys'],
+    (api) => unwrap(api.GET('/api/api-keys')),
+    { select: (data) => data.apiKeys.filter((apiKey) => apiKey.revokedAt === null) },
+  );
+
+  // Create API key (the secret is only returned once)
+  const createMutation = useMutation({
+    mutationFn: () => unwrap(api.POST('/api/api-keys', { body: { name, scopes } })),
+    onSuccess: (result) => {
+      setCreatedSecret(result.secret);
+      setCopied(false);
+      setName('');
+      queryClient.invalidateQueries({ queryKey: apiQueryKey('api-keys') });
+    },
+  });
+
+  // Revoke API key
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) =>
+      unwrap(api.DELETE('/api/api-keys/{id}', { params: { path: { id } } })),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: apiQueryKey('api-keys') });
+    },
+  });
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
+  const copySecret = async () => {
+    if (!createdSecret) return;
+    await navigator.clipboard.writeText(createdSecret);
+    setCopied(true);
+  };
+
+  return (
+    <>
+      {/* Newly created secret */}
+      {createdSecret && (
+        <Card className="border-primary">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Copy your API key</CardTitle>
+              <CardDescription>
+                This key will not be shown again. Store it somewhere safe.
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="icon" onClick={() => setCreatedSecret(null)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent className="flex items-center gap-2">
+            <code className="flex-1 rounded-md bg-muted px-3 py-2 text-sm break-all">
+              {createdSecret}
+            </code>
+            <Button variant="outline" size="icon" onClick={copySecret}>
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Create */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Create API Key</CardTitle>
+          <CardDescription>
+            Use as <code>Authorization: Bearer sk_live_...</code>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(event) => {
+              event.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <Input
+              placeholder="Key name (e.g. CI deploy)"
+              value={name}
+              maxLength={100}
+              onChange={(event) => setName(event.target.value)}
+            />
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Scopes</p>
+              {API_KEY_SCOPES.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                  />
+                  <code>{scope}</code>
+                </label>
+              ))}
+            </div>
+            {createMutation.isError && (
+              <p className="text-sm text-destructive">{errorMessage(createMutation.error)}</p>
+            )}
+            <Button
+              type="submit"
+              disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Active Keys</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-16">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : activeKeys?.length ? (
+            <ul className="divide-y">
+              {activeKeys.map((apiKey) => (
+                <li key={apiKey.id} className="flex items-center justify-between py-3">
+                  <div className="min-w-0">
+                    <p className="font-medium">{apiKey.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      <code>{apiKey.prefix}…</code> · Last used {formatDate(apiKey.lastUsedAt)}
+                      {' '}· Expires {formatDate(apiKey.expiresAt)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{apiKey.scopes.join(', ')}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => revokeMutation.mutate(apiKey.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-muted-foreground text-center">No API keys yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+export function ApiKeysPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">API Keys</h1>
+        <p className="text-muted-foreground">
+          Keys for server-to-server access to this organization
+        </p>
+      </div>
+
+      <Can
+        permission="org:api_keys:manage"
+        fallback={
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-muted-foreground text-center">
+                Contact your organization admin to manage API keys.
+              </p>
+            </CardContent>
+          </Card>
+        }
+      >
+        <ApiKeysManager />
+      </Can>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+/**
+ * Audit Log Page
+ * Browse, filter and export the organization's audit events
+ */
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Can } from '@/components/auth/Can';
+import { useErrorMessage } from '@/hooks/useErrorMessage';
+import { useApiClient } from '@/hooks/useApiClient';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { unwrap, type components, type paths } from '@/lib/api/client';
+import { ChevronLeft, ChevronRight, Download, Loader2 } from 'lucide-react';
+
+type AuditAction = components['schemas']['AuditAction'];
+type AuditLogFilters = NonNullable<paths['/api/audit-log/export']['get']['parameters']['query']>;
+type ExportFormat = NonNullable<AuditLogFilters['format']>;
+
+// Same order as AUDIT_ACTIONS in apps/api/src/constants/audit.ts
+const AUDIT_ACTIONS: AuditAction[] = [
+  'billing.customer_session_created',
+  'billing.checkout_started',
+  'billing.portal_opened',
+  'subscription.plan_changed',
+  'api_key.created',
+  'api_key.revoked',
+  'feature_override.set',
+  'feature_override.deleted',
+  'organization.exported',
+  'organization.imported',
+  'organization.deletion_scheduled',
+  'organization.deletion_canceled',
+];
+
+const PAGE_SIZE = 50;
+
+// <input type="date"> value (local midnight) to Unix seconds
+function toSeconds(date: string, endOfDay = false) {
+  if (!date) return undefined;
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.floor(new Date(year, month - 1, endOfDay ? day + 1 : day).getTime() / 1000);
+}
+
+function AuditLogViewer() {
+  const api = useApiClient();
+  const errorMessage = useErrorMessage();
+
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [actorId, setActorId] = useState('');
+  const [sinceDate, setSinceDate] = useState('');
+  const [untilDate, setUntilDate] = useState('');
+  // Cursors of the pages before the current one (the first page has none)
+  const [cursors, setCursors] = useState<string[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>();
+
+  const filters = {
+    action: action || undefined,
+    actorId: actorId.trim() || undefined,
+    since: toSeconds(sinceDate),
+    until: toSeconds(untilDate, true),
+  } satisfies Omit<AuditLogFilters, 'format'>;
+
+  const { data, isLoading, isError, error } = useApiQuery(
+    ['audit-log', filters, cursor],
+    (api) =>
+      unwrap(
+        api.GET('/api/audit-log', {
+          params: { query: { ...filters, cursor, limit: PAGE_SIZE } },
+        }),
+      ),
+    { placeholderData: (previous) => previous },
+  );
+
+  // Download every matching event (the API streams the file)
+  const exportMutation = useMutation({
+    mutationFn: async (format: ExportFormat) => {
+      const blob = await unwrap(
+        api.GET('/api/audit-log/export', {
+          params: { query: { ...filters, format } },
+          parseAs: 'blob',
+        }),
+      );
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+  });
+
+  // Filters apply from the first page
+  const resetPages = () => {
+    setCursors([]);
+    setCursor(undefined);
+  };
+
+  const showOlder = () => {
+    if (!data?.nextCursor) return;
+    setCursors((current) => [...current, cursor ?? '']);
+    setCursor(data.nextCursor);
+  };
+
+  const showNewer = () => {
+    const previous = cursors[cursors.length - 1];
+    setCursors((current) => current.slice(0, -1));
+    setCursor(previous || undefined);
+  };
+
+  return (
+    <>
+      {/* Filters */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Filters</CardTitle>
+            <CardDescription>Exports include every event matching the filters</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {(['csv', 'ndjson'] as const).map((format) => (
+              <Button
+                key={format}
+                variant="outline"
+                onClick={() => exportMutation.mutate(format)}
+                disabled={exportMutation.isPending}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                {format.toUpperCase()}
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-4">
+          <select
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            value={action}
+            onChange={(event) => {
+              setAction(event.target.value as AuditAction | '');
+              resetPages();
+            }}
+          >
+            <option value="">All actions</option>
+            {AUDIT_ACTIONS.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+          <Input
+            placeholder="Actor ID"
+            value={actorId}
+            onChange={(event) => {
+              setActorId(event.target.value);
+              resetPages();
+            }}
+          />
+          <Input
+            type="date"
+            aria-label="From"
+            value={sinceDate}
+            onChange={(event) => {
+              setSinceDate(event.target.value);
+              resetPages();
+            }}
+          />
+          <Input
+            type="date"
+            aria-label="To"
+            value={untilDate}
+            onChange={(event) => {
+              setUntilDate(event.target.value);
+              resetPages();
+            }}
+          />
+          {exportMutation.isError && (
+            <p className="text-sm text-destructive md:col-span-4">
+              {errorMessage(exportMutation.error)}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Events */}
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-16">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : isError ? (
+            <p className="text-sm text-destructive text-center">{errorMessage(error)}</p>
+          ) : data?.events.length ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Time</th>
+                    <th className="py-2 pr-4 font-medium">Actor</th>
+                    <th className="py-2 pr-4 font-medium">Action</th>
+                    <th className="py-2 pr-4 font-medium">Target</th>
+                    <th className="py-2 font-medium">IP</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {data.events.map((event) => (
+                    <tr key={event.id} className="align-top">
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {new Date(event.createdAt * 1000).toLocaleString()}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <p className="break-all">{event.actorId ?? event.actorType}</p>
+                        <p className="text-xs text-muted-foreground">{event.actorType}</p>
+                      </td>
+                      <td className="py-2 pr-4">
+                        <code>{event.action}</code>
+                        {event.metadata && (
+                          <p className="text-xs text-muted-foreground break-all">
+                            {JSON.stringify(event.metadata)}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 break-all">
+                        {event.targetType ? `${event.targetType} ${event.targetId ?? ''}` : '—'}
+                      </td>
+                      <td className="py-2" title={event.userAgent ?? undefined}>
+                        {event.ip ?? '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-center">No audit events</p>
+          )}
+
+          {/* Pagination */}
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" size="sm" onClick={showNewer} disabled={!cursors.length}>
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Newer
+            </Button>
+            <Button variant="outline" size="sm" onClick={showOlder} disabled={!data?.nextCursor}>
+              Older
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+export function AuditLogPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Audit Log</h1>
+        <p className="text-muted-foreground">
+          Who did what in this organization, newest first
+        </p>
+      </div>
+
+      <Can
+        permission="org:audit_log:read"
+        fallback={
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-muted-foreground text-center">
+                Only organization admins can view the audit log.
+              </p>
+            </CardContent>
+          </Card>
+        }
+      >
+        <AuditLogViewer />
+      </Can>
+    </div>
+  );
+}
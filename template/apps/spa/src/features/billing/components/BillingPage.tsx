@@ -2,59 +2,44 @@
  * Billing Page
  * Stripe Pricing Table and Customer Portal
  */
-import { useAuth, useOrganization } from '@clerk/clerk-react';
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useMutation } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
+import { useErrorMessage } from '@/hooks/useErrorMessage';
+import { useApiClient } from '@/hooks/useApiClient';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { unwrap } from '@/lib/api/client';
+import { usePermission } from '@/hooks/usePermission';
 import { ExternalLink, Loader2 } from 'lucide-react';
+import { LocalBillingSimulator } from './LocalBillingSimulator';
 
 const STRIPE_PRICING_TABLE_ID = import.meta.env.VITE_STRIPE_PRICING_TABLE_ID;
 const STRIPE_PUBLISHABLE_KEY = import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY;
+const IS_LOCAL_DEV_MODE = import.meta.env.VITE_DEV_MODE === 'local';
 
 export function BillingPage() {
-  const { getToken } = useAuth();
-  const { organization, membership } = useOrganization();
-  const isAdmin = !organization || membership?.role === 'org:admin';
+  const api = useApiClient();
+  const errorMessage = useErrorMessage();
+  // undefined while Clerk is loading
+  const canManageBilling = usePermission('org:billing:manage');
 
   // Fetch subscription info
-  const { data: subscription, isLoading: isLoadingSubscription } = useQuery({
-    queryKey: ['subscription'],
-    queryFn: async () => {
-      const token = await getToken();
-      const response = await fetch('/api/billing/subscription', {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (!response.ok) throw new Error('Failed to fetch subscription');
-      return response.json();
-    },
-  });
+  const { data: subscription, isLoading: isLoadingSubscription } = useApiQuery(
+    ['subscription'],
+    (api) => unwrap(api.GET('/api/billing/subscription')),
+  );
 
   // Fetch customer session for pricing table
-  const { data: customerSession } = useQuery({
-    queryKey: ['customer-session'],
-    queryFn: async () => {
-      const token = await getToken();
-      const response = await fetch('/api/billing/customer-session', {
-        method: 'POST',
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (!response.ok) throw new Error('Failed to create customer session');
-      return response.json();
-    },
-    enabled: isAdmin && !!STRIPE_PRICING_TABLE_ID,
-  });
+  const { data: customerSession } = useApiQuery(
+    ['customer-session'],
+    (api) => unwrap(api.POST('/api/billing/customer-session')),
+    { enabled: !!canManageBilling && !!STRIPE_PRICING_TABLE_ID && !IS_LOCAL_DEV_MODE },
+  );
 
   // Open customer portal
   const portalMutation = useMutation({
-    mutationFn: async () => {
-      const token = await getToken();
-      const response = await fetch('/api/billing/portal', {
-        method: 'POST',
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (!response.ok) throw new Error('Failed to create portal session');
-      return response.json();
-    },
+    mutationFn: () => unwrap(api.POST('/api/billing/portal')),
     onSuccess: (data) => {
       window.location.href = data.url;
     },
@@ -89,7 +74,7 @@ export function BillingPage() {
               <p className="text-2xl font-bold">
                 {subscription?.planType || 'FREE'}
               </p>
-              {subscription?.subscription && (
+              {subscription?.subscription?.currentPeriodEnd && (
                 <p className="text-sm text-muted-foreground">
                   Renews on{' '}
                   {new Date(
@@ -98,26 +83,34 @@ export function BillingPage() {
                 </p>
               )}
             </div>
-            {isAdmin && subscription?.hasCustomer && (
-              <Button
-                variant="outline"
-                onClick={() => portalMutation.mutate()}
-                disabled={portalMutation.isPending}
-              >
-                {portalMutation.isPending ? (
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                ) : (
-                  <ExternalLink className="h-4 w-4 mr-2" />
-                )}
-                Manage Subscription
-              </Button>
+            {subscription?.hasCustomer && (
+              <Can permission="org:billing:manage">
+                <Button
+                  variant="outline"
+                  onClick={() => portalMutation.mutate()}
+                  disabled={portalMutation.isPending}
+                >
+                  {portalMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                  )}
+                  Manage Subscription
+                </Button>
+              </Can>
             )}
           </div>
+          {portalMutation.isError && (
+            <p className="text-sm text-destructive">{errorMessage(portalMutation.error)}</p>
+          )}
         </CardContent>
       </Card>
 
+      {/* Fake billing provider controls (offline development) */}
+      {canManageBilling && IS_LOCAL_DEV_MODE && <LocalBillingSimulator />}
+
       {/* Pricing Table */}
-      {isAdmin && STRIPE_PRICING_TABLE_ID && STRIPE_PUBLISHABLE_KEY && (
+      {canManageBilling && !IS_LOCAL_DEV_MODE && STRIPE_PRICING_TABLE_ID && STRIPE_PUBLISHABLE_KEY && (
         <Card>
           <CardHeader>
             <CardTitle>Upgrade Plan</CardTitle>
@@ -139,7 +132,7 @@ export function BillingPage() {
         </Card>
       )}
 
-      {!isAdmin && (
+      {canManageBilling === false && (
         <Card>
           <CardContent className="pt-6">
             <p className="text-muted-foreground text-center">
@@ -0,0 +1,109 @@
+/**
+ * Local Billing Simulator (VITE_DEV_MODE=local)
+ * Replaces the Stripe Pricing Table: changes the organization's simulated
+ * subscription through the API's fake billing provider.
+ */
+import { useState } from 'react';
+import { useAuth } from '@clerk/clerk-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useApiClient } from '@/hooks/useApiClient';
+import { useApiQueryKey } from '@/hooks/useApiQuery';
+import { useErrorMessage } from '@/hooks/useErrorMessage';
+import { ApiError } from '@/lib/api-error';
+import { unwrap } from '@/lib/api/client';
+
+interface Simulation {
+  label: string;
+  planType: 'STANDARD' | 'ENTERPRISE' | null;
+  status?: string;
+  cancelAtPeriodEnd?: boolean;
+}
+
+const SIMULATIONS: Simulation[] = [
+  { label: 'Subscribe to STANDARD', planType: 'STANDARD' },
+  { label: 'Subscribe to ENTERPRISE', planType: 'ENTERPRISE' },
+  { label: 'Cancel at period end', planType: 'STANDARD', cancelAtPeriodEnd: true },
+  { label: 'Payment failed (past_due)', planType: 'STANDARD', status: 'past_due' },
+  { label: 'Retries exhausted (unpaid)', planType: 'STANDARD', status: 'unpaid' },
+  { label: 'Cancel now', planType: null },
+];
+
+export function LocalBillingSimulator() {
+  const { orgId, userId } = useAuth();
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const apiQueryKey = useApiQueryKey();
+  const errorMessage = useErrorMessage();
+  const [deliverWebhook, setDeliverWebhook] = useState(true);
+
+  // A plan change affects the subscription, usage and entitlements queries
+  const refresh = () => queryClient.invalidateQueries({ queryKey: apiQueryKey() });
+
+  const simulateMutation = useMutation({
+    mutationFn: async (simulation: Simulation) => {
+      const response = await fetch('/api/dev/billing/subscription', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          orgId: orgId ?? userId,
+          planType: simulation.planType,
+          status: simulation.status,
+          cancelAtPeriodEnd: simulation.cancelAtPeriodEnd,
+          deliverWebhook,
+        }),
+      });
+      if (!response.ok) throw await ApiError.fromResponse(response);
+    },
+    onSuccess: refresh,
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: () => unwrap(api.POST('/api/billing/sync')),
+    onSuccess: refresh,
+  });
+
+  const error = simulateMutation.error ?? syncMutation.error;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Simulate Subscription (local mode)</CardTitle>
+        <CardDescription>
+          Changes the fake billing provider's subscription for this account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {SIMULATIONS.map((simulation) => (
+            <Button
+              key={simulation.label}
+              variant="outline"
+              disabled={simulateMutation.isPending}
+              onClick={() => simulateMutation.mutate(simulation)}
+            >
+              {simulation.label}
+            </Button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={deliverWebhook}
+            onChange={(event) => setDeliverWebhook(event.target.checked)}
+          />
+          Deliver webhook (uncheck to simulate a missed event)
+        </label>
+        <Button
+          variant="secondary"
+          disabled={syncMutation.isPending}
+          onClick={() => syncMutation.mutate()}
+        >
+          Sync with billing provider
+        </Button>
+        {error && <p className="text-sm text-destructive">{errorMessage(error)}</p>}
+      </CardContent>
+    </Card>
+  );
+}
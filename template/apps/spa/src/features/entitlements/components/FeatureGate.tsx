@@ -0,0 +1,31 @@
+/**
+ * Feature Gate Component
+ * Renders children only when the active organization has the feature
+ * Usage: <FeatureGate feature="advanced" fallback={<UpgradePrompt feature="advanced" />}>
+ */
+import type { ReactNode } from 'react';
+import { useEntitlements, type Feature } from '../hooks/useEntitlements';
+
+interface FeatureGateProps {
+  feature: Feature;
+  children: ReactNode;
+  fallback?: ReactNode;
+  // Rendered while entitlements are loading
+  loading?: ReactNode;
+}
+
+export function FeatureGate({ feature, children, fallback = null, loading = null }: FeatureGateProps) {
+  const { hasFeature, isError } = useEntitlements();
+  const allowed = hasFeature(feature);
+
+  if (allowed === undefined) {
+    // Fail closed when entitlements cannot be loaded
+    return <>{isError ? fallback : loading}</>;
+  }
+
+  if (!allowed) {
+    return <>{fallback}</>;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,46 @@
+/**
+ * Upgrade Prompt
+ * Fallback for FeatureGate: links billing managers to the billing page
+ */
+import { Link } from 'react-router-dom';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { usePermission } from '@/hooks/usePermission';
+import type { Feature } from '../hooks/useEntitlements';
+
+interface UpgradePromptProps {
+  feature?: Feature;
+  title?: string;
+}
+
+export function UpgradePrompt({ feature, title = 'Upgrade your plan' }: UpgradePromptProps) {
+  const canManageBilling = usePermission('org:billing:manage');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-4 w-4" />
+          {title}
+        </CardTitle>
+        <CardDescription>
+          {feature
+            ? `The ${feature} feature is not included in your current plan.`
+            : 'This feature is not included in your current plan.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {canManageBilling ? (
+          <Button asChild>
+            <Link to="/dashboard/settings/billing">View plans</Link>
+          </Button>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Ask an organization admin to upgrade.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
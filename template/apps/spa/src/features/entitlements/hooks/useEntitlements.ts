@@ -0,0 +1,25 @@
+/**
+ * Entitlements Hook
+ * Features and limits of the active organization (GET /api/entitlements),
+ * with the same plan and override rules as the API's requireFeature middleware
+ */
+import { useCallback } from 'react';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { unwrap, type components } from '@/lib/api/client';
+
+export type Feature = components['schemas']['Feature'];
+
+export function useEntitlements() {
+  const query = useApiQuery(['entitlements'], (api) => unwrap(api.GET('/api/entitlements')));
+  const features = query.data?.features;
+
+  /**
+   * Whether the organization has a feature, or undefined while loading
+   */
+  const hasFeature = useCallback(
+    (feature: Feature): boolean | undefined => features?.includes(feature),
+    [features],
+  );
+
+  return { ...query, entitlements: query.data, hasFeature };
+}
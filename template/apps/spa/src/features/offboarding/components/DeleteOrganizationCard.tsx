@@ -0,0 +1,69 @@
+/**
+ * Delete Organization Card
+ * Schedules the deletion of the organization's data (cancellable from the
+ * banner until the grace period is over)
+ */
+import { useState } from 'react';
+import { Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Can } from '@/components/auth/Can';
+import { useErrorMessage } from '@/hooks/useErrorMessage';
+import { useDeletionStatus } from '../hooks/useDeletionStatus';
+
+interface DeleteOrganizationCardProps {
+  // What is deleted, e.g. "organization" or "account"
+  subject?: string;
+}
+
+export function DeleteOrganizationCard({ subject = 'organization' }: DeleteOrganizationCardProps) {
+  const errorMessage = useErrorMessage();
+  const { deletion, isLoading, scheduleMutation } = useDeletionStatus();
+  const [confirming, setConfirming] = useState(false);
+
+  return (
+    <Can permission="org:organization:delete">
+      <Card className="border-destructive/50">
+        <CardHeader>
+          <CardTitle>Delete {subject} data</CardTitle>
+          <CardDescription>
+            Cancels the subscription at the end of the billing period and permanently deletes
+            all data of this {subject} after a grace period. Export the data first if you need
+            a copy.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {deletion ? (
+            <p className="text-sm text-muted-foreground">
+              Deletion is scheduled for {new Date(deletion.purgeAt * 1000).toLocaleString()}.
+            </p>
+          ) : confirming ? (
+            <div className="flex gap-2">
+              <Button
+                variant="destructive"
+                onClick={() =>
+                  scheduleMutation.mutate(undefined, { onSettled: () => setConfirming(false) })
+                }
+                disabled={scheduleMutation.isPending}
+              >
+                {scheduleMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Delete all data
+              </Button>
+              <Button variant="outline" onClick={() => setConfirming(false)}>
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <Button variant="destructive" onClick={() => setConfirming(true)} disabled={isLoading}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete {subject} data
+            </Button>
+          )}
+          {scheduleMutation.isError && (
+            <p className="text-sm text-destructive">{errorMessage(scheduleMutation.error)}</p>
+          )}
+        </CardContent>
+      </Card>
+    </Can>
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * Deletion Banner
+ * Shown on every page while the organization is scheduled for deletion,
+ * with an undo button for those allowed to cancel it
+ */
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
+import { useErrorMessage } from '@/hooks/useErrorMessage';
+import { useDeletionStatus } from '../hooks/useDeletionStatus';
+
+export function DeletionBanner() {
+  const errorMessage = useErrorMessage();
+  const { deletion, cancelMutation } = useDeletionStatus();
+
+  if (!deletion) return null;
+
+  return (
+    <div
+      role="alert"
+      className="flex flex-wrap items-center gap-3 border-b border-destructive/50 bg-destructive/10 px-6 py-3 text-sm"
+    >
+      <AlertTriangle className="h-4 w-4 text-destructive" />
+      <p className="flex-1">
+        Scheduled for deletion: all data will be permanently deleted on{' '}
+        <strong>{new Date(deletion.purgeAt * 1000).toLocaleString()}</strong>.
+        {cancelMutation.isError && (
+          <span className="block text-destructive">{errorMessage(cancelMutation.error)}</span>
+        )}
+      </p>
+      <Can permission="org:organization:delete">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => cancelMutation.mutate()}
+          disabled={cancelMutation.isPending}
+        >
+          {cancelMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Undo
+        </Button>
+      </Can>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * Deletion Status Hook
+ * Scheduled deletion of the active organization (GET /api/org/deletion),
+ * with mutations to schedule and cancel it
+ */
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useApiClient } from '@/hooks/useApiClient';
+import { useApiQuery, useApiQueryKey } from '@/hooks/useApiQuery';
+import { unwrap } from '@/lib/api/client';
+
+export function useDeletionStatus() {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const apiQueryKey = useApiQueryKey();
+
+  const query = useApiQuery(['org-deletion'], (api) => unwrap(api.GET('/api/org/deletion')));
+
+  // Both endpoints return the new status
+  const onSuccess = (status: NonNullable<typeof query.data>) => {
+    queryClient.setQueryData(apiQueryKey('org-deletion'), status);
+    // Subscriptions are canceled or resumed along with the deletion
+    queryClient.invalidateQueries({ queryKey: apiQueryKey('subscription') });
+  };
+
+  const scheduleMutation = useMutation({
+    mutationFn: () => unwrap(api.POST('/api/org/deletion')),
+    onSuccess,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => unwrap(api.DELETE('/api/org/deletion')),
+    onSuccess,
+  });
+
+  return { ...query, deletion: query.data?.deletion ?? null, scheduleMutation, cancelMutation };
+}
@@ -0,0 +1,11 @@
+/**
+ * Typed API client bound to the current Clerk session
+ */
+import { useMemo } from 'react';
+import { useAuth } from '@clerk/clerk-react';
+import { createApiClient } from '@/lib/api/client';
+
+export function useApiClient() {
+  const { getToken } = useAuth();
+  return useMemo(() => createApiClient(getToken), [getToken]);
+}
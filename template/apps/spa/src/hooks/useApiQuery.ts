@@ -0,0 +1,61 @@
+/**
+ * Organization-scoped API queries
+ *
+ * Query keys are prefixed with the active organization (or the user, for
+ * personal accounts), so data cached for one organization is never shown
+ * for another after switching with OrganizationSwitcher.
+ */
+import { useCallback } from 'react';
+import { useAuth } from '@clerk/clerk-react';
+import { useQuery, type QueryKey, type UseQueryOptions } from '@tanstack/react-query';
+import { useApiClient } from '@/hooks/useApiClient';
+import type { ApiClient } from '@/lib/api/client';
+import type { ApiError } from '@/lib/api-error';
+
+/**
+ * Root of every API query key: ['api', orgId ?? userId]
+ */
+export function apiQueryScope(scope: string | null | undefined) {
+  return ['api', scope ?? null] as const;
+}
+
+/**
+ * Returns a function building query keys for the active organization
+ * Usage: queryClient.invalidateQueries({ queryKey: apiQueryKey('api-keys') })
+ */
+export function useApiQueryKey() {
+  const { orgId, userId } = useAuth();
+  const scope = orgId ?? userId;
+  return useCallback(
+    (...key: readonly unknown[]): QueryKey => [...apiQueryScope(scope), ...key],
+    [scope],
+  );
+}
+
+type ApiQueryOptions<TQueryFnData, TData> = Omit<
+  UseQueryOptions<TQueryFnData, ApiError, TData>,
+  'queryKey' | 'queryFn'
+>;
+
+/**
+ * useQuery with the typed API client and an organization-scoped key
+ * Usage: useApiQuery(['subscription'], (api) => unwrap(api.GET('/api/billing/subscription')))
+ *
+ * Disabled until Clerk has loaded the session.
+ */
+export function useApiQuery<TQueryFnData, TData = TQueryFnData>(
+  key: readonly unknown[],
+  queryFn: (api: ApiClient) => Promise<TQueryFnData>,
+  options: ApiQueryOptions<TQueryFnData, TData> = {},
+) {
+  const { isLoaded, userId } = useAuth();
+  const api = useApiClient();
+  const apiQueryKey = useApiQueryKey();
+
+  return useQuery<TQueryFnData, ApiError, TData>({
+    ...options,
+    queryKey: apiQueryKey(...key),
+    queryFn: () => queryFn(api),
+    enabled: isLoaded && !!userId && (options.enabled ?? true),
+  });
+}
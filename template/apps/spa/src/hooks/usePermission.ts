@@ -0,0 +1,29 @@
+/**
+ * Permission Hook
+ * Same rules as the API's requirePermission middleware
+ */
+import { useAuth, useOrganization } from '@clerk/clerk-react';
+import { hasPermission, type Permission } from '@/lib/permissions';
+
+/**
+ * Returns whether the current user has a permission in the active
+ * organization (or personal account), or undefined while loading
+ */
+export function usePermission(permission: Permission): boolean | undefined {
+  const { isLoaded: isAuthLoaded, userId } = useAuth();
+  const { isLoaded: isOrgLoaded, organization, membership } = useOrganization();
+
+  if (!isAuthLoaded || !isOrgLoaded || !userId) {
+    return undefined;
+  }
+
+  return hasPermission(
+    {
+      userId,
+      orgId: organization?.id ?? null,
+      orgRole: membership?.role ?? null,
+      orgPermissions: membership?.permissions ?? [],
+    },
+    permission,
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * API Error
+ * Parses the API error envelope: { error: { code, message, requestId, details? } }
+ *
+ * Keep ERROR_CODES in sync with apps/api/src/constants/error-codes.ts
+ */
+export const ERROR_CODES = [
+  'bad_request',
+  'validation_failed',
+  'webhook_signature_invalid',
+  'unauthorized',
+  'token_missing',
+  'token_malformed',
+  'token_expired',
+  'token_not_yet_valid',
+  'token_invalid_issuer',
+  'token_invalid_azp',
+  'token_invalid_signature',
+  'token_invalid_claims',
+  'api_key_invalid',
+  'internal_token_invalid',
+  'plan_limit_exceeded',
+  'feature_not_available',
+  'forbidden',
+  'not_found',
+  'billing_account_not_found',
+  'conflict',
+  'rate_limited',
+  'internal_error',
+  'configuration_error',
+  'billing_provider_error',
+  'service_unavailable',
+  'jwks_unavailable',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+// Code for responses that are not an API error envelope (network errors, proxies)
+export type ClientErrorCode = ErrorCode | 'unknown_error';
+
+interface ErrorEnvelope {
+  error: {
+    code: string;
+    message: string;
+    requestId?: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+function isErrorEnvelope(body: unknown): body is ErrorEnvelope {
+  const error = (body as ErrorEnvelope | null)?.error;
+  return typeof error?.code === 'string' && typeof error.message === 'string';
+}
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ClientErrorCode,
+    message: string,
+    readonly requestId?: string,
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  /**
+   * Build an ApiError from a non-OK response
+   */
+  static async fromResponse(response: Response): Promise<ApiError> {
+    const body: unknown = await response.json().catch(() => null);
+    return ApiError.fromBody(response, body);
+  }
+
+  /**
+   * Build an ApiError from a non-OK response whose body was already parsed
+   */
+  static fromBody(response: Response, body: unknown): ApiError {
+    const requestId = response.headers.get('X-Request-Id') ?? undefined;
+
+    if (isErrorEnvelope(body)) {
+      const code = (ERROR_CODES as readonly string[]).includes(body.error.code)
+        ? (body.error.code as ErrorCode)
+        : 'unknown_error';
+      return new ApiError(
+        response.status,
+        code,
+        body.error.message,
+        body.error.requestId ?? requestId,
+        body.error.details,
+      );
+    }
+
+    return new ApiError(response.status, 'unknown_error', response.statusText, requestId);
+  }
+}
+
+/**
+ * Error code of any thrown value
+ */
+export function getErrorCode(error: unknown): ClientErrorCode {
+  return error instanceof ApiError ? error.code : 'unknown_error';
+}
@@ -0,0 +1,68 @@
+/**
+ * Typed API Client
+ * openapi-fetch client over the types generated from /api/openapi.json
+ *
+ * Regenerate schema.d.ts after changing API routes: pnpm generate:api
+ */
+import createClient from 'openapi-fetch';
+import { ApiError } from '@/lib/api-error';
+import type { paths } from './schema';
+
+export type { paths, components } from './schema';
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+// Clerk's getToken; skipCache forces a fresh session token
+export type TokenGetter = (options?: { skipCache?: boolean }) => Promise<string | null | undefined>;
+
+/**
+ * Create a client that sends `Authorization: Bearer <token>` on every request
+ * Usage: createApiClient(useAuth().getToken)
+ *
+ * A 401 is retried once with a refreshed token (the cached session token may
+ * have expired, e.g. after the tab was in the background).
+ */
+export function createApiClient(getToken: TokenGetter) {
+  const authorizedFetch = async (request: Request, skipCache = false) => {
+    const token = await getToken({ skipCache });
+    if (token) {
+      request.headers.set('Authorization', `Bearer ${token}`);
+    }
+    return fetch(request);
+  };
+
+  return createClient<paths>({
+    baseUrl: window.location.origin,
+    fetch: async (request) => {
+      // Keep an unread copy of the body for the retry
+      const retry = request.clone();
+      const response = await authorizedFetch(request);
+      if (response.status !== 401) {
+        return response;
+      }
+      return authorizedFetch(retry, true);
+    },
+  });
+}
+
+/**
+ * Resolve a client call to its data, throwing ApiError for error responses
+ * and network failures
+ * Usage: const subscription = await unwrap(api.GET('/api/billing/subscription'));
+ */
+export async function unwrap<T>(
+  call: Promise<{ data?: T; error?: unknown; response: Response }>,
+): Promise<T> {
+  let result: Awaited<typeof call>;
+  try {
+    result = await call;
+  } catch (error) {
+    throw new ApiError(0, 'unknown_error', error instanceof Error ? error.message : 'Network error');
+  }
+
+  const { data, error, response } = result;
+  if (!response.ok || data === undefined) {
+    throw ApiError.fromBody(response, error);
+  }
+  return data;
+}
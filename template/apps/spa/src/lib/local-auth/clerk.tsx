@@ -0,0 +1,243 @@
+/**
+ * Local Clerk Stand-in (VITE_DEV_MODE=local)
+ *
+ * vite.config.ts aliases `@clerk/clerk-react` to this module in local mode,
+ * so the app runs without a Clerk account or network access. It implements
+ * only the hooks and components this app uses, backed by the seeded users
+ * and organizations of the Worker (apps/api/src/constants/dev-seed.ts).
+ */
+import { useNavigate } from 'react-router-dom';
+import type { ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { LocalAuthProvider, useLocalAuth } from './session';
+
+// Props of the real components that have no effect here (appearance, routing, ...)
+type IgnoredProps = Record<string, unknown>;
+
+export function ClerkProvider({ children }: { children: ReactNode } & IgnoredProps) {
+  return <LocalAuthProvider>{children}</LocalAuthProvider>;
+}
+
+export function useAuth() {
+  const { isLoaded, user, membership, getToken, signOut } = useLocalAuth();
+  return {
+    isLoaded,
+    isSignedIn: isLoaded ? !!user : undefined,
+    userId: user?.id ?? null,
+    orgId: membership?.organization.id ?? null,
+    orgRole: membership?.role ?? null,
+    orgSlug: membership?.organization.slug ?? null,
+    getToken,
+    signOut: async () => signOut(),
+  };
+}
+
+export function useUser() {
+  const { isLoaded, user } = useLocalAuth();
+  return {
+    isLoaded,
+    isSignedIn: isLoaded ? !!user : undefined,
+    user: user && {
+      id: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      fullName: `${user.firstName} ${user.lastName}`,
+      primaryEmailAddress: { emailAddress: user.email },
+    },
+  };
+}
+
+export function useOrganization() {
+  const { isLoaded, membership } = useLocalAuth();
+  return {
+    isLoaded,
+    organization: membership?.organization ?? null,
+    // Roles are mapped to permissions by ROLE_PERMISSIONS, as for Clerk's built-in roles
+    membership: membership && { role: membership.role, permissions: [] as string[] },
+  };
+}
+
+export function useOrganizationList(_params?: IgnoredProps) {
+  const { isLoaded, user, setActiveOrganization } = useLocalAuth();
+  return {
+    isLoaded,
+    userMemberships: { data: user?.memberships ?? [] },
+    setActive: async ({ organization }: { organization: string | null }) =>
+      setActiveOrganization(organization),
+  };
+}
+
+/**
+ * Dev sign-in picker: choose one of the seeded users
+ */
+function DevSignIn({ afterSignInUrl = '/dashboard' }: { afterSignInUrl?: string }) {
+  const { isLoaded, users, signIn } = useLocalAuth();
+  const navigate = useNavigate();
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Sign in (local mode)</CardTitle>
+        <CardDescription>Choose a seeded user. No password, no network.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoaded && users.length === 0 && (
+          <p className="text-sm text-destructive">
+            No users: start the API with DEV_MODE=local (pnpm dev:local).
+          </p>
+        )}
+        {users.map((user) => (
+          <button
+            key={user.id}
+            className="w-full rounded-md border p-3 text-left hover:bg-accent"
+            onClick={() => {
+              signIn(user.id);
+              navigate(afterSignInUrl);
+            }}
+          >
+            <p className="font-medium">
+              {user.firstName} {user.lastName}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {user.memberships.length > 0
+                ? user.memberships
+                    .map(({ organization, role }) => `${organization.name} (${role})`)
+                    .join(', ')
+                : 'Personal account only'}
+            </p>
+          </button>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function SignIn({ afterSignInUrl }: { afterSignInUrl?: string } & IgnoredProps) {
+  return <DevSignIn afterSignInUrl={afterSignInUrl} />;
+}
+
+export function SignUp({ afterSignUpUrl }: { afterSignUpUrl?: string } & IgnoredProps) {
+  return <DevSignIn afterSignInUrl={afterSignUpUrl} />;
+}
+
+export function UserButton({ afterSignOutUrl = '/sign-in' }: { afterSignOutUrl?: string } & IgnoredProps) {
+  const { user, signOut } = useLocalAuth();
+  const navigate = useNavigate();
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      title={user?.email}
+      onClick={() => {
+        signOut();
+        navigate(afterSignOutUrl);
+      }}
+    >
+      Sign out {user?.firstName}
+    </Button>
+  );
+}
+
+export function OrganizationSwitcher({
+  hidePersonal = false,
+  afterSelectOrganizationUrl = '/dashboard',
+  afterSelectPersonalUrl = '/dashboard',
+}: {
+  hidePersonal?: boolean;
+  afterSelectOrganizationUrl?: string;
+  afterSelectPersonalUrl?: string;
+} & IgnoredProps) {
+  const { user, membership, setActiveOrganization } = useLocalAuth();
+  const navigate = useNavigate();
+
+  return (
+    <select
+      className="w-full rounded-md border bg-background p-2 text-sm"
+      value={membership?.organization.id ?? ''}
+      onChange={(event) => {
+        const orgId = event.target.value || null;
+        setActiveOrganization(orgId);
+        navigate(orgId ? afterSelectOrganizationUrl : afterSelectPersonalUrl);
+      }}
+    >
+      {!hidePersonal && <option value="">Personal account</option>}
+      {user?.memberships.map(({ organization }) => (
+        <option key={organization.id} value={organization.id}>
+          {organization.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export function OrganizationList({
+  afterSelectOrganizationUrl = '/dashboard',
+  afterSelectPersonalUrl = '/dashboard',
+}: {
+  afterSelectOrganizationUrl?: string;
+  afterSelectPersonalUrl?: string;
+} & IgnoredProps) {
+  const { user, setActiveOrganization } = useLocalAuth();
+  const navigate = useNavigate();
+
+  const select = (orgId: string | null) => {
+    setActiveOrganization(orgId);
+    navigate(orgId ? afterSelectOrganizationUrl : afterSelectPersonalUrl);
+  };
+
+  return (
+    <div className="space-y-2">
+      {user?.memberships.map(({ organization, role }) => (
+        <Button
+          key={organization.id}
+          variant="outline"
+          className="w-full justify-between"
+          onClick={() => select(organization.id)}
+        >
+          {organization.name}
+          <span className="text-xs text-muted-foreground">{role}</span>
+        </Button>
+      ))}
+      <Button variant="ghost" className="w-full" onClick={() => select(null)}>
+        Personal account
+      </Button>
+    </div>
+  );
+}
+
+function LocalModeNotice({ children }: { children: ReactNode }) {
+  return (
+    <Card>
+      <CardContent className="pt-6 text-sm text-muted-foreground">{children}</CardContent>
+    </Card>
+  );
+}
+
+export function CreateOrganization(_props: IgnoredProps) {
+  return (
+    <LocalModeNotice>
+      Organizations are seeded in local mode. Edit apps/api/src/constants/dev-seed.ts to add one.
+    </LocalModeNotice>
+  );
+}
+
+export function UserProfile(_props: IgnoredProps) {
+  const { user } = useLocalAuth();
+  return (
+    <LocalModeNotice>
+      {user?.firstName} {user?.lastName} ({user?.email}) · {user?.id}
+    </LocalModeNotice>
+  );
+}
+
+export function OrganizationProfile(_props: IgnoredProps) {
+  const { membership } = useLocalAuth();
+  return (
+    <LocalModeNotice>
+      {membership?.organization.name} · {membership?.organization.id} · your role:{' '}
+      {membership?.role}
+    </LocalModeNotice>
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * Local Auth Session (VITE_DEV_MODE=local)
+ *
+ * Holds the signed-in seeded user and active organization, and fetches
+ * session tokens from the Worker's local issuer (/api/dev/token).
+ */
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+
+const STORAGE_KEY = 'local-dev-session';
+// Refresh tokens this long before they expire
+const TOKEN_REFRESH_MARGIN_SECONDS = 30;
+
+export interface LocalOrganization {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface LocalMembership {
+  organization: LocalOrganization;
+  role: string;
+}
+
+export interface LocalUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  memberships: LocalMembership[];
+}
+
+interface StoredSession {
+  userId: string;
+  orgId: string | null;
+}
+
+interface CachedToken {
+  key: string;
+  token: string;
+  expiresAt: number;
+}
+
+interface LocalAuthContextValue {
+  isLoaded: boolean;
+  users: LocalUser[];
+  user: LocalUser | null;
+  membership: LocalMembership | null;
+  signIn: (userId: string) => void;
+  signOut: () => void;
+  setActiveOrganization: (orgId: string | null) => void;
+  getToken: (options?: { skipCache?: boolean }) => Promise<string | null>;
+}
+
+const LocalAuthContext = createContext<LocalAuthContextValue | null>(null);
+
+function readStoredSession(): StoredSession | null {
+  try {
+    const value = localStorage.getItem(STORAGE_KEY);
+    return value ? (JSON.parse(value) as StoredSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function LocalAuthProvider({ children }: { children: ReactNode }) {
+  const [users, setUsers] = useState<LocalUser[] | null>(null);
+  const [session, setSession] = useState<StoredSession | null>(readStoredSession);
+  const cachedToken = useRef<CachedToken | null>(null);
+
+  useEffect(() => {
+    fetch('/api/dev/users')
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`GET /api/dev/users: ${response.status} (is the API running with DEV_MODE=local?)`);
+        }
+        return response.json() as Promise<{ users: LocalUser[] }>;
+      })
+      .then((data) => setUsers(data.users))
+      .catch((error) => {
+        console.error(error);
+        setUsers([]);
+      });
+  }, []);
+
+  const saveSession = useCallback((next: StoredSession | null) => {
+    cachedToken.current = null;
+    if (next) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    setSession(next);
+  }, []);
+
+  const user = users?.find((candidate) => candidate.id === session?.userId) ?? null;
+  const membership =
+    user?.memberships.find((candidate) => candidate.organization.id === session?.orgId) ?? null;
+  const userId = user?.id ?? null;
+  const orgId = membership?.organization.id ?? null;
+
+  const getToken = useCallback(
+    async ({ skipCache = false }: { skipCache?: boolean } = {}) => {
+      if (!userId) return null;
+
+      const key = `${userId}:${orgId ?? ''}`;
+      const cached = cachedToken.current;
+      const now = Math.floor(Date.now() / 1000);
+      if (
+        !skipCache &&
+        cached?.key === key &&
+        cached.expiresAt - TOKEN_REFRESH_MARGIN_SECONDS > now
+      ) {
+        return cached.token;
+      }
+
+      const response = await fetch('/api/dev/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, orgId }),
+      });
+      if (!response.ok) return null;
+
+      const { token, expiresAt } = (await response.json()) as { token: string; expiresAt: number };
+      cachedToken.current = { key, token, expiresAt };
+      return token;
+    },
+    [userId, orgId],
+  );
+
+  const value = useMemo<LocalAuthContextValue>(
+    () => ({
+      isLoaded: users !== null,
+      users: users ?? [],
+      user,
+      membership,
+      // Start in the user's first organization, like Clerk's last active one
+      signIn: (id) => {
+        const signedIn = users?.find((candidate) => candidate.id === id);
+        saveSession({ userId: id, orgId: signedIn?.memberships[0]?.organization.id ?? null });
+      },
+      signOut: () => saveSession(null),
+      setActiveOrganization: (id) => {
+        if (userId) saveSession({ userId, orgId: id });
+      },
+      getToken,
+    }),
+    [users, user, membership, userId, saveSession, getToken],
+  );
+
+  return <LocalAuthContext.Provider value={value}>{children}</LocalAuthContext.Provider>;
+}
+
+export function useLocalAuth(): LocalAuthContextValue {
+  const value = useContext(LocalAuthContext);
+  if (!value) {
+    throw new Error('useLocalAuth must be used inside LocalAuthProvider');
+  }
+  return value;
+}
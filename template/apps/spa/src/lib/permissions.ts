@@ -0,0 +1,62 @@
+/**
+ * Permission Catalog
+ *
+ * Mirror of apps/api/src/constants/permissions.ts, so the UI shows exactly
+ * what the API allows. Keep both files in sync.
+ */
+export const PERMISSIONS = [
+  'org:billing:read',
+  'org:billing:manage',
+  'org:items:read',
+  'org:items:write',
+  'org:api_keys:manage',
+  'org:audit_log:read',
+  'org:data:export',
+  'org:organization:delete',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Permissions granted by role (in addition to custom permissions)
+ */
+export const ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  'org:admin': PERMISSIONS,
+  'org:member': ['org:billing:read', 'org:items:read', 'org:items:write'],
+};
+
+/**
+ * Permissions that can be granted to API keys as scopes
+ * (keys cannot manage keys or delete the organization)
+ */
+export type ApiKeyScope = Exclude<Permission, 'org:api_keys:manage' | 'org:organization:delete'>;
+
+export const API_KEY_SCOPES = PERMISSIONS.filter(
+  (permission): permission is ApiKeyScope =>
+    permission !== 'org:api_keys:manage' && permission !== 'org:organization:delete',
+);
+
+export interface PermissionSubject {
+  userId: string;
+  orgId: string | null;
+  orgRole: string | null;
+  orgPermissions: readonly string[];
+}
+
+/**
+ * Personal account: no active organization, or the user's own storage
+ */
+export function isPersonalAccount(subject: Pick<PermissionSubject, 'userId' | 'orgId'>): boolean {
+  return !subject.orgId || subject.orgId === subject.userId;
+}
+
+/**
+ * Check a permission
+ * Personal account owners have every permission on their own account.
+ */
+export function hasPermission(subject: PermissionSubject, permission: Permission): boolean {
+  if (isPersonalAccount(subject)) return true;
+
+  const rolePermissions = subject.orgRole ? ROLE_PERMISSIONS[subject.orgRole] ?? [] : [];
+  return rolePermissions.includes(permission) || subject.orgPermissions.includes(permission);
+}
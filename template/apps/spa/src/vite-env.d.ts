@@ -6,6 +6,8 @@ interface ImportMetaEnv {
   readonly VITE_STRIPE_PRICING_TABLE_ID: string;
   readonly VITE_API_URL: string;
   readonly VITE_POSTHOG_KEY?: string;
+  // 'local': offline development against the API's DEV_MODE=local
+  readonly VITE_DEV_MODE?: 'local';
 }
 
 interface ImportMeta {